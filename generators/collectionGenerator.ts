@@ -22,14 +22,15 @@ type AccessFunction = (
   args: AccessArgs,
 ) => AccessResult | Promise<AccessResult>;
 
+/** Access functions, their source code, or a boolean */
 interface CollectionAccess {
-  create?: AccessFunction | boolean;
-  read?: AccessFunction | boolean;
-  update?: AccessFunction | boolean;
-  delete?: AccessFunction | boolean;
-  admin?: AccessFunction | boolean;
-  unlock?: AccessFunction | boolean;
-  readVersions?: AccessFunction | boolean;
+  create?: AccessFunction | string | boolean;
+  read?: AccessFunction | string | boolean;
+  update?: AccessFunction | string | boolean;
+  delete?: AccessFunction | string | boolean;
+  admin?: AccessFunction | string | boolean;
+  unlock?: AccessFunction | string | boolean;
+  readVersions?: AccessFunction | string | boolean;
 }
 
 interface ImageSize {
@@ -606,7 +607,7 @@ function generateAccessControl(
     if (accessValue !== undefined) {
       if (typeof accessValue === "boolean") {
         code += `    ${operation}: ${accessValue},\n`;
-      } else if (typeof accessValue === "function") {
+      } else {
         code += `    ${operation}: ${accessValue.toString()},\n`;
       }
     }
@@ -616,7 +617,7 @@ function generateAccessControl(
     if (access.admin !== undefined) {
       if (typeof access.admin === "boolean") {
         code += `    admin: ${access.admin},\n`;
-      } else if (typeof access.admin === "function") {
+      } else {
         code += `    admin: ${access.admin.toString()},\n`;
       }
     }
@@ -624,7 +625,7 @@ function generateAccessControl(
     if (access.unlock !== undefined) {
       if (typeof access.unlock === "boolean") {
         code += `    unlock: ${access.unlock},\n`;
-      } else if (typeof access.unlock === "function") {
+      } else {
         code += `    unlock: ${access.unlock.toString()},\n`;
       }
     }
@@ -633,7 +634,7 @@ function generateAccessControl(
   if (versions && access.readVersions !== undefined) {
     if (typeof access.readVersions === "boolean") {
       code += `    readVersions: ${access.readVersions},\n`;
-    } else if (typeof access.readVersions === "function") {
+    } else {
       code += `    readVersions: ${access.readVersions.toString()},\n`;
     }
   }
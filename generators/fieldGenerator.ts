@@ -4,7 +4,7 @@
 import { getDefaultLabel, type GeneratorResult } from '../utils/index.js';
 
 type Where = Record<string, any>;
-type FilterOptions = Where | ((args: any) => Where | boolean);
+type FilterOptions = Where | string | ((args: any) => Where | boolean);
 
 interface BaseAdminOptions {
     description?: string;
@@ -42,15 +42,15 @@ interface BaseField {
     validate?: string | Function;
     saveToJWT?: boolean;
     access?: {
-        create?: Function | boolean;
-        read?: Function | boolean;
-        update?: Function | boolean;
+        create?: Function | string | boolean;
+        read?: Function | string | boolean;
+        update?: Function | string | boolean;
     };
     hooks?: {
-        beforeValidate?: Array<Function>;
-        beforeChange?: Array<Function>;
-        afterChange?: Array<Function>;
-        afterRead?: Array<Function>;
+        beforeValidate?: Array<Function | string>;
+        beforeChange?: Array<Function | string>;
+        afterChange?: Array<Function | string>;
+        afterRead?: Array<Function | string>;
     };
     admin?: BaseAdminOptions;
     custom?: Record<string, any>;
@@ -399,9 +399,7 @@ export async function generateField(options: FieldGeneratorOptions): Promise<Gen
             if (Array.isArray(value)) {
                 code += `\n      ${key}: [`;
                 value.forEach(hook => {
-                    if (typeof hook === 'function') {
-                        code += `\n        ${hook.toString()},`;
-                    }
+                    code += `\n        ${hook.toString()},`;
                 });
                 code += '\n      ],';
             }
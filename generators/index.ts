@@ -1,3 +1,15 @@
+import type { GeneratorResult } from '../utils/index.js';
+import type { AccessControlGeneratorOptions } from './accessControlGenerator.js';
+import type { BlockGeneratorConfig } from './blockGenerator.js';
+import type { CollectionGeneratorOptions } from './collectionGenerator.js';
+import type { ComponentGeneratorOptions } from './componentGenerator.js';
+import type { ConfigGeneratorOptions } from './configGenerator.js';
+import type { EndpointGeneratorOptions } from './endpointGenerator.js';
+import type { FieldGeneratorOptions } from './fieldGenerator.js';
+import type { HookGeneratorOptions } from './hookGenerator.js';
+import type { MigrationGeneratorOptions } from './migrationGenerator.js';
+import type { PluginGeneratorOptions } from './pluginGenerator.js';
+
 export { generateCollection, type CollectionGeneratorOptions } from './collectionGenerator.js';
 export { generateAccessControl, type AccessControlGeneratorOptions } from './accessControlGenerator.js';
 export { generateHook, type HookGeneratorOptions } from './hookGenerator.js';
@@ -21,29 +33,45 @@ export type GeneratorType =
     | 'plugin'
     | 'block'
 
-export function getGenerator(type: GeneratorType) {
-    switch (type) {
-        case 'collection':
-            return import('./collectionGenerator.js').then(m => m.generateCollection);
-        case 'accessControl':
-            return import('./accessControlGenerator.js').then(m => m.generateAccessControl);
-        case 'hook':
-            return import('./hookGenerator.js').then(m => m.generateHook);
-        case 'component':
-            return import('./componentGenerator.js').then(m => m.generateComponent);
-        case 'migration':
-            return import('./migrationGenerator.js').then(m => m.generateMigration);
-        case 'field':
-            return import('./fieldGenerator.js').then(m => m.generateField);
-        case 'config':
-            return import('./configGenerator.js').then(m => m.generateConfig);
-        case 'endpoint':
-            return import('./endpointGenerator.js').then(m => m.generateEndpoint);
-        case 'plugin':
-            return import('./pluginGenerator.js').then(m => m.generatePlugin);
-        case 'block':
-            return import('./blockGenerator.js').then(m => m.generateBlock);
-        default:
-            throw new Error(`Unknown generator type: ${type}`);
+/**
+ * Options of each generator, keyed by generator type
+ */
+export interface GeneratorOptionsByType {
+    collection: CollectionGeneratorOptions;
+    accessControl: AccessControlGeneratorOptions;
+    hook: HookGeneratorOptions;
+    component: ComponentGeneratorOptions;
+    migration: MigrationGeneratorOptions;
+    field: FieldGeneratorOptions;
+    config: ConfigGeneratorOptions;
+    endpoint: EndpointGeneratorOptions;
+    plugin: PluginGeneratorOptions;
+    block: BlockGeneratorConfig;
+}
+
+type Generator<T extends GeneratorType> = (options: GeneratorOptionsByType[T]) => Promise<GeneratorResult>;
+
+const generatorLoaders: { [T in GeneratorType]: () => Promise<Generator<T>> } = {
+    collection: () => import('./collectionGenerator.js').then(m => m.generateCollection),
+    accessControl: () => import('./accessControlGenerator.js').then(m => m.generateAccessControl),
+    hook: () => import('./hookGenerator.js').then(m => m.generateHook),
+    component: () => import('./componentGenerator.js').then(m => m.generateComponent),
+    migration: () => import('./migrationGenerator.js').then(m => m.generateMigration),
+    field: () => import('./fieldGenerator.js').then(m => m.generateField),
+    config: () => import('./configGenerator.js').then(m => m.generateConfig),
+    endpoint: () => import('./endpointGenerator.js').then(m => m.generateEndpoint),
+    plugin: () => import('./pluginGenerator.js').then(m => m.generatePlugin),
+    block: () => import('./blockGenerator.js').then(m => m.generateBlock),
+};
+
+export function getGenerator<T extends GeneratorType>(type: T): Promise<Generator<T>> {
+    const load: (() => Promise<Generator<T>>) | undefined = generatorLoaders[type];
+    if (!load) {
+        throw new Error(`Unknown generator type: ${type}`);
     }
-} 
\ No newline at end of file
+    return load();
+}
+
+export * from './output.js';
+export * from './schemas.js';
+export * from './writeGenerated.js';
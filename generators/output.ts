@@ -0,0 +1,176 @@
+/**
+ * Describe where generated code belongs in a Payload project and how to wire it in
+ */
+import { builtinModules } from 'module';
+import path from 'path';
+import { camelCase, camelToKebabCase, type GeneratorResult } from '../utils/index.js';
+import type { GeneratorType } from './index.js';
+
+type GeneratorOutput = GeneratorResult & {
+    additionalFiles?: Array<{ code: string; fileName: string; language: string }>;
+    outputPath?: string;
+};
+
+export interface GeneratedFile {
+    /** Path relative to the project root, following the standard Payload `src/` layout */
+    path: string;
+    language: string;
+    code: string;
+}
+
+export interface GeneratedArtifact {
+    type: GeneratorType;
+    /** Suggested path of the main file, relative to the project root */
+    path: string;
+    fileName: string;
+    language: string;
+    /** npm packages the generated code imports */
+    dependencies: string[];
+    /** Import to add to `src/payload.config.ts`, when the artifact is referenced from there */
+    importLine?: string;
+    /** Where the imported artifact goes */
+    usage?: string;
+    additionalFiles?: GeneratedFile[];
+}
+
+const CONFIG_DIR = 'src';
+
+function getPackageName(specifier: string): string | undefined {
+    if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('node:')) {
+        return undefined;
+    }
+
+    const [scopeOrName, name] = specifier.split('/');
+    const packageName = scopeOrName.startsWith('@') && name ? `${scopeOrName}/${name}` : scopeOrName;
+
+    return builtinModules.includes(packageName) ? undefined : packageName;
+}
+
+/**
+ * Collect the npm packages imported by a piece of generated code
+ */
+export function getDependencies(...sources: string[]): string[] {
+    const dependencies = new Set<string>();
+    const importPattern = /(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,]+\s+from\s+)?['"]([^'"]+)['"]/g;
+
+    for (const source of sources) {
+        for (const match of source.matchAll(importPattern)) {
+            const packageName = getPackageName(match[1]);
+            if (packageName) {
+                dependencies.add(packageName);
+            }
+        }
+    }
+
+    return [...dependencies].sort();
+}
+
+function getImportClause(code: string): string | undefined {
+    const defaultExport = code.match(/export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/m);
+    if (defaultExport) {
+        return defaultExport[1];
+    }
+
+    const namedExports = [...code.matchAll(/export\s+(?:async\s+)?(?:const|function|class)\s+([A-Za-z_$][\w$]*)/g)]
+        .map((match) => match[1]);
+
+    return namedExports.length > 0 ? `{ ${namedExports.join(', ')} }` : undefined;
+}
+
+function getImportLine(code: string, filePath: string): string | undefined {
+    const importClause = getImportClause(code);
+    if (!importClause) {
+        return undefined;
+    }
+
+    const relativePath = path.posix.relative(CONFIG_DIR, filePath).replace(/(\/index)?\.tsx?$/, '');
+    const specifier = relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+
+    return `import ${importClause} from '${specifier}';`;
+}
+
+function getLocation(type: GeneratorType, options: Record<string, any>, result: GeneratorOutput): {
+    path: string;
+    usage?: string;
+    importable?: boolean;
+} {
+    const fileName = result.fileName;
+    const exportName = getImportClause(result.code) ?? `the generated ${type}`;
+
+    switch (type) {
+        case 'collection':
+            return { path: `src/collections/${fileName}`, usage: `Add ${exportName} to the \`collections\` array of buildConfig`, importable: true };
+        case 'field':
+            return { path: `src/fields/${fileName ?? `${options.name}.ts`}`, usage: 'Paste into the `fields` array of a collection, global or block' };
+        case 'config':
+            return { path: options.outputPath ?? 'src/payload.config.ts' };
+        case 'accessControl':
+            return { path: `src/access/${fileName}`, usage: 'Merge into the `access` property of the collection, global or field' };
+        case 'hook': {
+            const owner = options.collection ?? options.global ?? 'shared';
+            return { path: `src/hooks/${camelToKebabCase(owner)}/${fileName ?? `${options.type}.ts`}`, usage: `Add to \`hooks.${options.type}\` of the ${options.global ? 'global' : 'collection'}` };
+        }
+        case 'endpoint':
+            return {
+                path: `src/endpoints/${fileName}`,
+                usage: options.collection || options.global
+                    ? `Add ${exportName} to the \`endpoints\` array of ${options.collection ?? options.global}`
+                    : `Add ${exportName} to the \`endpoints\` array of buildConfig`,
+                importable: !options.collection && !options.global,
+            };
+        case 'plugin':
+            return options.target === 'npm'
+                ? { path: `${options.name}/src/${fileName}`, usage: `Publish the package, then add ${camelCase(options.name)}Plugin() to the \`plugins\` array of buildConfig` }
+                : { path: `plugins/${options.name}/src/${fileName}`, usage: `Add ${exportName}() to the \`plugins\` array of buildConfig`, importable: true };
+        case 'block':
+            if (options.mode === 'blocksField') {
+                return { path: `src/fields/${fileName}`, usage: `Add ${exportName} to the \`fields\` array of a collection or global` };
+            }
+            return { path: `src/blocks/${fileName}`, usage: `Add ${exportName} to the \`blocks\` array of buildConfig or of a blocks field`, importable: options.mode === 'block' };
+        case 'migration':
+            return { path: `src/migrations/${fileName}`, usage: 'Run with `payload migrate`' };
+        case 'component': {
+            const componentPath = path.posix.join(result.outputPath ?? 'components', fileName ?? '');
+            return {
+                path: path.posix.join(CONFIG_DIR, componentPath),
+                usage: `Reference as '/${componentPath.replace(/\.tsx?$/, '')}' in the admin components config, then run \`payload generate:importmap\``,
+            };
+        }
+        default:
+            return { path: `src/${fileName}` };
+    }
+}
+
+/**
+ * Build the structured description of a generator result
+ *
+ * @param type - Generator that produced the result
+ * @param options - Options the generator was called with
+ * @param result - Generated code
+ * @returns Suggested path, npm dependencies and the import needed to wire it into payload.config.ts
+ */
+export function describeGeneratedArtifact(type: GeneratorType, options: Record<string, any>, result: GeneratorOutput): GeneratedArtifact {
+    const location = getLocation(type, options, result);
+    const baseDir = path.posix.dirname(location.path);
+    const additionalFiles = result.additionalFiles?.map((file) => ({
+        path: type === 'plugin'
+            ? path.posix.join(path.posix.dirname(baseDir), file.fileName)
+            : path.posix.join(baseDir, file.fileName),
+        language: file.language,
+        code: file.code,
+    }));
+
+    return {
+        type,
+        path: location.path,
+        fileName: path.posix.basename(location.path),
+        language: result.language,
+        dependencies: getDependencies(
+            result.code,
+            ...(additionalFiles ?? []).filter((file) => file.language === 'typescript').map((file) => file.code)
+        ),
+        importLine: location.importable ? getImportLine(result.code, location.path) : undefined,
+        usage: location.usage,
+        additionalFiles,
+    };
+}
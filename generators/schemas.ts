@@ -0,0 +1,804 @@
+/**
+ * Zod schemas for generator options, mirroring the option interfaces of each generator
+ */
+import { z } from 'zod';
+import type { AccessControlGeneratorOptions } from './accessControlGenerator.js';
+import type { BlockGeneratorConfig } from './blockGenerator.js';
+import type { CollectionGeneratorOptions } from './collectionGenerator.js';
+import type { ComponentGeneratorOptions } from './componentGenerator.js';
+import type { ConfigGeneratorOptions } from './configGenerator.js';
+import type { EndpointGeneratorOptions } from './endpointGenerator.js';
+import type { FieldGeneratorOptions } from './fieldGenerator.js';
+import type { HookGeneratorOptions } from './hookGenerator.js';
+import type { GeneratorOptionsByType, GeneratorType } from './index.js';
+import type { MigrationGeneratorOptions } from './migrationGenerator.js';
+import type { PluginGeneratorOptions } from './pluginGenerator.js';
+
+const labelsSchema = z.object({
+    singular: z.string(),
+    plural: z.string(),
+});
+
+const adminComponentsSchema = z.object({
+    Field: z.string().optional(),
+    Cell: z.string().optional(),
+    Filter: z.string().optional(),
+    Label: z.string().optional(),
+}).passthrough();
+
+const fieldAdminSchema = z.object({
+    description: z.string().optional(),
+    placeholder: z.string().optional(),
+    condition: z.string().optional().describe('Condition function source code'),
+    components: adminComponentsSchema.optional(),
+    width: z.string().optional(),
+    style: z.record(z.any()).optional(),
+    className: z.string().optional(),
+    readOnly: z.boolean().optional(),
+    hidden: z.boolean().optional(),
+    position: z.literal('sidebar').optional(),
+    disabled: z.boolean().optional(),
+    isSortable: z.boolean().optional(),
+    initCollapsed: z.boolean().optional(),
+    disableLabel: z.boolean().optional(),
+    autoComplete: z.string().optional(),
+    rtl: z.boolean().optional(),
+}).passthrough();
+
+const baseFieldShape = {
+    name: z.string().min(1).describe('Field name (camelCase)'),
+    label: z.string().optional(),
+    required: z.boolean().optional(),
+    unique: z.boolean().optional(),
+    index: z.boolean().optional(),
+    localized: z.boolean().optional(),
+    defaultValue: z.any().optional(),
+    hidden: z.boolean().optional(),
+    validate: z.string().optional().describe('Validate function source code'),
+    saveToJWT: z.boolean().optional(),
+    access: z.object({
+        create: z.union([z.boolean(), z.string()]).optional(),
+        read: z.union([z.boolean(), z.string()]).optional(),
+        update: z.union([z.boolean(), z.string()]).optional(),
+    }).optional(),
+    hooks: z.record(z.array(z.string())).optional().describe('Hook function source code keyed by hook name'),
+    admin: fieldAdminSchema.optional(),
+    custom: z.record(z.any()).optional(),
+    virtual: z.boolean().optional(),
+    typescriptSchema: z.record(z.any()).optional(),
+    graphQL: z.record(z.any()).optional(),
+};
+
+const selectOptionSchema = z.object({
+    label: z.string(),
+    value: z.string(),
+});
+
+const filterOptionsSchema = z.union([z.record(z.any()), z.string()]);
+
+export const FIELD_TYPES = [
+    'text',
+    'textarea',
+    'number',
+    'email',
+    'code',
+    'json',
+    'date',
+    'point',
+    'select',
+    'radio',
+    'checkbox',
+    'richText',
+    'relationship',
+    'array',
+    'blocks',
+    'group',
+    'tabs',
+    'row',
+    'collapsible',
+    'upload',
+    'ui',
+    'join',
+] as const;
+
+export type FieldTypeName = typeof FIELD_TYPES[number];
+
+let fieldOptionsSchema: z.ZodTypeAny;
+
+const nestedFieldsSchema = z.lazy(() => z.array(fieldOptionsSchema));
+
+const fieldSchemasByType = {
+    text: z.object({
+        ...baseFieldShape,
+        type: z.literal('text'),
+        minLength: z.number().optional(),
+        maxLength: z.number().optional(),
+        hasMany: z.boolean().optional(),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+    }),
+    textarea: z.object({
+        ...baseFieldShape,
+        type: z.literal('textarea'),
+        minLength: z.number().optional(),
+        maxLength: z.number().optional(),
+    }),
+    number: z.object({
+        ...baseFieldShape,
+        type: z.literal('number'),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        hasMany: z.boolean().optional(),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+    }),
+    email: z.object({
+        ...baseFieldShape,
+        type: z.literal('email'),
+    }),
+    code: z.object({
+        ...baseFieldShape,
+        type: z.literal('code'),
+        language: z.string().optional(),
+    }),
+    json: z.object({
+        ...baseFieldShape,
+        type: z.literal('json'),
+        jsonSchema: z.object({
+            uri: z.string(),
+            fileMatch: z.array(z.string()),
+            schema: z.record(z.any()).optional(),
+        }).optional(),
+    }),
+    date: z.object({
+        ...baseFieldShape,
+        type: z.literal('date'),
+        format: z.string().optional(),
+        timeFormat: z.string().optional(),
+        monthsToShow: z.number().optional(),
+    }),
+    point: z.object({
+        ...baseFieldShape,
+        type: z.literal('point'),
+    }),
+    select: z.object({
+        ...baseFieldShape,
+        type: z.literal('select'),
+        options: z.array(selectOptionSchema),
+        hasMany: z.boolean().optional(),
+    }),
+    radio: z.object({
+        ...baseFieldShape,
+        type: z.literal('radio'),
+        options: z.array(selectOptionSchema),
+    }),
+    checkbox: z.object({
+        ...baseFieldShape,
+        type: z.literal('checkbox'),
+    }),
+    richText: z.object({
+        ...baseFieldShape,
+        type: z.literal('richText'),
+        editor: z.record(z.any()).optional(),
+        admin: fieldAdminSchema.extend({
+            elements: z.array(z.string()).optional(),
+            leaves: z.array(z.string()).optional(),
+        }).optional(),
+    }),
+    relationship: z.object({
+        ...baseFieldShape,
+        type: z.literal('relationship'),
+        relationTo: z.union([z.string(), z.array(z.string())]),
+        hasMany: z.boolean().optional(),
+        filterOptions: filterOptionsSchema.optional(),
+        maxDepth: z.number().optional(),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+        admin: fieldAdminSchema.extend({
+            allowCreate: z.boolean().optional(),
+            allowEdit: z.boolean().optional(),
+            sortOptions: z.union([z.string(), z.record(z.string())]).optional(),
+        }).optional(),
+    }),
+    array: z.object({
+        ...baseFieldShape,
+        type: z.literal('array'),
+        fields: nestedFieldsSchema,
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+        labels: labelsSchema.optional(),
+        interfaceName: z.string().optional(),
+        dbName: z.string().optional(),
+    }),
+    blocks: z.object({
+        ...baseFieldShape,
+        type: z.literal('blocks'),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+        blocks: z.array(z.object({
+            slug: z.string().min(1),
+            imageURL: z.string().optional(),
+            imageAltText: z.string().optional(),
+            interfaceName: z.string().optional(),
+            fields: nestedFieldsSchema,
+            labels: labelsSchema.optional(),
+            admin: z.object({
+                description: z.string().optional(),
+                components: z.object({
+                    Label: z.string().optional(),
+                    Block: z.string().optional(),
+                }).optional(),
+                group: z.string().optional(),
+            }).optional(),
+        })),
+        labels: labelsSchema.optional(),
+        admin: fieldAdminSchema.extend({
+            disableBlockName: z.boolean().optional(),
+        }).optional(),
+    }),
+    group: z.object({
+        ...baseFieldShape,
+        type: z.literal('group'),
+        fields: nestedFieldsSchema,
+        interfaceName: z.string().optional(),
+        admin: fieldAdminSchema.extend({
+            hideGutter: z.boolean().optional(),
+        }).optional(),
+    }),
+    tabs: z.object({
+        ...baseFieldShape,
+        type: z.literal('tabs'),
+        tabs: z.array(z.object({
+            label: z.string(),
+            name: z.string().optional(),
+            description: z.string().optional(),
+            interfaceName: z.string().optional(),
+            fields: nestedFieldsSchema,
+        })),
+        admin: fieldAdminSchema.extend({
+            placement: z.enum(['left', 'bottom']).optional(),
+        }).optional(),
+    }),
+    row: z.object({
+        ...baseFieldShape,
+        type: z.literal('row'),
+        fields: nestedFieldsSchema,
+    }),
+    collapsible: z.object({
+        ...baseFieldShape,
+        type: z.literal('collapsible'),
+        label: z.string(),
+        fields: nestedFieldsSchema,
+    }),
+    upload: z.object({
+        ...baseFieldShape,
+        type: z.literal('upload'),
+        relationTo: z.string(),
+        filterOptions: filterOptionsSchema.optional(),
+        maxDepth: z.number().optional(),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+        hasMany: z.boolean().optional(),
+        displayPreview: z.boolean().optional(),
+    }),
+    ui: z.object({
+        ...baseFieldShape,
+        type: z.literal('ui'),
+        admin: z.object({
+            components: z.object({
+                Field: z.string(),
+                Cell: z.string().optional(),
+            }),
+            disableListColumn: z.boolean().optional(),
+        }),
+    }),
+    join: z.object({
+        ...baseFieldShape,
+        type: z.literal('join'),
+        from: z.union([z.string(), z.array(z.string())]),
+        foreignField: z.string(),
+        where: z.record(z.any()).optional(),
+        maxDepth: z.number().optional(),
+        defaultLimit: z.number().optional(),
+        defaultSort: z.string().optional(),
+        admin: fieldAdminSchema.extend({
+            defaultColumns: z.array(z.string()).optional(),
+            allowCreate: z.boolean().optional(),
+        }).optional(),
+    }),
+} satisfies { [T in FieldTypeName]: z.ZodType<Extract<FieldGeneratorOptions, { type: T }>> };
+
+/**
+ * Get the option schema for a single field type
+ */
+export function getFieldOptionsSchema(type: FieldTypeName) {
+    return fieldSchemasByType[type];
+}
+
+fieldOptionsSchema = z.discriminatedUnion('type', [
+    fieldSchemasByType.text,
+    fieldSchemasByType.textarea,
+    fieldSchemasByType.number,
+    fieldSchemasByType.email,
+    fieldSchemasByType.code,
+    fieldSchemasByType.json,
+    fieldSchemasByType.date,
+    fieldSchemasByType.point,
+    fieldSchemasByType.select,
+    fieldSchemasByType.radio,
+    fieldSchemasByType.checkbox,
+    fieldSchemasByType.richText,
+    fieldSchemasByType.relationship,
+    fieldSchemasByType.array,
+    fieldSchemasByType.blocks,
+    fieldSchemasByType.group,
+    fieldSchemasByType.tabs,
+    fieldSchemasByType.row,
+    fieldSchemasByType.collapsible,
+    fieldSchemasByType.upload,
+    fieldSchemasByType.ui,
+    fieldSchemasByType.join,
+]);
+
+export const fieldGeneratorOptionsSchema = fieldOptionsSchema;
+
+const accessValueSchema = z.union([z.boolean(), z.string().describe('Access function source code')]);
+
+export const collectionGeneratorOptionsSchema = z.object({
+    slug: z.string().min(1).describe('Collection slug (kebab-case)'),
+    fields: z.array(fieldOptionsSchema).optional(),
+    labels: labelsSchema.optional(),
+    dbName: z.string().optional(),
+    admin: z.object({
+        useAsTitle: z.string().optional(),
+        defaultColumns: z.array(z.string()).optional(),
+        listSearchableFields: z.array(z.string()).optional(),
+        description: z.string().optional(),
+        group: z.union([z.string(), z.boolean()]).optional(),
+        hidden: z.boolean().optional(),
+        disableCopyToLocale: z.boolean().optional(),
+        hideAPIURL: z.boolean().optional(),
+        enableRichTextLink: z.boolean().optional(),
+        enableRichTextRelationship: z.boolean().optional(),
+        meta: z.record(z.any()).optional(),
+        preview: z.object({ url: z.string().optional() }).optional(),
+        livePreview: z.boolean().optional(),
+        components: z.record(z.any()).optional(),
+        pagination: z.record(z.any()).optional(),
+        baseListFilter: z.record(z.any()).optional(),
+    }).passthrough().optional(),
+    disableDuplicate: z.boolean().optional(),
+    access: z.object({
+        create: accessValueSchema.optional(),
+        read: accessValueSchema.optional(),
+        update: accessValueSchema.optional(),
+        delete: accessValueSchema.optional(),
+        admin: accessValueSchema.optional(),
+        unlock: accessValueSchema.optional(),
+        readVersions: accessValueSchema.optional(),
+    }).optional(),
+    auth: z.union([
+        z.boolean(),
+        z.object({
+            tokenExpiration: z.number().optional(),
+            verify: z.union([
+                z.boolean(),
+                z.object({
+                    generateEmailHTML: z.string().optional(),
+                    generateEmailSubject: z.string().optional(),
+                    maxAge: z.number().optional(),
+                }),
+            ]).optional(),
+            maxLoginAttempts: z.number().optional(),
+            lockTime: z.number().optional(),
+            depth: z.number().optional(),
+            cookies: z.object({
+                secure: z.boolean().optional(),
+                sameSite: z.union([z.boolean(), z.enum(['lax', 'none', 'strict'])]).optional(),
+                domain: z.string().optional(),
+            }).optional(),
+            forgotPassword: z.object({
+                generateEmailHTML: z.string().optional(),
+                generateEmailSubject: z.string().optional(),
+            }).optional(),
+            loginWithUsername: z.union([
+                z.boolean(),
+                z.object({
+                    allowEmailLogin: z.boolean().optional(),
+                    requireEmail: z.boolean().optional(),
+                }),
+            ]).optional(),
+            useAPIKey: z.boolean().optional(),
+            disableLocalStrategy: z.boolean().optional(),
+            removeTokenFromResponses: z.boolean().optional(),
+            strategies: z.array(z.any()).optional(),
+        }),
+    ]).optional(),
+    endpoints: z.union([
+        z.array(z.object({
+            path: z.string(),
+            method: z.enum(['get', 'head', 'post', 'put', 'delete', 'connect', 'options']),
+            handler: z.string().describe('Handler function source code'),
+            root: z.boolean().optional(),
+            custom: z.record(z.any()).optional(),
+        })),
+        z.literal(false),
+    ]).optional(),
+    hooks: z.array(z.object({
+        trigger: z.string(),
+        operation: z.string().optional(),
+        collection: z.string().optional(),
+        field: z.string().optional(),
+        code: z.string().optional(),
+    })).optional(),
+    versions: z.union([
+        z.boolean(),
+        z.object({
+            drafts: z.boolean(),
+            maxPerDoc: z.number(),
+            max: z.number().optional(),
+            retainDeleted: z.boolean().optional(),
+        }),
+    ]).optional(),
+    upload: z.union([z.boolean(), z.record(z.any())]).optional(),
+    timestamps: z.boolean().optional(),
+    defaultSort: z.union([z.string(), z.array(z.string())]).optional(),
+    defaultPopulate: z.record(z.boolean()).optional(),
+    indexes: z.array(z.object({
+        fields: z.record(z.union([z.literal(1), z.literal(-1), z.literal('text')])),
+        options: z.record(z.any()).optional(),
+    })).optional(),
+    forceSelect: z.array(z.string()).optional(),
+    lockDocuments: z.union([z.boolean(), z.object({ duration: z.number().optional() })]).optional(),
+    typescript: z.object({ interface: z.string().optional() }).optional(),
+    graphQL: z.union([
+        z.object({
+            singularName: z.string().optional(),
+            pluralName: z.string().optional(),
+            fields: z.record(z.any()).optional(),
+        }),
+        z.literal(false),
+    ]).optional(),
+    custom: z.record(z.any()).optional(),
+}) satisfies z.ZodType<CollectionGeneratorOptions>;
+
+export const accessControlGeneratorOptionsSchema = z.object({
+    collection: z.string().optional(),
+    global: z.string().optional(),
+    field: z.string().optional(),
+    type: z.enum(['collection', 'global', 'field']).optional(),
+    operation: z.enum(['create', 'read', 'update', 'delete', 'admin', 'unlock', 'readVersions']).optional(),
+    template: z.enum([
+        'admin',
+        'authenticated',
+        'public',
+        'owner',
+        'published',
+        'role',
+        'organization',
+        'locale',
+        'conditional',
+    ]).optional(),
+    options: z.object({
+        ownerField: z.string().optional(),
+        statusField: z.string().optional(),
+        roles: z.array(z.string()).optional(),
+        orgField: z.string().optional(),
+        userOrgField: z.string().optional(),
+        locales: z.array(z.string()).optional(),
+        condition: z.string().optional(),
+    }).passthrough().optional(),
+}) satisfies z.ZodType<AccessControlGeneratorOptions>;
+
+export const hookGeneratorOptionsSchema = z.object({
+    type: z.enum(['beforeValidate', 'beforeChange', 'afterChange', 'beforeRead', 'afterRead']),
+    collection: z.string().optional(),
+    global: z.string().optional(),
+    features: z.array(z.string()).optional(),
+    description: z.string().optional(),
+}) satisfies z.ZodType<HookGeneratorOptions>;
+
+export const endpointGeneratorOptionsSchema = z.object({
+    path: z.string().min(1),
+    method: z.enum(['get', 'head', 'post', 'put', 'delete', 'connect', 'options']),
+    handler: z.string().optional().describe('Handler function source code'),
+    root: z.boolean().optional(),
+    isAuthenticated: z.boolean().optional(),
+    processRequestData: z.boolean().optional(),
+    handleCORS: z.boolean().optional(),
+    description: z.string().optional(),
+    collection: z.string().optional(),
+    global: z.string().optional(),
+    custom: z.record(z.any()).optional(),
+}) satisfies z.ZodType<EndpointGeneratorOptions>;
+
+export const migrationGeneratorOptionsSchema = z.object({
+    name: z.string().optional(),
+    dbAdapter: z.enum(['mongodb', 'postgres', 'sqlite']),
+    description: z.string().optional(),
+    features: z.array(z.enum(['schema', 'data', 'transaction'])).optional(),
+    skipEmpty: z.boolean().optional(),
+    forceAcceptWarning: z.boolean().optional(),
+    customImports: z.array(z.string()).optional(),
+}) satisfies z.ZodType<MigrationGeneratorOptions>;
+
+export const configGeneratorOptionsSchema = z.object({
+    secret: z.string().optional(),
+    database: z.object({
+        adapter: z.enum(['mongodb', 'postgres']),
+        adapterOptions: z.object({
+            url: z.string(),
+            connectOptions: z.record(z.any()).optional(),
+            enableMigrations: z.boolean().optional(),
+            pool: z.object({
+                min: z.number().optional(),
+                max: z.number().optional(),
+            }).optional(),
+        }),
+    }),
+    admin: z.record(z.any()).optional(),
+    collections: z.array(z.string()).optional(),
+    globals: z.array(z.string()).optional(),
+    cors: z.union([
+        z.object({
+            origins: z.union([z.array(z.string()), z.string()]).optional(),
+            headers: z.array(z.string()).optional(),
+        }),
+        z.array(z.string()),
+        z.string(),
+    ]).optional(),
+    graphQL: z.object({
+        disable: z.boolean().optional(),
+        schemaOutputFile: z.string().optional(),
+        maxComplexity: z.number().optional(),
+        disableIntrospection: z.boolean().optional(),
+    }).optional(),
+    localization: z.object({
+        fallback: z.string().optional(),
+        locales: z.array(z.string()).optional(),
+        defaultLocale: z.string().optional(),
+    }).optional(),
+    i18n: z.object({
+        defaultLanguage: z.string().optional(),
+        languages: z.array(z.object({ code: z.string(), label: z.string() })).optional(),
+        resources: z.record(z.record(z.string())).optional(),
+    }).optional(),
+    routes: z.object({
+        api: z.string().optional(),
+        admin: z.string().optional(),
+        graphQL: z.string().optional(),
+        graphQLPlayground: z.string().optional(),
+    }).optional(),
+    email: z.object({
+        transport: z.record(z.any()).optional(),
+        fromName: z.string().optional(),
+        fromAddress: z.string().optional(),
+        templates: z.record(z.string()).optional(),
+    }).optional(),
+    upload: z.object({
+        maxFileSize: z.number().optional(),
+        imageSizes: z.array(z.object({
+            name: z.string(),
+            width: z.number(),
+            height: z.number().optional(),
+            formatOptions: z.record(z.any()).optional(),
+        })).optional(),
+    }).optional(),
+    typescript: z.object({
+        autoGenerate: z.boolean().optional(),
+        declare: z.boolean().optional(),
+        outputFile: z.string().optional(),
+    }).optional(),
+    maxDepth: z.number().optional(),
+    defaultDepth: z.number().optional(),
+    serverURL: z.string().optional(),
+    disableTelemetry: z.boolean().optional(),
+    debug: z.boolean().optional(),
+    outputPath: z.string().optional(),
+    compatibility: z.object({
+        allowLocalizedWithinLocalized: z.boolean().optional(),
+    }).optional(),
+    cookiePrefix: z.string().optional(),
+    customEndpoints: z.boolean().optional(),
+    customHooks: z.boolean().optional(),
+    customBinScripts: z.boolean().optional(),
+}) satisfies z.ZodType<ConfigGeneratorOptions>;
+
+export const pluginGeneratorOptionsSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    features: z.array(z.enum(['collections', 'globals', 'fields', 'hooks', 'admin', 'endpoints', 'components'])).optional(),
+    target: z.enum(['standalone', 'npm', 'local']).optional(),
+    officialPluginType: z.enum([
+        'form-builder',
+        'nested-docs',
+        'redirects',
+        'search',
+        'sentry',
+        'seo',
+        'stripe',
+        'multi-tenant',
+        'custom',
+    ]).optional(),
+    options: z.object({
+        hasOptionsInterface: z.boolean().optional(),
+        properties: z.array(z.object({
+            name: z.string(),
+            type: z.string(),
+            required: z.boolean().optional(),
+            description: z.string().optional(),
+            defaultValue: z.string().optional(),
+        })).optional(),
+    }).optional(),
+    collections: z.array(z.object({
+        slug: z.string(),
+        fields: z.array(z.string()).optional(),
+    })).optional(),
+    globals: z.array(z.object({
+        slug: z.string(),
+        fields: z.array(z.string()).optional(),
+    })).optional(),
+    hooks: z.array(z.object({
+        type: z.enum(['collection', 'global', 'field', 'beforeChange', 'afterChange', 'beforeRead', 'afterRead']),
+        description: z.string().optional(),
+    })).optional(),
+    adminComponents: z.array(z.object({
+        name: z.string(),
+        type: z.enum(['field', 'view', 'nav', 'meta']),
+    })).optional(),
+    customEndpoints: z.array(z.object({
+        path: z.string(),
+        method: z.enum(['get', 'post', 'put', 'delete']),
+        description: z.string().optional(),
+    })).optional(),
+    additionalFiles: z.array(z.string()).optional(),
+    includeDevEnvironment: z.boolean().optional(),
+    includeTests: z.boolean().optional(),
+    includeDocs: z.boolean().optional(),
+}) satisfies z.ZodType<PluginGeneratorOptions>;
+
+const blockOptionsSchema = z.object({
+    slug: z.string().min(1),
+    fields: z.array(fieldOptionsSchema),
+    imageURL: z.string().optional(),
+    imageAltText: z.string().optional(),
+    labels: labelsSchema.optional(),
+    interfaceName: z.string().optional(),
+    graphQL: z.object({ singularName: z.string().optional() }).optional(),
+    admin: z.object({
+        description: z.string().optional(),
+        components: z.object({
+            Label: z.string().optional(),
+            Block: z.string().optional(),
+        }).optional(),
+        group: z.string().optional(),
+        initCollapsed: z.boolean().optional(),
+    }).optional(),
+    dbName: z.string().optional(),
+    custom: z.record(z.any()).optional(),
+    typescriptSchema: z.record(z.any()).optional(),
+});
+
+export const blockGeneratorOptionsSchema = z.object({
+    mode: z.enum(['block', 'blocksField', 'globalBlockRegistration']),
+    block: blockOptionsSchema.optional(),
+    blocksField: z.object({
+        name: z.string().min(1),
+        label: z.string().optional(),
+        blocks: z.array(blockOptionsSchema).optional(),
+        blockReferences: z.array(z.string()).optional(),
+        minRows: z.number().optional(),
+        maxRows: z.number().optional(),
+        required: z.boolean().optional(),
+        localized: z.boolean().optional(),
+        admin: z.object({
+            description: z.string().optional(),
+            condition: z.string().optional(),
+            initCollapsed: z.boolean().optional(),
+            isSortable: z.boolean().optional(),
+            disableBlockName: z.boolean().optional(),
+            components: z.object({ RowLabel: z.string().optional() }).optional(),
+        }).optional(),
+        lexical: z.object({
+            inLexical: z.boolean().optional(),
+            allowInlineBlocks: z.boolean().optional(),
+        }).optional(),
+    }).optional(),
+}) satisfies z.ZodType<BlockGeneratorConfig>;
+
+const componentBaseShape = {
+    name: z.string().min(1),
+    isClientComponent: z.boolean().optional(),
+    props: z.array(z.object({
+        name: z.string(),
+        type: z.string(),
+        defaultValue: z.string().optional(),
+        required: z.boolean().optional(),
+        description: z.string().optional(),
+    })).optional(),
+    imports: z.array(z.string()).optional(),
+    includeStyles: z.boolean().optional(),
+    customStyles: z.string().optional(),
+    outputPath: z.string().optional(),
+};
+
+/**
+ * Option schemas for each kind of admin component
+ */
+export const componentOptionSchemas = {
+    root: z.object({
+        ...componentBaseShape,
+        rootComponentType: z.enum([
+            'logo',
+            'icon',
+            'nav',
+            'action',
+            'beforeDashboard',
+            'afterDashboard',
+            'beforeLogin',
+            'afterLogin',
+            'beforeNavLinks',
+            'afterNavLinks',
+            'header',
+            'logoutButton',
+        ]),
+    }),
+    collection: z.object({
+        ...componentBaseShape,
+        collectionComponentType: z.enum([
+            'beforeList',
+            'afterList',
+            'beforeListTable',
+            'afterListTable',
+            'saveButton',
+            'saveDraftButton',
+            'publishButton',
+            'previewButton',
+            'description',
+            'upload',
+        ]),
+        collection: z.string().optional(),
+    }),
+    view: z.object({
+        ...componentBaseShape,
+        viewType: z.enum(['dashboard', 'account', 'list', 'edit', 'custom']),
+        viewPath: z.string().optional(),
+        useDefaultTemplate: z.boolean().optional(),
+        entity: z.string().optional(),
+        isDocumentTab: z.boolean().optional(),
+        tabProps: z.object({
+            label: z.string().optional(),
+            href: z.string().optional(),
+        }).optional(),
+    }),
+    provider: z.object({
+        ...componentBaseShape,
+        contextValueType: z.string().optional(),
+        includeHook: z.boolean().optional(),
+    }),
+};
+
+export const COMPONENT_TYPES = ['root', 'collection', 'view', 'provider'] as const;
+
+export const componentGeneratorOptionsSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('root'), options: componentOptionSchemas.root }),
+    z.object({ type: z.literal('collection'), options: componentOptionSchemas.collection }),
+    z.object({ type: z.literal('view'), options: componentOptionSchemas.view }),
+    z.object({ type: z.literal('provider'), options: componentOptionSchemas.provider }),
+]) satisfies z.ZodType<ComponentGeneratorOptions>;
+
+/**
+ * Option schemas keyed by generator type
+ */
+export const generatorOptionSchemas: { [T in GeneratorType]: z.ZodType<GeneratorOptionsByType[T]> } = {
+    collection: collectionGeneratorOptionsSchema,
+    field: fieldGeneratorOptionsSchema,
+    config: configGeneratorOptionsSchema,
+    accessControl: accessControlGeneratorOptionsSchema,
+    hook: hookGeneratorOptionsSchema,
+    endpoint: endpointGeneratorOptionsSchema,
+    plugin: pluginGeneratorOptionsSchema,
+    block: blockGeneratorOptionsSchema,
+    migration: migrationGeneratorOptionsSchema,
+    component: componentGeneratorOptionsSchema,
+};
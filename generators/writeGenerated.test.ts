@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeGenerated } from './writeGenerated.js';
+
+describe('writeGenerated', () => {
+    let tmp: string;
+    let projectRoot: string;
+    let outside: string;
+
+    beforeEach(() => {
+        tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-'));
+        projectRoot = path.join(tmp, 'project');
+        outside = path.join(tmp, 'outside');
+        fs.mkdirSync(path.join(projectRoot, 'src'), { recursive: true });
+        fs.mkdirSync(outside);
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    test('writes files under the project root', () => {
+        const result = writeGenerated({ projectRoot, files: [{ path: 'src/collections/posts.ts', code: 'export {};\n' }] });
+
+        expect(result.success).toBe(true);
+        expect(result.files).toEqual([{ path: 'src/collections/posts.ts', status: 'created' }]);
+        expect(fs.readFileSync(path.join(projectRoot, 'src/collections/posts.ts'), 'utf8')).toBe('export {};\n');
+    });
+
+    test('rejects paths with .. segments that leave the project root', () => {
+        const result = writeGenerated({ projectRoot, files: [{ path: '../outside/posts.ts', code: '' }] });
+
+        expect(result.success).toBe(false);
+        expect(result.errors.map((error) => error.code)).toEqual(['FS_PATH_OUTSIDE_ROOT']);
+    });
+
+    test('rejects paths through a symlinked directory that leads out of the project root', () => {
+        fs.symlinkSync(outside, path.join(projectRoot, 'src', 'linked'), 'dir');
+
+        const result = writeGenerated({ projectRoot, files: [{ path: 'src/linked/collections/posts.ts', code: 'export {};\n' }] });
+
+        expect(result.success).toBe(false);
+        expect(result.errors.map((error) => error.code)).toEqual(['FS_PATH_OUTSIDE_ROOT']);
+        expect(fs.readdirSync(outside)).toEqual([]);
+    });
+
+    test('accepts a project root that is itself reached through a symlink', () => {
+        const linkedRoot = path.join(tmp, 'linked-project');
+        fs.symlinkSync(projectRoot, linkedRoot, 'dir');
+
+        const result = writeGenerated({ projectRoot: linkedRoot, files: [{ path: 'src/posts.ts', code: '' }] });
+
+        expect(result.success).toBe(true);
+    });
+
+    test('reports a file that only differs in its final newline as a conflict', () => {
+        fs.writeFileSync(path.join(projectRoot, 'src', 'posts.ts'), 'export {};');
+
+        const result = writeGenerated({ projectRoot, files: [{ path: 'src/posts.ts', code: 'export {};\n' }] });
+
+        expect(result.files[0].status).toBe('conflict');
+        expect(result.files[0].diff).toBe([
+            '--- a/src/posts.ts',
+            '+++ b/src/posts.ts',
+            '@@ -1,1 +1,1 @@',
+            '-export {};',
+            '\\ No newline at end of file',
+            '+export {};',
+            '',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Write generated artifacts into an existing Payload project
+ */
+import fs from 'fs';
+import { writeFile } from '../scaffolds/fileSystem.js';
+import type { ScaffoldError } from '../scaffolds/index.js';
+import { createUnifiedDiff, resolveInsideRoot } from '../utils/index.js';
+
+export interface FileToWrite {
+    /** Path relative to the project root */
+    path: string;
+    code: string;
+}
+
+export interface WriteGeneratedOptions {
+    projectRoot: string;
+    files: FileToWrite[];
+    /** Replace files whose contents differ from the generated code */
+    overwrite?: boolean;
+    /** Report what would change without touching the file system */
+    dryRun?: boolean;
+}
+
+export type WriteStatus = 'created' | 'overwritten' | 'unchanged' | 'conflict';
+
+export interface WrittenFile {
+    path: string;
+    status: WriteStatus;
+    /** Unified diff against the existing file */
+    diff?: string;
+}
+
+export interface WriteGeneratedResult {
+    success: boolean;
+    files: WrittenFile[];
+    errors: ScaffoldError[];
+}
+
+/**
+ * Write generated files under a project root. Existing files with different contents
+ * are reported as conflicts, with a diff, and nothing is written unless `overwrite` is set.
+ * Files are only written when every file passes these checks.
+ *
+ * @param options - Project root, files and write flags
+ * @returns The status of every file and any file system errors
+ */
+export function writeGenerated(options: WriteGeneratedOptions): WriteGeneratedResult {
+    const { projectRoot, files, overwrite = false, dryRun = false } = options;
+    const errors: ScaffoldError[] = [];
+    const planned: Array<WrittenFile & { fullPath: string; code: string }> = [];
+
+    if (!fs.existsSync(projectRoot) || !fs.statSync(projectRoot).isDirectory()) {
+        return {
+            success: false,
+            files: [],
+            errors: [{
+                code: 'FS_PROJECT_ROOT_NOT_FOUND',
+                message: `Project root does not exist or is not a directory: ${projectRoot}`,
+                field: 'projectRoot',
+                suggestion: 'Point projectRoot at an existing Payload project.',
+            }],
+        };
+    }
+
+    for (const file of files) {
+        const fullPath = resolveInsideRoot(projectRoot, file.path);
+        if (!fullPath) {
+            errors.push({
+                code: 'FS_PATH_OUTSIDE_ROOT',
+                message: `Path resolves outside the project root: ${file.path}`,
+                field: 'path',
+                suggestion: 'Use a path relative to the project root without `..` segments or symlinks that lead out of it.',
+            });
+            continue;
+        }
+
+        if (!fs.existsSync(fullPath)) {
+            planned.push({ path: file.path, status: 'created', fullPath, code: file.code });
+            continue;
+        }
+
+        if (fs.statSync(fullPath).isDirectory()) {
+            errors.push({
+                code: 'FS_PATH_IS_DIRECTORY',
+                message: `Path already exists and is a directory, cannot write file: ${fullPath}`,
+                suggestion: 'Please remove the conflicting directory or choose a different file name.',
+            });
+            continue;
+        }
+
+        const existing = fs.readFileSync(fullPath, 'utf8');
+        const diff = createUnifiedDiff(existing, file.code, file.path);
+        if (!diff) {
+            planned.push({ path: file.path, status: 'unchanged', fullPath, code: file.code });
+        } else {
+            planned.push({ path: file.path, status: overwrite ? 'overwritten' : 'conflict', diff, fullPath, code: file.code });
+        }
+    }
+
+    const conflicts = planned.filter((file) => file.status === 'conflict');
+    for (const conflict of conflicts) {
+        errors.push({
+            code: 'FS_FILE_EXISTS',
+            message: `File already exists with different contents: ${conflict.path}`,
+            field: conflict.path,
+            suggestion: 'Review the diff and call again with overwrite: true to replace it.',
+        });
+    }
+
+    if (errors.length === 0 && !dryRun) {
+        for (const file of planned) {
+            if (file.status === 'unchanged') {
+                continue;
+            }
+
+            const error = writeFile(file.fullPath, file.code);
+            if (error) {
+                errors.push(error);
+            }
+        }
+    }
+
+    return {
+        success: errors.length === 0,
+        files: planned.map(({ path: filePath, status, diff }) => ({ path: filePath, status, diff })),
+        errors,
+    };
+}
@@ -1,11 +1,59 @@
-import express from 'express';
-import { setupMcpServer } from './server/index.js';
+import fs from 'fs';
+import { pathToFileURL } from 'url';
+import { loadServerConfig } from './server/config.js';
+import { startHttpServer, startStdioServer } from './server/transports.js';
 
-const app = express();
-const PORT = 3001;
+export {
+    createMcpServer,
+    createSecurityMiddleware,
+    createSessionManager,
+    setupDiagnostics,
+    setupMcpServer,
+    setupSseTransport,
+    setupStreamableHttp,
+    type McpServerOptions,
+    type SecurityOptions,
+    type SessionManager,
+    type SessionManagerOptions,
+    type SessionStats,
+} from './server/index.js';
+export {
+    getDefaultServerConfig,
+    loadServerConfig,
+    serverConfigSchema,
+    type ServerConfig,
+    type ServerConfigInput,
+    type ToolGroup,
+    type TransportType,
+} from './server/config.js';
+export { startHttpServer, startStdioServer } from './server/transports.js';
 
-setupMcpServer(app);
+function isEntryPoint(): boolean {
+    if (!process.argv[1]) {
+        return false;
+    }
 
-app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+    try {
+        return import.meta.url === pathToFileURL(fs.realpathSync(process.argv[1])).href;
+    } catch {
+        return false;
+    }
+}
+
+async function main() {
+    const config = loadServerConfig();
+
+    if (config.transport === 'stdio') {
+        await startStdioServer(config);
+        return;
+    }
+
+    startHttpServer(config);
+}
+
+if (isEntryPoint()) {
+    main().catch((error) => {
+        console.error(`Failed to start Payload MCP server: ${(error as Error).message}`);
+        process.exit(1);
+    });
+}
@@ -0,0 +1 @@
+export { registerWorkflowPrompts } from './workflowPrompts.js';
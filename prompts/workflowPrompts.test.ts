@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../server/index.js';
+
+const promptArguments: Record<string, Record<string, string>> = {
+    design_collection: { description: 'Blog posts with a title, author and publish date', slug: 'BlogPosts' },
+    add_role_based_access: { collection: 'posts', roles: 'admin, editor', publicRead: 'true' },
+    review_config: { code: 'export default buildConfig({ collections: [] });' },
+    write_migration: { collection: 'posts', change: 'rename title to headline', database: 'postgres' },
+};
+
+async function connect() {
+    const server = createMcpServer();
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+}
+
+async function getPromptText(client: Client, name: string): Promise<string> {
+    const { messages } = await client.getPrompt({ name, arguments: promptArguments[name] });
+    expect(messages).toEqual([{ role: 'user', content: { type: 'text', text: expect.any(String) } }]);
+    return messages[0].content.text as string;
+}
+
+/**
+ * Collect the tool arguments a prompt asks for: the keys of the JSON block following
+ * "the `tool` tool with", and inline "the `tool` tool with `argument: ...`" mentions
+ */
+function getToolCalls(text: string): Array<{ tool: string; args: string[] }> {
+    const calls: Array<{ tool: string; args: string[] }> = [];
+    for (const match of text.matchAll(/the `(\w+)` tool with( arguments starting from)?:?\s*(`(\w+):|\{\n[\s\S]*?\n\})?/g)) {
+        const [, tool, , argumentsText, inlineArgument] = match;
+        const args = inlineArgument ? [inlineArgument] : argumentsText ? Object.keys(JSON.parse(argumentsText)) : [];
+        calls.push({ tool, args });
+    }
+    return calls;
+}
+
+describe('workflow prompts', () => {
+    test('lists every prompt with its arguments', async () => {
+        const client = await connect();
+        const { prompts } = await client.listPrompts();
+
+        expect(Object.fromEntries(prompts.map((prompt) => [prompt.name, prompt.arguments?.map((arg) => arg.name)])))
+            .toEqual(Object.fromEntries(Object.entries(promptArguments).map(([name, args]) => [name, Object.keys(args)])));
+    });
+
+    test('renders each prompt from its arguments', async () => {
+        const client = await connect();
+
+        expect(await getPromptText(client, 'design_collection')).toContain('"slug": "blog-posts"');
+        expect(await getPromptText(client, 'add_role_based_access')).toContain('"admin",\n      "editor"');
+        expect(await getPromptText(client, 'review_config')).toContain('export default buildConfig({ collections: [] });');
+        expect(await getPromptText(client, 'write_migration')).toContain('"name": "posts-rename-title-to-headline"');
+    });
+
+    test('only asks for tools and arguments the server publishes', async () => {
+        const client = await connect();
+        const { tools } = await client.listTools();
+        const toolsByName = new Map<string, Tool>(tools.map((tool) => [tool.name, tool]));
+
+        for (const name of Object.keys(promptArguments)) {
+            const text = await getPromptText(client, name);
+            const calls = getToolCalls(text);
+            expect(calls.length).toBeGreaterThan(0);
+
+            for (const { tool, args } of calls) {
+                const properties = Object.keys(toolsByName.get(tool)?.inputSchema.properties ?? {});
+                expect(properties, `${name} asks for the ${tool} tool`).not.toEqual([]);
+                expect(properties, `${name} passes ${args.join(', ')} to ${tool}`).toEqual(expect.arrayContaining(args));
+            }
+        }
+    });
+});
@@ -0,0 +1,121 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { ToolContext } from '../tools/types.js';
+
+function userMessage(text: string): GetPromptResult {
+    return {
+        messages: [{
+            role: 'user',
+            content: { type: 'text', text },
+        }],
+    };
+}
+
+function toSlug(value: string): string {
+    return value
+        .trim()
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .toLowerCase();
+}
+
+function toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+}
+
+export function registerWorkflowPrompts(server: McpServer, context: ToolContext) {
+    server.prompt(
+        'design_collection',
+        'Design a Payload collection from a plain-language description, then generate and validate it',
+        {
+            description: z.string().describe('What the collection stores and how editors use it'),
+            slug: z.string().optional().describe('Collection slug; derived from the description when omitted'),
+        },
+        ({ description, slug }) => userMessage(`Design a Payload CMS collection for the following requirement:
+
+${description}
+
+Follow these steps:
+1. Pick the fields the collection needs. Read the \`payload://fields\` resource for the available field types and \`payload://fields/{type}\` for the options of each one.
+2. Call the \`generate_collection\` tool with arguments starting from:
+${toJson({ slug: slug ? toSlug(slug) : '<kebab-case-slug>', admin: { useAsTitle: '<title field>' }, fields: [] })}
+   Set \`admin.useAsTitle\`, mark fields that are filtered or sorted on with \`index: true\`, and add \`access\` rules instead of leaving the collection open.
+3. Call the \`validate_code\` tool with \`componentType: "collection"\` on the generated code and fix every error and warning it reports.
+4. Show the final collection config and briefly explain each field choice.`)
+    );
+
+    server.prompt(
+        'add_role_based_access',
+        'Add role-based access control to an existing collection',
+        {
+            collection: z.string().describe('Slug of the collection to protect'),
+            roles: z.string().optional().describe('Comma-separated roles allowed to write, e.g. "admin,editor"'),
+            publicRead: z.string().optional().describe('Whether anonymous users may read documents ("true" or "false", default "false")'),
+        },
+        ({ collection, roles, publicRead }) => {
+            const roleList = (roles ?? 'admin')
+                .split(',')
+                .map((role) => role.trim())
+                .filter(Boolean);
+            const slug = toSlug(collection);
+
+            return userMessage(`Add role-based access control to the \`${slug}\` collection.
+
+Roles allowed to create, update and delete: ${roleList.join(', ')}
+Read access: ${publicRead === 'true' ? 'public' : 'authenticated users only'}
+
+Follow these steps:
+1. For each of the \`create\`, \`update\` and \`delete\` operations, call the \`generate_access_control\` tool with:
+${toJson({ collection: slug, type: 'collection', operation: '<operation>', template: 'role', options: { roles: roleList } })}
+2. Call \`generate_access_control\` once more for the \`read\` operation with \`template: "${publicRead === 'true' ? 'public' : 'authenticated'}"\`.
+3. Wire the generated functions into the collection's \`access\` property, and make sure the users collection has a \`roles\` field saved to the JWT (\`saveToJWT: true\`) so the checks do not need a database lookup.
+4. Call the \`validate_code\` tool with \`componentType: "collection"\` on the updated collection and fix the reported issues, paying particular attention to security findings.`);
+        }
+    );
+
+    server.prompt(
+        'review_config',
+        'Review a payload.config for correctness, security and performance',
+        {
+            code: z.string().optional().describe('Contents of payload.config.ts; the assistant asks for it when omitted'),
+        },
+        ({ code }) => userMessage(`Review the Payload CMS configuration ${code ? 'below' : `in \`payload.config.ts\` at the project root (${context.projectRoot})`}.
+${code ? `
+\`\`\`typescript
+${code}
+\`\`\`
+` : ''}
+Follow these steps:
+1. Call the \`validate_code\` tool with \`componentType: "config"\` on the configuration.
+2. Read \`payload://validation/rules/config\` and check the rules the validator cannot see from static analysis, such as secrets loaded from environment variables and CORS/CSRF origins.
+3. Summarise the findings grouped by severity (errors, security, performance, best practices), each with the exact change to make and its documentation link.`)
+    );
+
+    server.prompt(
+        'write_migration',
+        'Write a database migration for a field change',
+        {
+            collection: z.string().describe('Slug of the collection being changed'),
+            change: z.string().describe('The field change, e.g. "rename title to headline" or "make price required"'),
+            database: z.string().optional().describe('Database adapter: mongodb, postgres or sqlite (defaults to the project database)'),
+        },
+        ({ collection, change, database }) => {
+            const dbAdapter = database ?? context.defaults.database ?? '<mongodb | postgres | sqlite>';
+            const slug = toSlug(collection);
+
+            return userMessage(`Write a Payload CMS migration for this change to the \`${slug}\` collection:
+
+${change}
+
+Follow these steps:
+1. Work out whether the change needs a schema migration, a data migration or both, and whether existing documents must be backfilled.
+2. Call the \`generate_migration\` tool with:
+${toJson({ name: toSlug(`${slug} ${change}`).slice(0, 60), dbAdapter, description: change, features: ['schema', 'data', 'transaction'] })}
+   Drop the features the change does not need.
+3. Fill in both \`up\` and \`down\` so the migration can be rolled back, and update the field definition in the collection config to match.
+4. Use the \`process_query\` tool to check any queries that filter or sort on the changed field still use valid operators for its new type.`);
+        }
+    );
+}
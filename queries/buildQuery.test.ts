@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { buildQuery } from './buildQuery.js';
+import { loadGraphQLSchema } from './graphQLSchema.js';
+import { parseGraphQL } from './parseGraphQL.js';
+import { validateGraphQL } from './validateGraphQL.js';
+
+const collectionConfig = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'title', type: 'text' },
+    { name: 'views', type: 'number' },
+    { name: 'status', type: 'select', options: ['draft', 'published'] },
+  ],
+};`;
+
+describe('buildQuery', () => {
+  test('writes a query for every API from filters, sort and select', () => {
+    const result = buildQuery({
+      collection: 'posts',
+      filters: [
+        { field: 'views', operator: 'greater_than', value: 10 },
+        { or: [{ field: 'status', operator: 'equals', value: 'draft' }, { field: 'title', operator: 'like', value: 'Hi' }] },
+      ],
+      sort: [{ field: 'views', direction: 'desc' }],
+      limit: 5,
+      select: ['title', 'views'],
+    }, { collectionConfig });
+
+    expect(result.query).toEqual({
+      collection: 'posts',
+      where: { views: { greater_than: 10 }, or: [{ status: { equals: 'draft' } }, { title: { like: 'Hi' } }] },
+      sort: '-views',
+      limit: 5,
+      select: { title: true, views: true },
+    });
+    expect(result.rest).toBe('/api/posts?where[views][greater_than]=10&where[or][0][status][equals]=draft'
+      + '&where[or][1][title][like]=Hi&sort=-views&limit=5&select[title]=true&select[views]=true');
+    expect(result.graphql).toContain('OR: [{ status: { equals: draft } }, { title: { like: "Hi" } }]');
+    expect(result.warnings).toEqual([]);
+    expect(result.issues).toEqual([]);
+  });
+
+  test('writes GraphQL that passes validation against the derived schema', () => {
+    const { graphql } = buildQuery({
+      collection: 'posts',
+      filters: [{ field: 'status', operator: 'in', value: ['draft', 'published'] }],
+      select: ['title'],
+    }, { collectionConfig });
+
+    expect(validateGraphQL(parseGraphQL(graphql), { schema: loadGraphQLSchema({ collectionConfig }).schema })).toEqual([]);
+  });
+
+  test('reports fields the collection does not have', () => {
+    const { issues } = buildQuery({
+      collection: 'posts',
+      filters: [{ field: 'titel', operator: 'equals', value: 'Hello' }],
+      select: ['nope'],
+    }, { collectionConfig });
+
+    expect(issues.map((issue) => issue.path)).toEqual(['where.titel', 'select.nope']);
+  });
+
+  test('throws on incomplete filters', () => {
+    expect(() => buildQuery({ collection: 'posts', filters: [{ field: 'title', operator: 'eq', value: 'Hello' }] }))
+      .toThrow('Unknown operator "eq" on "title"');
+    expect(() => buildQuery({ collection: 'posts', filters: [{ field: 'title', operator: 'equals' }] }))
+      .toThrow('The equals filter on "title" needs a value');
+  });
+});
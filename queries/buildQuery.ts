@@ -0,0 +1,190 @@
+import { writeQuery } from './convertQuery.js';
+import { loadQuerySchema, resolveFieldPath, type QuerySchema } from './querySchema.js';
+import { WHERE_OPERATORS } from './suggestions/whereQuerySuggestions.js';
+import { validateSort, validateWhere } from './validateWhere.js';
+import type {
+  BuildResult,
+  PortableQuery,
+  QueryCondition,
+  QueryFilter,
+  QueryIssue,
+  QuerySchemaOptions,
+  QuerySortKey,
+  QuerySpec,
+} from './types.js';
+
+const OPERATOR_NAMES = WHERE_OPERATORS.map((operator) => operator.name);
+
+function isFilter(condition: QueryCondition): condition is QueryFilter {
+  return 'field' in condition;
+}
+
+function toCondition(filter: QueryFilter): Record<string, any> {
+  if (!filter.field) {
+    throw new Error('Every filter needs a field');
+  }
+  if (!OPERATOR_NAMES.includes(filter.operator)) {
+    throw new Error(`Unknown operator "${filter.operator}" on "${filter.field}"; use one of ${OPERATOR_NAMES.join(', ')}`);
+  }
+  if (filter.value === undefined && filter.operator !== 'exists') {
+    throw new Error(`The ${filter.operator} filter on "${filter.field}" needs a value`);
+  }
+
+  return { [filter.field]: { [filter.operator]: filter.value ?? true } };
+}
+
+/**
+ * Conditions of an `and` group with nested `and` groups and single-condition groups flattened into it
+ */
+function flattenAnd(conditions: QueryCondition[]): QueryCondition[] {
+  return conditions.flatMap((condition) => {
+    if (isFilter(condition)) {
+      return [condition];
+    }
+    const nested = 'and' in condition ? condition.and : condition.or;
+    if (nested.length === 0) {
+      throw new Error(`An ${'and' in condition ? 'and' : 'or'} group needs at least one condition`);
+    }
+    return 'and' in condition || nested.length === 1 ? flattenAnd(nested) : [condition];
+  });
+}
+
+/**
+ * Build the `where` object for conditions that must all or any match. Filters that must all match
+ * share one object where no field is compared with the same operator twice, e.g.
+ * `{ title: { equals: 'Hello' }, views: { greater_than: 10 }, or: [...] }`.
+ */
+function toWhere(conditions: QueryCondition[], combinator: 'and' | 'or'): Record<string, any> {
+  if (conditions.length === 0) {
+    throw new Error(`An ${combinator} group needs at least one condition`);
+  }
+  if (conditions.length === 1) {
+    return toWhereCondition(conditions[0]);
+  }
+  if (combinator === 'or') {
+    return { or: conditions.map(toWhereCondition) };
+  }
+
+  const flattened = flattenAnd(conditions);
+  const filters = flattened.filter(isFilter);
+  const groups = flattened.filter((condition) => !isFilter(condition));
+  const keys = new Set(filters.map((filter) => `${filter.field} ${filter.operator}`));
+  if (keys.size < filters.length || groups.length > 1 || filters.some((filter) => filter.field === 'or')) {
+    return { and: flattened.map(toWhereCondition) };
+  }
+
+  const where = filters.reduce<Record<string, any>>((merged, filter) => {
+    merged[filter.field] = { ...merged[filter.field], ...toCondition(filter)[filter.field] };
+    return merged;
+  }, {});
+  return groups.length === 1 ? { ...where, ...toWhereCondition(groups[0]) } : where;
+}
+
+function toWhereCondition(condition: QueryCondition): Record<string, any> {
+  if (isFilter(condition)) {
+    return toCondition(condition);
+  }
+  return 'and' in condition ? toWhere(condition.and, 'and') : toWhere(condition.or, 'or');
+}
+
+function toSortKey(key: string | QuerySortKey): string {
+  if (typeof key === 'string') {
+    return key;
+  }
+  return key.direction === 'desc' ? `-${key.field}` : key.field;
+}
+
+/**
+ * Turn field paths into a nested `select` object, e.g. `['title', 'meta.description']`
+ * into `{ title: true, meta: { description: true } }`
+ */
+function toSelect(paths: string[], context: string): Record<string, any> {
+  const excluded = paths.filter((path) => path.startsWith('-'));
+  if (excluded.length > 0 && excluded.length < paths.length) {
+    throw new Error(`${context} cannot both include and exclude fields; prefix every path with - or none`);
+  }
+
+  const select: Record<string, any> = {};
+  for (const path of paths) {
+    const segments = path.replace(/^-/, '').split('.');
+    let node = select;
+    segments.slice(0, -1).forEach((segment) => {
+      node[segment] = typeof node[segment] === 'object' ? node[segment] : {};
+      node = node[segment];
+    });
+    node[segments[segments.length - 1]] = excluded.length === 0;
+  }
+
+  return select;
+}
+
+/**
+ * Check selected field paths against a collection
+ */
+function checkPaths(paths: string[], schema: QuerySchema, collection: string, prefix: string): QueryIssue[] {
+  return paths.flatMap((path) => {
+    const fieldPath = path.replace(/^-/, '');
+    const resolved = resolveFieldPath(schema, collection, fieldPath);
+    return resolved.kind === 'unknown'
+      ? [{ severity: 'error' as const, message: resolved.message, path: `${prefix}.${fieldPath}` }]
+      : [];
+  });
+}
+
+/**
+ * Build a find query from a structured description and write it for the Local API, REST and GraphQL
+ *
+ * @param spec - Collection, filters, sort keys, pagination, depth and selected fields
+ * @param schemaOptions - Collections to check fields, operators and values against and to expand GraphQL selections
+ * @returns The query in every API, with problems and what could not be carried over
+ * @throws When the description is incomplete, e.g. a filter without a value or an unknown operator
+ */
+export function buildQuery(spec: QuerySpec, schemaOptions?: QuerySchemaOptions): BuildResult {
+  if (!spec.collection) {
+    throw new Error('A query needs the slug of the collection it finds documents in');
+  }
+
+  const warnings: string[] = [];
+  const loaded = schemaOptions ? loadQuerySchema(schemaOptions).schema : undefined;
+  if (loaded && !loaded.has(spec.collection)) {
+    warnings.push(`Collection "${spec.collection}" was not found, so fields are not checked`);
+  }
+  const schema = loaded?.has(spec.collection) ? loaded : undefined;
+
+  const sort = spec.sort?.map(toSortKey);
+  const query: PortableQuery = {
+    collection: spec.collection,
+    where: spec.filters && spec.filters.length > 0 ? toWhere(spec.filters, 'and') : undefined,
+    sort: sort && sort.length > 0 ? (sort.length === 1 ? sort[0] : sort) : undefined,
+    limit: spec.limit,
+    page: spec.page,
+    depth: spec.depth,
+    select: spec.select && spec.select.length > 0 ? toSelect(spec.select, 'select') : undefined,
+    populate: spec.populate && Object.keys(spec.populate).length > 0
+      ? Object.fromEntries(Object.entries(spec.populate).map(([slug, paths]) => [slug, toSelect(paths, `populate.${slug}`)]))
+      : undefined,
+  };
+
+  const whereOptions = { ...(schema && { schema, collection: spec.collection }) };
+  const issues: QueryIssue[] = [
+    ...(query.where !== undefined ? validateWhere(query.where, whereOptions) : []),
+    ...(query.sort !== undefined ? validateSort(query.sort, whereOptions) : []),
+  ];
+  if (schema) {
+    issues.push(...checkPaths(spec.select ?? [], schema, spec.collection, 'select'));
+    for (const [slug, paths] of Object.entries(spec.populate ?? {})) {
+      if (schema.has(slug)) {
+        issues.push(...checkPaths(paths, schema, slug, `populate.${slug}`));
+      } else {
+        issues.push({ severity: 'error', message: `Collection "${slug}" was not found`, path: `populate.${slug}` });
+      }
+    }
+  }
+
+  return {
+    query: Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined)) as PortableQuery,
+    ...writeQuery(query, schema, warnings),
+    warnings,
+    issues,
+  };
+}
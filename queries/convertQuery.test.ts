@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { convertQuery } from './convertQuery.js';
+import { parseLocalQuery } from './parseLocalQuery.js';
+import { validateQuery } from './validateQuery.js';
+
+const FIND_CALL = `payload.find({
+  collection: 'posts',
+  where: { views: { greater_than: 10 }, or: [{ status: { equals: 'draft' } }, { title: { like: 'Hello' } }] },
+  sort: '-createdAt',
+  limit: 5,
+  depth: 1,
+})`;
+
+const WHERE = {
+  views: { greater_than: 10 },
+  or: [{ status: { equals: 'draft' } }, { title: { like: 'Hello' } }],
+};
+
+describe('parseLocalQuery', () => {
+  test('reads JSON, object literals and find calls', () => {
+    expect(parseLocalQuery('{"collection":"posts","limit":5}')).toEqual({ collection: 'posts', limit: 5 });
+    expect(parseLocalQuery(`{ collection: 'posts', limit: 5 }`)).toEqual({ collection: 'posts', limit: 5 });
+    expect(parseLocalQuery(`const result = await payload.find({ collection: 'posts' });`)).toEqual({ collection: 'posts' });
+  });
+
+  test('throws when the source is not an object of find options', () => {
+    expect(() => parseLocalQuery('payload.find(options)')).toThrow('A Local API query must be an object of find options');
+  });
+});
+
+describe('validateQuery', () => {
+  test('reports why a malformed find call could not be parsed', () => {
+    const result = validateQuery(`payload.find({ collection: 'posts', where: { title: { equals: 'a=b' } }`);
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toStartWith('Invalid Local API query:');
+  });
+
+  test('does not read a malformed object literal as a REST query string', () => {
+    const result = validateQuery(`{ where: { title: { equals: 'a=b' } }, limit: }`);
+
+    expect(result.isValid).toBe(false);
+    expect(result.apiType).toBeUndefined();
+    expect(result.error).toStartWith('Invalid Local API query:');
+  });
+});
+
+describe('convertQuery', () => {
+  test('round-trips a Local API query through REST', () => {
+    const local = convertQuery(FIND_CALL);
+    expect(local.from).toBe('local');
+    expect(local.rest).toBe('/api/posts?where[views][greater_than]=10&where[or][0][status][equals]=draft'
+      + '&where[or][1][title][like]=Hello&sort=-createdAt&limit=5&depth=1');
+
+    const rest = convertQuery(local.rest);
+    expect(rest.from).toBe('rest');
+    expect(rest.query).toEqual(local.query);
+    expect(rest.local).toBe(local.local);
+  });
+
+  test('reads back the GraphQL document it writes', () => {
+    const graphql = convertQuery(convertQuery(FIND_CALL).graphql);
+
+    expect(graphql.from).toBe('graphql');
+    expect(graphql.query).toEqual({
+      collection: 'posts',
+      where: WHERE,
+      sort: '-createdAt',
+      limit: 5,
+      select: { id: true },
+    });
+  });
+
+  test('throws the parse error of a malformed find call', () => {
+    expect(() => convertQuery(`payload.find({ collection: 'posts', limit: })`)).toThrow(/expected\. \(1:\d+\)$/);
+  });
+});
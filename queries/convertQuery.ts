@@ -0,0 +1,657 @@
+import { Kind, type FieldNode, type FragmentDefinitionNode, type SelectionNode } from 'graphql';
+import { isOpaqueNode } from '../validator/index.js';
+import { graphQLValueToJS, parseGraphQL } from './parseGraphQL.js';
+import { getCollectionGraphQLNames, toEnumName } from './graphQLSchema.js';
+import { isFindCall, parseLocalQuery } from './parseLocalQuery.js';
+import { parseRestQuery } from './parseRestQuery.js';
+import {
+  getDataFields,
+  getOptionValues,
+  loadQuerySchema,
+  resolveFieldPath,
+  type QuerySchema,
+  type ResolvedField,
+} from './querySchema.js';
+import { validateQuery } from './validateQuery.js';
+import { validateSort, validateWhere } from './validateWhere.js';
+import type { ApiType, ConversionResult, ConvertQueryOptions, PortableQuery, QueryIssue } from './types.js';
+
+interface ConversionContext {
+  collection: string;
+  schema?: QuerySchema;
+  warnings: string[];
+}
+
+interface ReaderInput {
+  source: string;
+  schema?: QuerySchema;
+  variables?: Record<string, unknown>;
+  warnings: string[];
+  issues: QueryIssue[];
+}
+
+/**
+ * Selected fields of a GraphQL query; `true` for leaf fields
+ */
+interface SelectionTree {
+  [field: string]: true | SelectionTree;
+}
+
+const PORTABLE_PARAMS = ['collection', 'where', 'sort', 'limit', 'page', 'depth', 'select', 'populate'] as const;
+const RANGE_OPERATORS = ['greater_than', 'greater_than_equal', 'less_than', 'less_than_equal'];
+const LIST_OPERATORS = ['in', 'not_in', 'all'];
+const RELATION_TYPES = ['relationship', 'upload'];
+const ENUM_TYPES = ['select', 'radio'];
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/;
+/** Longest line a value is printed on before it is split over several lines */
+const MAX_LINE_WIDTH = 80;
+
+/**
+ * Enum value printed without quotes in GraphQL
+ */
+class EnumValue {
+  constructor(readonly name: string) {}
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof EnumValue);
+}
+
+function joinPath(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+function resolve(context: ConversionContext, path: string): ResolvedField {
+  return context.schema ? resolveFieldPath(context.schema, context.collection, path) : { kind: 'opaque' };
+}
+
+function findOpaquePath(value: unknown, path: string): string | undefined {
+  if (isOpaqueNode(value)) {
+    return path;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  for (const [key, nested] of Object.entries(value)) {
+    const found = findOpaquePath(nested, joinPath(path, key));
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function pickPortableParams(params: Record<string, any>, warnings: string[]): Partial<PortableQuery> {
+  const ignored = Object.keys(params).filter((key) => !(PORTABLE_PARAMS as readonly string[]).includes(key) && params[key] !== undefined);
+  if (ignored.length > 0) {
+    warnings.push(`${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} not converted`);
+  }
+
+  return Object.fromEntries(PORTABLE_PARAMS.filter((key) => params[key] !== undefined).map((key) => [key, params[key]]));
+}
+
+function readLocalQuery({ source, warnings }: ReaderInput): Partial<PortableQuery> {
+  const options = parseLocalQuery(source);
+  const opaquePath = findOpaquePath(options, '');
+  if (opaquePath) {
+    throw new Error(`"${opaquePath}" is not a literal value; replace it with its value to convert the query`);
+  }
+
+  return pickPortableParams(options, warnings);
+}
+
+function readRestQuery({ source, warnings, issues }: ReaderInput): Partial<PortableQuery> {
+  const { query, issues: parseIssues } = parseRestQuery(source);
+  issues.push(...parseIssues);
+  return pickPortableParams(query, warnings);
+}
+
+/**
+ * Flatten fragment spreads and inline fragments into the fields they select
+ */
+function expandSelections(
+  selections: readonly SelectionNode[],
+  fragments: Map<string, FragmentDefinitionNode>,
+  warnings: string[]
+): FieldNode[] {
+  return selections.flatMap((selection) => {
+    if (selection.kind === Kind.FIELD) {
+      return selection.name.value === '__typename' ? [] : [selection];
+    }
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      if (selection.typeCondition) {
+        warnings.push(`Fields of "... on ${selection.typeCondition.name.value}" are merged into the surrounding selection`);
+      }
+      return expandSelections(selection.selectionSet.selections, fragments, warnings);
+    }
+
+    const fragment = fragments.get(selection.name.value);
+    if (!fragment) {
+      throw new Error(`Unknown fragment "${selection.name.value}"`);
+    }
+    return expandSelections(fragment.selectionSet.selections, fragments, warnings);
+  });
+}
+
+function getFragmentSpreads(selections: readonly SelectionNode[]): string[] {
+  return selections.flatMap((selection) => (selection.kind === Kind.FRAGMENT_SPREAD
+    ? [selection.name.value]
+    : getFragmentSpreads(selection.selectionSet?.selections ?? [])));
+}
+
+function assertNoFragmentCycles(fragments: Map<string, FragmentDefinitionNode>): void {
+  const visit = (name: string, spreadBy: string[]) => {
+    if (spreadBy.includes(name)) {
+      throw new Error(`Fragment "${name}" spreads itself`);
+    }
+    getFragmentSpreads(fragments.get(name)?.selectionSet.selections ?? []).forEach((spread) => visit(spread, [...spreadBy, name]));
+  };
+  fragments.forEach((_, name) => visit(name, []));
+}
+
+function toSelect(fields: FieldNode[], fragments: Map<string, FragmentDefinitionNode>, warnings: string[]): Record<string, any> {
+  const select: Record<string, any> = {};
+  for (const field of fields) {
+    const name = field.name.value;
+    const nested = field.selectionSet
+      ? toSelect(expandSelections(field.selectionSet.selections, fragments, warnings), fragments, warnings)
+      : true;
+    select[name] = isPlainObject(select[name]) && isPlainObject(nested)
+      ? { ...select[name], ...nested }
+      : nested;
+  }
+  return select;
+}
+
+/**
+ * GraphQL `where` inputs use `AND`/`OR` and `__` between the names of nested fields
+ */
+function fromGraphQLWhere(where: unknown): unknown {
+  if (!isPlainObject(where)) {
+    return where;
+  }
+
+  return Object.fromEntries(Object.entries(where).map(([key, value]) => {
+    const lowerKey = key.toLowerCase();
+    if ((lowerKey === 'and' || lowerKey === 'or') && Array.isArray(value)) {
+      return [lowerKey, value.map(fromGraphQLWhere)];
+    }
+    return [key.split('__').join('.'), value];
+  }));
+}
+
+function readGraphQLQuery({ source, schema, variables, warnings }: ReaderInput): Partial<PortableQuery> {
+  const document = parseGraphQL(source);
+  const operation = document.definitions.find((definition) => definition.kind === Kind.OPERATION_DEFINITION);
+  if (!operation || operation.kind !== Kind.OPERATION_DEFINITION) {
+    throw new Error('The GraphQL document has no query');
+  }
+  if (operation.operation !== 'query') {
+    throw new Error(`Only queries can be converted, not a ${operation.operation}`);
+  }
+
+  const fragments = new Map(document.definitions
+    .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+    .map((fragment) => [fragment.name.value, fragment]));
+  assertNoFragmentCycles(fragments);
+  const values: Record<string, unknown> = {
+    ...Object.fromEntries((operation.variableDefinitions ?? [])
+      .filter((variable) => variable.defaultValue)
+      .map((variable) => [variable.variable.name.value, graphQLValueToJS(variable.defaultValue!)])),
+    ...variables,
+  };
+
+  const [field, ...others] = expandSelections(operation.selectionSet.selections, fragments, warnings);
+  if (!field) {
+    throw new Error('The GraphQL query selects no collection');
+  }
+  const name = field.name.value;
+  if (others.length > 0) {
+    warnings.push(`Only the first field of the query, ${name}, is converted`);
+  }
+
+  const docs = expandSelections(field.selectionSet?.selections ?? [], fragments, warnings).find((selection) => selection.name.value === 'docs');
+  if (!docs) {
+    throw new Error(`${name} is not a find query; select its docs, e.g. ${name} { docs { id } }`);
+  }
+
+  const slug = [...(schema ?? new Map()).entries()].find(([candidate, config]) => getCollectionGraphQLNames(candidate, config).plural === name)?.[0];
+  const collection = slug ?? name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  if (!slug) {
+    warnings.push(`Collection slug "${collection}" is derived from ${name}; pass the collection if its slug differs`);
+  }
+
+  const { where, ...params } = Object.fromEntries((field.arguments ?? []).map((argument) => [argument.name.value, graphQLValueToJS(argument.value, values)]));
+  const query = pickPortableParams({ ...params, where: fromGraphQLWhere(where), collection }, warnings);
+  if (docs.selectionSet) {
+    query.select = toSelect(expandSelections(docs.selectionSet.selections, fragments, warnings), fragments, warnings);
+  }
+
+  return query;
+}
+
+function getGraphQLSyntaxError(source: string): string | undefined {
+  try {
+    parseGraphQL(source);
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+const READERS: Record<ApiType, (input: ReaderInput) => Partial<PortableQuery>> = {
+  local: readLocalQuery,
+  rest: readRestQuery,
+  graphql: readGraphQLQuery,
+};
+
+/**
+ * Type a single string value by the field it is compared with. REST values arrive as strings
+ * and GraphQL enum values as their enum names.
+ */
+function coerceScalar(operator: string, value: unknown, resolved: ResolvedField): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const type = resolved.kind === 'field' ? resolved.type : undefined;
+  if ((type === 'number' || (!type && RANGE_OPERATORS.includes(operator))) && NUMERIC_STRING.test(value)) {
+    return Number(value);
+  }
+  if (type === 'checkbox' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (resolved.kind === 'field' && ENUM_TYPES.includes(resolved.type)) {
+    const options = getOptionValues(resolved.field) ?? [];
+    return options.includes(value) ? value : options.find((option) => toEnumName(option) === value) ?? value;
+  }
+  return value;
+}
+
+function coerceOperand(operator: string, value: unknown, resolved: ResolvedField): unknown {
+  switch (operator) {
+    case 'exists':
+      return value === 'true' || value === 'false' ? value === 'true' : value;
+    case 'near': {
+      const parts = typeof value === 'string' ? value.split(',') : value;
+      return Array.isArray(parts)
+        ? parts.map((part) => (part === '' || part === null ? null : typeof part === 'string' && NUMERIC_STRING.test(part) ? Number(part) : part))
+        : value;
+    }
+    default:
+      if (LIST_OPERATORS.includes(operator)) {
+        const items = typeof value === 'string' ? value.split(',') : value;
+        return Array.isArray(items) ? items.map((item) => coerceScalar(operator, item, resolved)) : value;
+      }
+      return coerceScalar(operator, value, resolved);
+  }
+}
+
+function coerceWhere(where: unknown, context: ConversionContext): unknown {
+  if (!isPlainObject(where)) {
+    return where;
+  }
+
+  return Object.fromEntries(Object.entries(where).map(([key, value]) => {
+    if ((key === 'and' || key === 'or') && Array.isArray(value)) {
+      return [key, value.map((condition) => coerceWhere(condition, context))];
+    }
+    if (!isPlainObject(value)) {
+      return [key, value];
+    }
+
+    const resolved = resolve(context, key);
+    return [key, Object.fromEntries(Object.entries(value).map(([operator, operand]) => [operator, coerceOperand(operator, operand, resolved)]))];
+  }));
+}
+
+/**
+ * Turn GraphQL sub-selections of relationships into `populate` of the related collection,
+ * as Local API and REST `select` only chooses the relationship field itself
+ */
+function liftPopulate(
+  select: Record<string, any>,
+  context: ConversionContext,
+  prefix: string,
+  populate: Record<string, any>
+): Record<string, any> {
+  return Object.fromEntries(Object.entries(select).map(([key, value]) => {
+    if (!isPlainObject(value)) {
+      return [key, value];
+    }
+
+    const path = joinPath(prefix, key);
+    const resolved = resolve(context, path);
+    if (resolved.kind === 'field' && RELATION_TYPES.includes(resolved.type) && typeof resolved.field.relationTo === 'string') {
+      const related = resolved.field.relationTo;
+      populate[related] = {
+        ...populate[related],
+        ...liftPopulate(value, { ...context, collection: related }, '', populate),
+      };
+      return [key, true];
+    }
+    return [key, liftPopulate(value, context, path, populate)];
+  }));
+}
+
+function printKey(key: string, syntax: 'js' | 'graphql'): string {
+  return syntax === 'graphql' || /^[A-Za-z_$][\w$]*$/.test(key) ? key : printInline(key, syntax);
+}
+
+function printInline(value: unknown, syntax: 'js' | 'graphql'): string {
+  if (value instanceof EnumValue) {
+    return value.name;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => printInline(item, syntax)).join(', ')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(([key, nested]) => `${printKey(key, syntax)}: ${printInline(nested, syntax)}`);
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  if (typeof value === 'string' && syntax === 'js') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Print a value as a JavaScript or GraphQL literal, splitting objects and arrays over
+ * several lines when they do not fit on one
+ */
+function printValue(value: unknown, syntax: 'js' | 'graphql', indent: string): string {
+  const inline = printInline(value, syntax);
+  if (indent.length + inline.length <= MAX_LINE_WIDTH || !(Array.isArray(value) || isPlainObject(value))) {
+    return inline;
+  }
+
+  const inner = `${indent}  `;
+  const separator = syntax === 'js' ? ',' : '';
+  const lines = Array.isArray(value)
+    ? value.map((item) => `${inner}${printValue(item, syntax, inner)}${separator}`)
+    : Object.entries(value).map(([key, nested]) => `${inner}${printKey(key, syntax)}: ${printValue(nested, syntax, inner)}${separator}`);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  return [open, ...lines, `${indent}${close}`].join('\n');
+}
+
+function toLocalCall(query: PortableQuery): string {
+  const options = Object.fromEntries(PORTABLE_PARAMS.filter((key) => query[key] !== undefined).map((key) => [key, query[key]]));
+  return `await payload.find(${printValue(options, 'js', '')})`;
+}
+
+function appendQueryParams(value: unknown, key: string, params: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => appendQueryParams(item, `${key}[${index}]`, params));
+  } else if (isPlainObject(value)) {
+    Object.entries(value).forEach(([nestedKey, nested]) => appendQueryParams(nested, `${key}[${encodeURIComponent(nestedKey)}]`, params));
+  } else if (value !== undefined) {
+    // Commas stay readable, e.g. in `sort=-createdAt,title`
+    params.push(`${key}=${encodeURIComponent(String(value)).replace(/%2C/g, ',')}`);
+  }
+}
+
+function toRestUrl(query: PortableQuery): string {
+  const params: string[] = [];
+  for (const key of PORTABLE_PARAMS) {
+    if (key !== 'collection') {
+      appendQueryParams(key === 'sort' && Array.isArray(query.sort) ? query.sort.join(',') : query[key], key, params);
+    }
+  }
+
+  return `/api/${encodeURIComponent(query.collection)}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+function toGraphQLWhere(where: unknown, context: ConversionContext): unknown {
+  if (!isPlainObject(where)) {
+    return where;
+  }
+
+  return Object.fromEntries(Object.entries(where).map(([key, value]) => {
+    if ((key === 'and' || key === 'or') && Array.isArray(value)) {
+      return [key.toUpperCase(), value.map((condition) => toGraphQLWhere(condition, context))];
+    }
+
+    const resolved = resolve(context, key);
+    const isEnum = resolved.kind === 'field' && ENUM_TYPES.includes(resolved.type);
+    const toEnum = (operand: unknown): unknown => (typeof operand === 'string'
+      ? new EnumValue(toEnumName(operand))
+      : Array.isArray(operand) ? operand.map(toEnum) : operand);
+
+    return [key.split('.').join('__'), isEnum && isPlainObject(value)
+      ? Object.fromEntries(Object.entries(value).map(([operator, operand]) => [operator, toEnum(operand)]))
+      : value];
+  }));
+}
+
+/**
+ * Selection of a single field: relationships select the populated fields of the related collection,
+ * fields holding other fields select all of them
+ */
+function selectField(
+  field: Record<string, any>,
+  context: ConversionContext,
+  populate: Record<string, any> | undefined
+): true | SelectionTree | undefined {
+  if (RELATION_TYPES.includes(field.type)) {
+    if (typeof field.relationTo !== 'string') {
+      context.warnings.push(`Select the documents of polymorphic relationship "${field.name}" with "... on" fragments`);
+      return { relationTo: true };
+    }
+    const related = populate?.[field.relationTo];
+    return isPlainObject(related)
+      ? { id: true, ...toSelectionTree(related, { ...context, collection: field.relationTo }, '', populate) }
+      : { id: true };
+  }
+
+  switch (field.type) {
+    case 'group':
+    case 'array':
+      return selectAllFields(field.fields, context, populate);
+    case 'blocks':
+      context.warnings.push(`Select the fields of blocks field "${field.name}" with "... on" fragments for each block`);
+      return { __typename: true };
+    case 'join':
+      return { docs: { id: true } };
+    case 'ui':
+      return undefined;
+    default:
+      return true;
+  }
+}
+
+function selectAllFields(fields: unknown, context: ConversionContext, populate: Record<string, any> | undefined): SelectionTree {
+  const tree: SelectionTree = {};
+  for (const field of getDataFields(fields).fields) {
+    const selection = selectField(field, context, populate);
+    if (selection) {
+      tree[field.name] = selection;
+    }
+  }
+  return tree;
+}
+
+function toSelectionTree(
+  select: Record<string, any>,
+  context: ConversionContext,
+  prefix: string,
+  populate: Record<string, any> | undefined
+): SelectionTree {
+  const tree: SelectionTree = {};
+  for (const [key, value] of Object.entries(select)) {
+    const path = joinPath(prefix, key);
+    if (isPlainObject(value)) {
+      tree[key] = toSelectionTree(value, context, path, populate);
+    } else if (value === true) {
+      const resolved = resolve(context, path);
+      const selection = resolved.kind === 'field' ? selectField(resolved.field, context, populate) : true;
+      if (selection) {
+        tree[key] = selection;
+      }
+    }
+  }
+  return tree;
+}
+
+function hasExcludedFields(select: Record<string, any>): boolean {
+  return Object.values(select).some((value) => value === false || (isPlainObject(value) && hasExcludedFields(value)));
+}
+
+function removeExcludedFields(tree: SelectionTree, select: Record<string, any>): SelectionTree {
+  return Object.fromEntries(Object.entries(tree).flatMap(([key, selection]): Array<[string, true | SelectionTree]> => {
+    if (select[key] === false) {
+      return [];
+    }
+    return [[key, isPlainObject(select[key]) && selection !== true ? removeExcludedFields(selection, select[key]) : selection]];
+  }));
+}
+
+/**
+ * Fields the GraphQL query selects from each document: the `select` of the query, or every field
+ * of the collection when the query has no `select`
+ */
+function getDocsSelection(query: PortableQuery, context: ConversionContext): SelectionTree {
+  const config = context.schema?.get(context.collection);
+  const allFields = () => selectAllFields(config!.fields, context, query.populate);
+
+  if (query.select && !hasExcludedFields(query.select)) {
+    return { id: true, ...toSelectionTree(query.select, context, '', query.populate) };
+  }
+  if (config && query.select) {
+    return { id: true, ...removeExcludedFields(allFields(), query.select) };
+  }
+  if (config) {
+    return { id: true, ...allFields() };
+  }
+
+  context.warnings.push(query.select
+    ? 'GraphQL cannot exclude fields; the GraphQL query selects only id, pass the collection to select every other field'
+    : 'The query has no select, so the GraphQL query selects only id; add the fields you need');
+  return { id: true };
+}
+
+function printSelection(tree: SelectionTree, indent: string): string[] {
+  return Object.entries(tree).flatMap(([name, selection]) => (selection === true
+    ? [`${indent}${name}`]
+    : [`${indent}${name} {`, ...printSelection(selection, `${indent}  `), `${indent}}`]));
+}
+
+function toGraphQLDocument(query: PortableQuery, context: ConversionContext): string {
+  const args: Record<string, unknown> = {
+    where: query.where && toGraphQLWhere(query.where, context),
+    sort: Array.isArray(query.sort) ? query.sort.join(',') : query.sort,
+    limit: query.limit,
+    page: query.page,
+  };
+  const printedArgs = Object.entries(args)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}: ${printValue(value, 'graphql', '    ')}`);
+
+  if (query.depth !== undefined) {
+    context.warnings.push('GraphQL has no depth argument; relationships are populated as far as the selection goes');
+  }
+  if (query.populate && !context.schema?.has(context.collection)) {
+    context.warnings.push('populate has no GraphQL argument; select the related fields inside the relationship fields instead');
+  }
+
+  const name = getCollectionGraphQLNames(context.collection, context.schema?.get(context.collection)).plural;
+  const inlineArgs = printedArgs.join(', ');
+  const call = printedArgs.length === 0
+    ? name
+    : inlineArgs.length + name.length + 4 <= MAX_LINE_WIDTH && !inlineArgs.includes('\n')
+      ? `${name}(${inlineArgs})`
+      : `${name}(\n${printedArgs.map((arg) => `    ${arg}`).join('\n')}\n  )`;
+  const pagination = query.limit !== undefined || query.page !== undefined ? ['page', 'totalPages', 'hasNextPage'] : [];
+
+  return [
+    'query {',
+    `  ${call} {`,
+    '    docs {',
+    ...printSelection(getDocsSelection(query, context), '      '),
+    '    }',
+    '    totalDocs',
+    ...pagination.map((field) => `    ${field}`),
+    '  }',
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Write a query as a Local API call, a REST URL and a GraphQL document
+ *
+ * @param query - Query with typed values
+ * @param schema - Collections used to expand GraphQL selections and print enums
+ * @param warnings - Receives the parts of the query that could not be carried over exactly
+ */
+export function writeQuery(
+  query: PortableQuery,
+  schema: QuerySchema | undefined,
+  warnings: string[]
+): Pick<ConversionResult, 'local' | 'rest' | 'graphql'> {
+  const context: ConversionContext = { collection: query.collection, schema, warnings };
+  return {
+    local: toLocalCall(query),
+    rest: toRestUrl(query),
+    graphql: toGraphQLDocument(query, context),
+  };
+}
+
+/**
+ * Convert a find query between the Local API, REST and GraphQL
+ *
+ * @param queryString - Query as a `payload.find({...})` call or its options, a REST URL or query string, or a GraphQL document
+ * @param options - API of the query, GraphQL variables and collections to type values against
+ * @returns The query in every API, with what could not be carried over
+ * @throws When the query cannot be parsed or does not name its collection
+ */
+export function convertQuery(queryString: string, options: ConvertQueryOptions = {}): ConversionResult {
+  // Find calls are always Local API queries, so their parse errors are thrown as they are
+  const from = options.from ?? (isFindCall(queryString) ? 'local' : validateQuery(queryString).apiType);
+  if (!from) {
+    // Queries that look like GraphQL are most likely GraphQL with a syntax error
+    const syntaxError = /^(query\b|\{)/.test(queryString.trim()) ? getGraphQLSyntaxError(queryString) : undefined;
+    throw new Error(`Could not tell which API the query is written for; pass from as local, rest or graphql${syntaxError ? `. As GraphQL: ${syntaxError}` : ''}`);
+  }
+
+  const loaded = options.schemaOptions ? loadQuerySchema(options.schemaOptions) : undefined;
+  const warnings: string[] = [];
+  const issues: QueryIssue[] = [];
+  const read = READERS[from]({ source: queryString, schema: loaded?.schema, variables: options.variables, warnings, issues });
+
+  const collection = loaded?.collection ?? read.collection;
+  if (typeof collection !== 'string' || collection === '') {
+    throw new Error('The query does not name its collection; pass the collection slug');
+  }
+  if (loaded && !loaded.schema.has(collection)) {
+    warnings.push(`Collection "${collection}" was not found, so values and selections are not typed`);
+  }
+
+  const context: ConversionContext = { collection, schema: loaded?.schema, warnings };
+  const query: PortableQuery = { ...read, collection };
+  if (query.where !== undefined) {
+    query.where = coerceWhere(query.where, context) as Record<string, any>;
+  }
+  if (from === 'graphql' && query.select) {
+    const populate: Record<string, any> = {};
+    query.select = liftPopulate(query.select, context, '', populate);
+    query.populate = Object.keys(populate).length > 0 ? populate : undefined;
+  }
+  if (from === 'rest' && query.where !== undefined && !context.schema?.has(collection)) {
+    warnings.push('Values compared with equals and similar operators stay strings; pass the collection so numbers and booleans are typed');
+  }
+
+  const whereOptions = { stringValues: from === 'rest', ...(context.schema?.has(collection) && { schema: context.schema, collection }) };
+  issues.push(
+    ...(query.where !== undefined ? validateWhere(query.where, whereOptions) : []),
+    ...(query.sort !== undefined ? validateSort(query.sort, whereOptions) : [])
+  );
+
+  return {
+    from,
+    query,
+    ...writeQuery(query, context.schema, warnings),
+    warnings,
+    issues,
+  };
+}
@@ -22,6 +22,7 @@ export function formatResponse(input: FormatResponseInput): QueryResult {
     apiType: input.apiType,
     suggestions,
     parsedQuery: input.parsedQuery,
+    issues: input.issues,
   };
 }
 
@@ -22,7 +22,7 @@ export async function getQuerySuggestions(
     try {
         const { queryType, apiType } = detectQueryTypeAndApi(queryString);
 
-        const suggestions = await getSuggestionsByQueryType(queryString, queryType, apiType, fileType);
+        const suggestions = await getSuggestionsByQueryType(queryType, apiType, fileType);
 
         if (fileType) {
             const fileTypeSuggestions = getFileTypeSpecificSuggestions(fileType);
@@ -157,8 +157,15 @@ function detectQueryTypeAndApi(queryString: string): {
     return { queryType: 'general' };
 }
 
-async function getSuggestionsByQueryType(
-    queryString: string,
+/**
+ * Get the suggestions for a known query type
+ * 
+ * @param queryType - The query type to get suggestions for
+ * @param apiType - Optional API type the query targets
+ * @param fileType - Optional file type context
+ * @returns Array of suggestions and best practices
+ */
+export async function getSuggestionsByQueryType(
     queryType: QueryType,
     apiType?: ApiType,
     fileType?: FileType
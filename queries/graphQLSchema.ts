@@ -0,0 +1,445 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  assertValidSchema,
+  buildSchema,
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  GraphQLUnionType,
+  Kind,
+  print,
+  type GraphQLEnumValueConfigMap,
+  type GraphQLFieldConfigArgumentMap,
+  type GraphQLFieldConfigMap,
+  type GraphQLInputFieldConfigMap,
+  type GraphQLInputType,
+  type GraphQLNamedType,
+  type GraphQLOutputType,
+} from 'graphql';
+import { getDataFields, getOptionValues, loadQuerySchema, type QuerySchema } from './querySchema.js';
+import { WHERE_OPERATORS } from './suggestions/whereQuerySuggestions.js';
+import type { QuerySchemaOptions } from './types.js';
+
+/** Payload's default `maxDepth` */
+export const DEFAULT_MAX_DEPTH = 10;
+
+/** Where the scaffolded config writes the schema, relative to the project root */
+const SCHEMA_FILE_PATHS = ['src/generated-schema.graphql', 'generated-schema.graphql'];
+/** Arguments Payload accepts on every collection and global query */
+const LOCALE_ARGUMENTS = ['draft', 'locale', 'fallbackLocale'];
+const PAGINATION_FIELDS = ['hasNextPage', 'hasPrevPage', 'limit', 'nextPage', 'offset', 'page', 'pagingCounter', 'prevPage', 'totalDocs', 'totalPages'];
+
+type ObjectFields = GraphQLFieldConfigMap<unknown, unknown>;
+
+/**
+ * Scalar written as a string literal, such as a date or an email address
+ */
+function createStringScalar(name: string): GraphQLScalarType {
+  return new GraphQLScalarType({
+    name,
+    parseValue: (value) => value,
+    parseLiteral(value) {
+      if (value.kind !== Kind.STRING) {
+        throw new TypeError(`${name} cannot represent a non-string value: ${print(value)}`);
+      }
+      return value.value;
+    },
+  });
+}
+
+/** Scalars Payload adds to every schema */
+const GraphQLJSON = new GraphQLScalarType({ name: 'JSON' });
+const GraphQLDateTime = createStringScalar('DateTime');
+const GraphQLEmailAddress = createStringScalar('EmailAddress');
+
+export function toPascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Name Payload gives a select option in GraphQL enums, e.g. `in_review` for `in-review`
+ */
+export function toEnumName(value: string): string {
+  const name = value.replace(/ /g, '').replace(/[^_0-9A-Za-z]/g, '_');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function toEnumValues(values: string[]): GraphQLEnumValueConfigMap {
+  return Object.fromEntries(values.map((value) => [toEnumName(value), { value }]));
+}
+
+function singularize(word: string): string {
+  if (/ies$/.test(word)) {
+    return word.replace(/ies$/, 'y');
+  }
+  if (/(s|x|z|ch|sh)es$/.test(word)) {
+    return word.replace(/es$/, '');
+  }
+  return /[^s]s$/.test(word) ? word.slice(0, -1) : word;
+}
+
+/**
+ * Names Payload gives the GraphQL type of a collection and its queries: `Post` for the type
+ * and the single-document query, `Posts` for the find query
+ */
+export function getCollectionGraphQLNames(slug: string, config?: Record<string, any>): { singular: string; plural: string } {
+  const labels = config?.labels ?? {};
+  const singular = typeof config?.graphQL?.singularName === 'string'
+    ? config.graphQL.singularName
+    : toPascalCase(typeof labels.singular === 'string' ? labels.singular : singularize(slug));
+  const plural = typeof config?.graphQL?.pluralName === 'string'
+    ? config.graphQL.pluralName
+    : toPascalCase(typeof labels.plural === 'string' ? labels.plural : slug);
+
+  return { singular, plural: plural === singular ? `all${singular}` : plural };
+}
+
+/**
+ * Whether a schema was derived from the collections and globals rather than read from a schema file.
+ * A derived schema only has the queries Payload generates.
+ */
+export function isDerivedSchema(schema: GraphQLSchema): boolean {
+  return schema.extensions.source === 'collections';
+}
+
+/**
+ * Type of the value an operator compares with
+ */
+function getOperatorValueType(operator: string, valueType: GraphQLInputType): GraphQLInputType {
+  switch (operator) {
+    case 'in':
+    case 'not_in':
+    case 'all':
+      return new GraphQLList(valueType);
+    case 'exists':
+      return GraphQLBoolean;
+    case 'near':
+      return new GraphQLList(GraphQLFloat);
+    case 'within':
+    case 'intersects':
+      return GraphQLJSON;
+    case 'like':
+    case 'contains':
+      return GraphQLString;
+    default:
+      return valueType;
+  }
+}
+
+/**
+ * Builds the schema Payload generates for a project's collections and globals
+ */
+function createSchemaBuilder(collections: QuerySchema) {
+  const types = new Map<string, GraphQLNamedType>();
+  const queryFields: ObjectFields = {};
+  const collectionFields = new Map<string, ObjectFields>();
+
+  /**
+   * Add a type to the schema; when a type of that name exists, it is kept and returned instead
+   */
+  const define = <T extends GraphQLNamedType>(type: T): T => {
+    if (!types.has(type.name)) {
+      types.set(type.name, type);
+    }
+    return types.get(type.name) as T;
+  };
+
+  // Collection types are created up front so relationships can point to collections added later
+  const collectionTypes = new Map<string, GraphQLObjectType>();
+  collections.forEach((config, slug) => {
+    if (config.graphQL !== false) {
+      const { singular } = getCollectionGraphQLNames(slug, config);
+      collectionTypes.set(slug, define(new GraphQLObjectType({ name: singular, fields: () => collectionFields.get(slug) ?? {} })));
+    }
+  });
+
+  const addWhereField = (where: GraphQLInputFieldConfigMap, typeName: string, wherePath: string, fieldType: string, valueType: GraphQLInputType) => {
+    const operatorType = define(new GraphQLInputObjectType({
+      name: `${typeName}_${wherePath}_operator`,
+      fields: Object.fromEntries(WHERE_OPERATORS
+        .filter((operator) => operator.fieldTypes.includes('*') || operator.fieldTypes.includes(fieldType))
+        .map((operator) => [operator.name, { type: getOperatorValueType(operator.name, valueType) }])),
+    }));
+    where[wherePath] = { type: operatorType };
+  };
+
+  const getRelationshipType = (config: Record<string, any>, typeName: string): GraphQLOutputType => {
+    if (!Array.isArray(config.relationTo)) {
+      return (typeof config.relationTo === 'string' ? collectionTypes.get(config.relationTo) : undefined) ?? GraphQLJSON;
+    }
+
+    const slugs: string[] = config.relationTo.filter((slug: unknown) => typeof slug === 'string');
+    const relatedTypes = slugs
+      .map((slug) => collectionTypes.get(slug))
+      .filter((type): type is GraphQLObjectType => type !== undefined);
+    const relationTo = define(new GraphQLEnumType({ name: `${typeName}_RelationTo`, values: toEnumValues(slugs) }));
+    const value = relatedTypes.length > 0
+      ? define(new GraphQLUnionType({ name: `${typeName}_Value`, types: relatedTypes }))
+      : GraphQLJSON;
+    return define(new GraphQLObjectType({
+      name: `${typeName}_Relationship`,
+      fields: { relationTo: { type: relationTo }, value: { type: value } },
+    }));
+  };
+
+  /**
+   * Output fields of a fields array, adding nested types and the `where` inputs of every leaf field
+   */
+  const addFields = (
+    typeName: string,
+    fields: unknown,
+    where: { typeName: string; fields: GraphQLInputFieldConfigMap; prefix: string }
+  ): ObjectFields => Object.assign({}, ...getDataFields(fields).fields.map((config): ObjectFields => {
+    const name: string = config.name;
+    const childType = `${typeName}_${toPascalCase(name)}`;
+    const wherePath = `${where.prefix}${name}`;
+    const nestedWhere = { ...where, prefix: `${wherePath}__` };
+    const leaf = (type: GraphQLOutputType, whereType: GraphQLInputType): ObjectFields => {
+      addWhereField(where.fields, where.typeName, wherePath, config.type, whereType);
+      return {
+        [name]: {
+          type: config.hasMany ? new GraphQLList(type) : type,
+          args: config.type === 'richText' ? { depth: { type: GraphQLInt } } : undefined,
+        },
+      };
+    };
+    const scalar = (type: GraphQLScalarType | GraphQLEnumType | GraphQLList<GraphQLScalarType>) => leaf(type, type);
+
+    switch (config.type) {
+      case 'text':
+      case 'textarea':
+      case 'code':
+        return scalar(GraphQLString);
+      case 'email':
+        return scalar(GraphQLEmailAddress);
+      case 'number':
+        return scalar(GraphQLFloat);
+      case 'checkbox':
+        return scalar(GraphQLBoolean);
+      case 'date':
+        return scalar(GraphQLDateTime);
+      case 'point':
+        return scalar(new GraphQLList(GraphQLFloat));
+      case 'select':
+      case 'radio': {
+        const values = getOptionValues(config);
+        return scalar(values ? define(new GraphQLEnumType({ name: childType, values: toEnumValues(values) })) : GraphQLString);
+      }
+      case 'relationship':
+      case 'upload':
+        return leaf(getRelationshipType(config, childType), GraphQLJSON);
+      case 'group':
+        return { [name]: { type: define(new GraphQLObjectType({ name: childType, fields: addFields(childType, config.fields, nestedWhere) })) } };
+      case 'array': {
+        const rowType = define(new GraphQLObjectType({
+          name: childType,
+          fields: { id: { type: GraphQLString }, ...addFields(childType, config.fields, nestedWhere) },
+        }));
+        return { [name]: { type: new GraphQLList(rowType) } };
+      }
+      case 'blocks': {
+        const blocks = Array.isArray(config.blocks) ? config.blocks.filter((block: any) => typeof block?.slug === 'string') : [];
+        if (blocks.length === 0) {
+          return { [name]: { type: new GraphQLList(GraphQLJSON) } };
+        }
+        const blockTypes = blocks.map((block: Record<string, any>) => {
+          const blockType = typeof block.interfaceName === 'string' ? block.interfaceName : toPascalCase(block.slug);
+          return define(new GraphQLObjectType({
+            name: blockType,
+            fields: {
+              id: { type: GraphQLString },
+              blockName: { type: GraphQLString },
+              blockType: { type: GraphQLString },
+              ...addFields(blockType, block.fields, nestedWhere),
+            },
+          }));
+        });
+        return { [name]: { type: new GraphQLList(define(new GraphQLUnionType({ name: childType, types: blockTypes }))) } };
+      }
+      case 'join': {
+        const related = typeof config.collection === 'string' ? collectionTypes.get(config.collection) : undefined;
+        const joinType = define(new GraphQLObjectType({
+          name: childType,
+          fields: {
+            docs: { type: new GraphQLList(related ?? GraphQLJSON) },
+            hasNextPage: { type: GraphQLBoolean },
+            totalDocs: { type: GraphQLInt },
+          },
+        }));
+        return {
+          [name]: {
+            type: joinType,
+            args: { limit: { type: GraphQLInt }, page: { type: GraphQLInt }, sort: { type: GraphQLString }, where: { type: GraphQLJSON } },
+          },
+        };
+      }
+      case 'ui':
+        return {};
+      default:
+        return leaf(GraphQLJSON, GraphQLJSON);
+    }
+  }));
+
+  const localeArguments: GraphQLFieldConfigArgumentMap = Object.fromEntries(
+    LOCALE_ARGUMENTS.map((name) => [name, { type: name === 'draft' ? GraphQLBoolean : GraphQLJSON }])
+  );
+
+  return {
+    addCollection(slug: string, config: Record<string, any>) {
+      const type = collectionTypes.get(slug);
+      if (!type) {
+        return;
+      }
+
+      const { singular, plural } = getCollectionGraphQLNames(slug, config);
+      const where = { typeName: singular, fields: {} as GraphQLInputFieldConfigMap, prefix: '' };
+      const builtIns: Record<string, any>[] = [{ name: 'id', type: 'id' }];
+      if (config.timestamps !== false) {
+        builtIns.push({ name: 'createdAt', type: 'date' }, { name: 'updatedAt', type: 'date' });
+      }
+      if (config.auth) {
+        builtIns.push({ name: 'email', type: 'email' });
+      }
+      if (config.versions?.drafts) {
+        builtIns.push({ name: '_status', type: 'select', options: ['draft', 'published'] });
+      }
+
+      collectionFields.set(slug, {
+        id: { type: GraphQLID },
+        ...addFields(singular, builtIns.filter((builtIn) => builtIn.type !== 'id'), where),
+        ...addFields(singular, config.fields, where),
+      });
+      addWhereField(where.fields, singular, 'id', 'id', GraphQLJSON);
+
+      const whereType: GraphQLInputObjectType = define(new GraphQLInputObjectType({
+        name: `${singular}_where`,
+        fields: () => ({ ...where.fields, AND: { type: new GraphQLList(whereType) }, OR: { type: new GraphQLList(whereType) } }),
+      }));
+      const pageType = define(new GraphQLObjectType({
+        name: plural,
+        fields: {
+          docs: { type: new GraphQLList(type) },
+          ...Object.fromEntries(PAGINATION_FIELDS.map((name) => [name, { type: name.startsWith('has') ? GraphQLBoolean : GraphQLInt }])),
+        },
+      }));
+      const countType = define(new GraphQLObjectType({ name: `count${plural}`, fields: { totalDocs: { type: GraphQLInt } } }));
+
+      Object.assign(queryFields, {
+        [singular]: { type, args: { id: { type: new GraphQLNonNull(GraphQLJSON) }, ...localeArguments } },
+        [plural]: {
+          type: pageType,
+          args: {
+            where: { type: whereType },
+            sort: { type: GraphQLString },
+            limit: { type: GraphQLInt },
+            page: { type: GraphQLInt },
+            pagination: { type: GraphQLBoolean },
+            ...localeArguments,
+          },
+        },
+        [`count${plural}`]: { type: countType, args: { where: { type: whereType }, ...localeArguments } },
+      });
+
+      if (config.auth) {
+        const meType = define(new GraphQLObjectType({
+          name: `${singular}Me`,
+          fields: {
+            user: { type },
+            token: { type: GraphQLString },
+            exp: { type: GraphQLInt },
+            collection: { type: GraphQLString },
+            strategy: { type: GraphQLString },
+          },
+        }));
+        Object.assign(queryFields, { [`me${singular}`]: { type: meType }, [`initialized${singular}`]: { type: GraphQLBoolean } });
+      }
+    },
+
+    addGlobal(slug: string, config: Record<string, any>) {
+      if (config.graphQL === false) {
+        return;
+      }
+
+      const name = typeof config.graphQL?.name === 'string' ? config.graphQL.name : toPascalCase(slug);
+      const fields = addFields(name, config.fields, { typeName: name, fields: {}, prefix: '' });
+      queryFields[name] = { type: define(new GraphQLObjectType({ name, fields })), args: localeArguments };
+    },
+
+    build(): GraphQLSchema {
+      return new GraphQLSchema({
+        query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+        types: [...types.values()],
+        extensions: { source: 'collections' },
+        // Payload keeps types GraphQL would reject, such as groups without fields, so the schema is not checked
+        assumeValid: true,
+      });
+    },
+  };
+}
+
+/**
+ * Build the schema Payload generates for a set of collections and globals. Only queries are
+ * derived; mutations and subscriptions are left out.
+ *
+ * @param collections - Collection configs keyed by slug
+ * @param globals - Global configs keyed by slug
+ */
+export function deriveGraphQLSchema(collections: QuerySchema, globals: QuerySchema = new Map()): GraphQLSchema {
+  const builder = createSchemaBuilder(collections);
+  collections.forEach((config, slug) => builder.addCollection(slug, config));
+  globals.forEach((config, slug) => builder.addGlobal(slug, config));
+  return builder.build();
+}
+
+/**
+ * Build a schema from a schema definition, such as Payload's `generated-schema.graphql`
+ *
+ * @throws {GraphQLError} When the definition is not valid GraphQL or describes an invalid schema
+ */
+export function buildGraphQLSchema(source: string): GraphQLSchema {
+  const schema = new GraphQLSchema({ ...buildSchema(source).toConfig(), extensions: { source: 'file' } });
+  assertValidSchema(schema);
+  return schema;
+}
+
+/**
+ * Load the schema GraphQL queries are checked against: the schema file when given or found in the
+ * project, otherwise a schema derived from the project's collections and globals. An inline
+ * `collectionConfig` is only part of the derived schema, so it skips the project's schema file.
+ *
+ * @param options - Project root, collection config and schema file; paths must already be resolved
+ * @returns The schema and the project's configured `maxDepth`
+ */
+export function loadGraphQLSchema(options: QuerySchemaOptions): { schema: GraphQLSchema; maxDepth?: number } {
+  const { schema: collections, globals, maxDepth } = loadQuerySchema(options);
+  const schemaFile = options.schemaFile ?? (options.projectRoot && !options.collectionConfig
+    ? SCHEMA_FILE_PATHS.map((file) => path.join(options.projectRoot!, file)).find((file) => fs.existsSync(file))
+    : undefined);
+
+  if (!schemaFile) {
+    return { schema: deriveGraphQLSchema(collections, globals), maxDepth };
+  }
+  if (!fs.existsSync(schemaFile)) {
+    throw new Error(`GraphQL schema file does not exist: ${schemaFile}`);
+  }
+
+  try {
+    return { schema: buildGraphQLSchema(fs.readFileSync(schemaFile, 'utf8')), maxDepth };
+  } catch (error) {
+    throw new Error(`Failed to parse GraphQL schema ${schemaFile}: ${(error as Error).message}`);
+  }
+}
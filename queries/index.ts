@@ -1,18 +1,71 @@
 import { validateQuery } from './validateQuery.js';
 import { getQuerySuggestions } from './getQuerySuggestions.js';
 import { formatResponse } from './formatResponse.js';
-import type { QueryResult, FileType } from './types.js';
+import { loadQuerySchema } from './querySchema.js';
+import { DEFAULT_MAX_DEPTH, loadGraphQLSchema } from './graphQLSchema.js';
+import { parseGraphQL } from './parseGraphQL.js';
+import { validateGraphQL } from './validateGraphQL.js';
+import { validateSort, validateWhere, type WhereValidationOptions } from './validateWhere.js';
+import type { QueryResult, FileType, QueryIssue, QuerySchemaOptions, ApiType } from './types.js';
+
+/**
+ * Check the `where` and `sort` of a parsed query: their structure always, and with schema options
+ * the fields, operators and values against the queried collection. GraphQL documents are checked
+ * against the project's GraphQL schema instead.
+ */
+function validateParsedQuery(
+    queryString: string,
+    parsedQuery: any,
+    apiType: ApiType | undefined,
+    schemaOptions?: QuerySchemaOptions,
+    maxDepth?: number
+): QueryIssue[] {
+    if (typeof parsedQuery !== 'object' || parsedQuery === null) {
+        return [];
+    }
+
+    if (apiType === 'graphql') {
+        const loaded = schemaOptions ? loadGraphQLSchema(schemaOptions) : undefined;
+        return validateGraphQL(parseGraphQL(queryString), {
+            schema: loaded?.schema,
+            maxDepth: maxDepth ?? loaded?.maxDepth ?? DEFAULT_MAX_DEPTH,
+        });
+    }
+
+    const whereOptions: WhereValidationOptions = { stringValues: apiType === 'rest' };
+    if (schemaOptions) {
+        const { schema, collection: configuredCollection } = loadQuerySchema(schemaOptions);
+        const collection = configuredCollection ?? (typeof parsedQuery.collection === 'string' ? parsedQuery.collection : undefined);
+
+        if (!collection) {
+            throw new Error('Pass a collection slug or a collectionConfig to check the query against a collection');
+        }
+        if (!schema.has(collection)) {
+            throw new Error(`Collection "${collection}" was not found${schemaOptions.projectRoot ? ` in ${schemaOptions.projectRoot}` : ''}`);
+        }
+        Object.assign(whereOptions, { schema, collection });
+    }
+
+    return [
+        ...(parsedQuery.where !== undefined ? validateWhere(parsedQuery.where, whereOptions) : []),
+        ...(parsedQuery.sort !== undefined ? validateSort(parsedQuery.sort, whereOptions) : []),
+    ];
+}
 
 /**
  * Process a Payload CMS query string and return validation rules and best practices
  * 
  * @param queryString - The query string to validate and provide suggestions for
  * @param fileType - Optional type of file context: "collection", "field", "global", or "config"
+ * @param schemaOptions - Collection to check field names, operators and values against
+ * @param maxDepth - Deepest nesting allowed in GraphQL queries; defaults to the project's `maxDepth`
  * @returns Structured response with validation results and recommendations
  */
 export async function processQuery(
     queryString: string,
-    fileType?: FileType
+    fileType?: FileType,
+    schemaOptions?: QuerySchemaOptions,
+    maxDepth?: number
 ): Promise<QueryResult> {
     try {
         const validationResult = validateQuery(queryString, fileType);
@@ -25,13 +78,22 @@ export async function processQuery(
             });
         }
 
+        const issues = [
+            ...(validationResult.issues ?? []),
+            ...validateParsedQuery(queryString, validationResult.parsedQuery, validationResult.apiType, schemaOptions, maxDepth),
+        ];
+        const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
         const suggestions = await getQuerySuggestions(queryString, fileType);
 
         return formatResponse({
-            success: true,
+            success: errorCount === 0,
+            error: errorCount > 0 ? `Query has ${errorCount} error${errorCount === 1 ? '' : 's'}, see issues` : undefined,
             queryType: validationResult.queryType,
             apiType: validationResult.apiType,
             suggestions,
+            parsedQuery: validationResult.parsedQuery,
+            issues,
         });
     } catch (error) {
         return formatResponse({
@@ -42,4 +104,20 @@ export async function processQuery(
     }
 }
 
-export * from './types.js'; 
\ No newline at end of file
+export { validateWhere, validateSort } from './validateWhere.js';
+export { parseQueryString, parseRestQuery, type RestQuery } from './parseRestQuery.js';
+export { isFindCall, parseLocalQuery } from './parseLocalQuery.js';
+export * from './parseGraphQL.js';
+export { validateGraphQL, type GraphQLValidationOptions } from './validateGraphQL.js';
+export {
+    buildGraphQLSchema,
+    DEFAULT_MAX_DEPTH,
+    deriveGraphQLSchema,
+    isDerivedSchema,
+    loadGraphQLSchema,
+} from './graphQLSchema.js';
+export { convertQuery } from './convertQuery.js';
+export { buildQuery } from './buildQuery.js';
+export { WHERE_OPERATORS, type WhereOperator } from './suggestions/whereQuerySuggestions.js';
+export { loadQuerySchema, resolveFieldPath, type QuerySchema, type ResolvedField } from './querySchema.js';
+export * from './types.js';
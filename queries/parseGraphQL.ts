@@ -0,0 +1,130 @@
+import {
+  getLocation,
+  GraphQLError,
+  isExecutableDefinitionNode,
+  Kind,
+  parse,
+  valueFromASTUntyped,
+  visit,
+  type ASTNode,
+  type DocumentNode,
+  type ExecutableDefinitionNode,
+  type ValueNode,
+} from 'graphql';
+import type { GraphQLQuerySummary } from './types.js';
+
+/**
+ * A GraphQL document of operations and fragments
+ */
+export interface GraphQLDocument extends DocumentNode {
+  readonly definitions: ReadonlyArray<ExecutableDefinitionNode>;
+}
+
+/**
+ * Error at a node of a document, with its line and column appended to the message
+ */
+function createError(message: string, node: ASTNode): GraphQLError {
+  const location = node.loc && getLocation(node.loc.source, node.loc.start);
+  return new GraphQLError(location ? `${message} (${location.line}:${location.column})` : message, { nodes: node });
+}
+
+/**
+ * Parse a GraphQL query document: operations with variables, arguments, directives,
+ * aliases, fragments and nested selections
+ *
+ * @param source - GraphQL document
+ * @returns The operations and fragments of the document
+ * @throws {GraphQLError} When the document is not valid GraphQL syntax or defines types instead of queries
+ */
+export function parseGraphQL(source: string): GraphQLDocument {
+  let document: DocumentNode;
+  try {
+    document = parse(source);
+  } catch (error) {
+    const { message, locations, source: errorSource, positions } = error as GraphQLError;
+    if (!locations?.length) {
+      throw error;
+    }
+    throw new GraphQLError(`${message} (${locations[0].line}:${locations[0].column})`, { source: errorSource, positions });
+  }
+
+  const definition = document.definitions.find((candidate) => !isExecutableDefinitionNode(candidate));
+  if (definition) {
+    throw createError(`Expected a query or fragment, found ${definition.kind}`, definition);
+  }
+  return document as GraphQLDocument;
+}
+
+/**
+ * Whether a string parses as a GraphQL document
+ */
+export function isGraphQLDocument(source: string): boolean {
+  try {
+    parseGraphQL(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a GraphQL value to plain JavaScript; enum values become strings
+ *
+ * @param value - Parsed value
+ * @param variables - Values of the operation's variables
+ * @throws When a variable has no value
+ */
+export function graphQLValueToJS(value: ValueNode, variables: Record<string, unknown> = {}): unknown {
+  visit(value, {
+    Variable(node) {
+      if (!(node.name.value in variables)) {
+        throw createError(`Variable "$${node.name.value}" has no value`, node);
+      }
+    },
+  });
+  return valueFromASTUntyped(value, variables);
+}
+
+function summarizeValue(value: ValueNode): unknown {
+  switch (value.kind) {
+    case Kind.VARIABLE:
+      return `$${value.name.value}`;
+    case Kind.LIST:
+      return value.values.map(summarizeValue);
+    case Kind.OBJECT:
+      return Object.fromEntries(value.fields.map((field) => [field.name.value, summarizeValue(field.value)]));
+    default:
+      return valueFromASTUntyped(value);
+  }
+}
+
+/**
+ * Summarize a parsed document as its operations, their root fields and arguments, and its fragment names
+ *
+ * @param document - Parsed GraphQL document
+ * @returns The summary, without the positions and tokens of the syntax tree
+ */
+export function summarizeGraphQL(document: GraphQLDocument): GraphQLQuerySummary {
+  const summary: GraphQLQuerySummary = { operations: [], fragments: [] };
+
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      summary.fragments.push(definition.name.value);
+      continue;
+    }
+
+    summary.operations.push({
+      operation: definition.operation,
+      ...(definition.name && { name: definition.name.value }),
+      fields: definition.selectionSet.selections.flatMap((selection) => (selection.kind === Kind.FIELD
+        ? [{
+          name: selection.name.value,
+          ...(selection.alias && { alias: selection.alias.value }),
+          arguments: Object.fromEntries((selection.arguments ?? []).map((arg) => [arg.name.value, summarizeValue(arg.value)])),
+        }]
+        : [])),
+    });
+  }
+
+  return summary;
+}
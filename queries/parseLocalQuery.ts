@@ -0,0 +1,43 @@
+import { isOpaqueNode, parseSource } from '../validator/index.js';
+
+/** The start of a Local API call, e.g. `const result = await payload.find(` */
+const FIND_CALL = /^(?:(?:const|let|var)\s+[\w${}\s,:]+=\s*)?(?:await\s+)?[\w$.]+\.find\s*\(/;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether the source is a `payload.find({...})` call
+ */
+export function isFindCall(source: string): boolean {
+  return FIND_CALL.test(source.trim());
+}
+
+/**
+ * Read the options of a Local API query from JSON, an object literal or a `payload.find({...})` call.
+ * Values that are not literals, such as variables, are left as opaque nodes.
+ *
+ * @param source - The query source
+ * @returns The find options
+ * @throws When the source holds no object of find options
+ */
+export function parseLocalQuery(source: string): Record<string, any> {
+  const trimmed = source.trim();
+  try {
+    const value = JSON.parse(trimmed);
+    if (isPlainObject(value)) {
+      return value;
+    }
+  } catch {
+  }
+
+  const call = FIND_CALL.exec(trimmed);
+  const code = call ? trimmed.slice(call[0].length).replace(/\)\s*;?$/, '') : trimmed;
+  const { value } = parseSource(code);
+  if (!isPlainObject(value) || isOpaqueNode(value)) {
+    throw new Error('A Local API query must be an object of find options, e.g. { collection: \'posts\', where: { ... } }');
+  }
+
+  return value;
+}
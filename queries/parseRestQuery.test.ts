@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { parseQueryString, parseRestQuery } from './parseRestQuery.js';
+
+describe('parseQueryString', () => {
+  test('nests bracket keys and turns indexed objects into arrays', () => {
+    expect(parseQueryString('?where[or][0][title][equals]=Hello%20world&where[or][1][views][greater_than]=10')).toEqual({
+      where: { or: [{ title: { equals: 'Hello world' } }, { views: { greater_than: '10' } }] },
+    });
+  });
+
+  test('collects repeated keys and appends empty brackets', () => {
+    expect(parseQueryString('sort=title&sort=-createdAt&where[tags][in][]=a&where[tags][in][]=b')).toEqual({
+      sort: ['title', '-createdAt'],
+      where: { tags: { in: ['a', 'b'] } },
+    });
+  });
+
+  test('drops prototype keys', () => {
+    const params = parseQueryString('__proto__[polluted]=yes&where[constructor][prototype][x]=1');
+
+    expect(params).toEqual({});
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('parseRestQuery', () => {
+  test('reads the collection from the URL and converts numeric, boolean and projection params', () => {
+    const { query, issues } = parseRestQuery('/api/posts?where[title][equals]=Hello&limit=10&draft=true&select[meta][title]=true');
+
+    expect(issues).toEqual([]);
+    expect(query).toEqual({
+      collection: 'posts',
+      where: { title: { equals: 'Hello' } },
+      limit: 10,
+      draft: true,
+      select: { meta: { title: true } },
+    });
+  });
+
+  test('reports params Payload would reject', () => {
+    const { issues } = parseRestQuery('limit=-1&page=two&draft=yes&select=title&where=title');
+
+    expect(issues.map((issue) => issue.path)).toEqual(['limit', 'page', 'draft', 'select', 'where']);
+    expect(issues[0].message).toBe('limit must be a non-negative integer');
+  });
+});
@@ -0,0 +1,209 @@
+import type { QueryIssue } from './types.js';
+
+/** Same limits Payload passes to `qs` when it parses REST requests */
+const MAX_DEPTH = 10;
+const ARRAY_LIMIT = 1000;
+
+const NUMERIC_PARAMS = ['limit', 'page', 'depth'];
+const BOOLEAN_PARAMS = ['draft', 'pagination', 'trash'];
+const PROJECTION_PARAMS = ['select', 'populate', 'joins'];
+
+/**
+ * Query of a REST request, with `where`, `select` and `populate` as nested objects and
+ * numeric and boolean params converted from strings. `where` values stay strings, as Payload
+ * only converts them once it knows the field types.
+ */
+export interface RestQuery {
+  /** Collection slug, when the query was given as an `/api/<slug>` URL */
+  collection?: string;
+  where?: Record<string, any>;
+  sort?: string | string[];
+  limit?: number;
+  page?: number;
+  depth?: number;
+  select?: Record<string, any>;
+  populate?: Record<string, any>;
+  [param: string]: unknown;
+}
+
+type ParsedNode = Record<string, any>;
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text.replace(/\+/g, ' '));
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Split `where[or][0][title][equals]` into `['where', 'or', '0', 'title', 'equals']`.
+ * Brackets past the depth limit are kept as a single literal segment, as `qs` does.
+ */
+function splitKey(key: string): string[] {
+  const open = key.indexOf('[');
+  if (open <= 0) {
+    return [key];
+  }
+
+  const segments = [key.slice(0, open)];
+  const bracket = /\[([^[\]]*)\]/g;
+  bracket.lastIndex = open;
+  let end = open;
+  let match: RegExpExecArray | null;
+  while (segments.length <= MAX_DEPTH && (match = bracket.exec(key)) && match.index === end) {
+    segments.push(match[1]);
+    end = bracket.lastIndex;
+  }
+
+  return end < key.length ? [...segments, key.slice(end)] : segments;
+}
+
+function getNextIndex(node: ParsedNode): string {
+  const indexes = Object.keys(node).filter((key) => /^\d+$/.test(key)).map(Number);
+  return String(indexes.length === 0 ? 0 : Math.max(...indexes) + 1);
+}
+
+function assign(root: ParsedNode, segments: string[], value: string): void {
+  // Keys like `__proto__` are dropped, as `qs` does by default
+  if (segments.some((segment) => segment in Object.prototype)) {
+    return;
+  }
+
+  let node = root;
+  segments.forEach((segment, index) => {
+    const key = segment === '' ? getNextIndex(node) : segment;
+    if (index === segments.length - 1) {
+      // Repeated keys collect their values, e.g. `sort=a&sort=b`
+      node[key] = key in node ? [...[node[key]].flat(), value] : value;
+      return;
+    }
+
+    if (typeof node[key] !== 'object' || node[key] === null || Array.isArray(node[key])) {
+      node[key] = {};
+    }
+    node = node[key];
+  });
+}
+
+/**
+ * Turn objects keyed by array indexes into arrays, dropping gaps like `qs` does
+ */
+function toArrays(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toArrays);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length > 0 && keys.every((key) => /^\d+$/.test(key) && Number(key) <= ARRAY_LIMIT)) {
+    return keys
+      .sort((a, b) => Number(a) - Number(b))
+      .map((key) => toArrays((value as ParsedNode)[key]));
+  }
+
+  return Object.fromEntries(keys.map((key) => [key, toArrays((value as ParsedNode)[key])]));
+}
+
+/**
+ * Parse a query string the way `qs` does with Payload's options, e.g.
+ * `where[or][0][title][equals]=Hello` becomes `{ where: { or: [{ title: { equals: 'Hello' } }] } }`
+ *
+ * @param queryString - Query string, with or without the leading `?`, or a whole URL
+ * @returns The nested params
+ */
+export function parseQueryString(queryString: string): Record<string, any> {
+  const query = queryString.includes('?') ? queryString.slice(queryString.indexOf('?') + 1) : queryString;
+  const root: ParsedNode = {};
+
+  for (const part of query.split('#')[0].split('&')) {
+    if (!part) {
+      continue;
+    }
+
+    const separator = part.indexOf('=');
+    const key = decode(separator === -1 ? part : part.slice(0, separator));
+    const value = separator === -1 ? '' : decode(part.slice(separator + 1));
+    assign(root, splitKey(key), value);
+  }
+
+  return toArrays(root) as Record<string, any>;
+}
+
+function toBooleans(value: unknown): unknown {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toBooleans);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, toBooleans(nested)]));
+  }
+
+  return value;
+}
+
+/**
+ * Parse a REST query string into the params Payload reads from it, reporting params that
+ * Payload would reject or ignore
+ *
+ * @param queryString - Query string or URL, e.g. `/api/posts?where[title][equals]=Hello&limit=10`
+ * @returns The normalized query and any problems with its params
+ */
+export function parseRestQuery(queryString: string): { query: RestQuery; issues: QueryIssue[] } {
+  const params = parseQueryString(queryString);
+  const issues: QueryIssue[] = [];
+  const query: RestQuery = { ...params };
+
+  const collection = queryString.split('?')[0].match(/\/api\/([^/?#]+)\/?$/)?.[1];
+  if (collection) {
+    query.collection = decode(collection);
+  }
+
+  for (const param of NUMERIC_PARAMS) {
+    if (params[param] === undefined) {
+      continue;
+    }
+    const value = Number(params[param]);
+    if (typeof params[param] !== 'string' || params[param].trim() === '' || !Number.isInteger(value) || value < 0) {
+      issues.push({ severity: 'error', message: `${param} must be a non-negative integer`, path: param });
+    } else {
+      query[param] = value;
+    }
+  }
+
+  for (const param of BOOLEAN_PARAMS) {
+    if (params[param] === undefined) {
+      continue;
+    }
+    if (params[param] === 'true' || params[param] === 'false') {
+      query[param] = params[param] === 'true';
+    } else {
+      issues.push({ severity: 'error', message: `${param} must be true or false`, path: param });
+    }
+  }
+
+  for (const param of PROJECTION_PARAMS) {
+    if (params[param] === undefined) {
+      continue;
+    }
+    if (typeof params[param] === 'object' && !Array.isArray(params[param])) {
+      query[param] = toBooleans(params[param]);
+    } else {
+      issues.push({ severity: 'error', message: `${param} must use bracket syntax, e.g. ${param}[title]=true`, path: param });
+    }
+  }
+
+  if (params.where !== undefined && (typeof params.where !== 'object' || Array.isArray(params.where))) {
+    issues.push({
+      severity: 'error',
+      message: 'where must use bracket syntax, e.g. where[title][equals]=Hello',
+      path: 'where',
+    });
+  }
+
+  return { query, issues };
+}
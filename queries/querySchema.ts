@@ -0,0 +1,250 @@
+import {
+  buildProjectRegistry,
+  isOpaqueNode,
+  loadProjectFiles,
+  parseSource,
+} from '../validator/index.js';
+import type { QuerySchemaOptions } from './types.js';
+
+/**
+ * Collection configs keyed by slug
+ */
+export type QuerySchema = Map<string, Record<string, any>>;
+
+export type ResolvedField =
+  | { kind: 'field'; type: string; field: Record<string, any> }
+  /** The path exists, but its type cannot be read statically, e.g. imported fields */
+  | { kind: 'opaque' }
+  | { kind: 'unknown'; message: string };
+
+/** Fields that hold other fields under their own name */
+const NESTING_TYPES = ['group', 'array'];
+/** Fields that only arrange their children and add nothing to the data path */
+const LAYOUT_TYPES = ['row', 'collapsible'];
+/** Fields whose content can be queried below the field itself, with no schema to check against */
+const FREE_FORM_TYPES = ['json', 'richText'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isOpaqueNode(value);
+}
+
+/**
+ * Values of a select or radio field's options, when they are all literal strings
+ */
+export function getOptionValues(field: Record<string, any>): string[] | undefined {
+  if (!Array.isArray(field.options)) {
+    return undefined;
+  }
+
+  const values = field.options.map((option: unknown) => (isObject(option) ? option.value : option));
+  return values.every((value: unknown) => typeof value === 'string') ? values : undefined;
+}
+
+/**
+ * Load the collections a query can reference from a project root and an inline collection config
+ *
+ * @param options - Project root and collection source; the project root must already be resolved
+ * @returns The collection schema, the slug of the queried collection, and the project's globals and `maxDepth`
+ */
+export function loadQuerySchema(options: QuerySchemaOptions): {
+  schema: QuerySchema;
+  collection?: string;
+  globals: QuerySchema;
+  maxDepth?: number;
+} {
+  const schema: QuerySchema = new Map();
+  const globals: QuerySchema = new Map();
+  let maxDepth: number | undefined;
+
+  if (options.projectRoot) {
+    const files = loadProjectFiles(options.projectRoot).filter((file) => file.value !== undefined);
+    const registry = buildProjectRegistry(files);
+    for (const entry of registry.collections) {
+      schema.set(entry.slug, entry.value);
+    }
+    for (const entry of registry.globals) {
+      globals.set(entry.slug, entry.value);
+    }
+    if (typeof registry.config?.value?.maxDepth === 'number') {
+      maxDepth = registry.config.value.maxDepth;
+    }
+  }
+
+  let inlineSlug: string | undefined;
+  if (options.collectionConfig) {
+    const { value } = parseSource(options.collectionConfig);
+    if (!isObject(value) || typeof value.slug !== 'string') {
+      throw new Error('collectionConfig must be a collection config with a string slug');
+    }
+    inlineSlug = value.slug;
+    schema.set(value.slug, value);
+  }
+
+  return { schema, collection: options.collection ?? inlineSlug, globals, maxDepth };
+}
+
+/**
+ * Fields Payload adds to every document of a collection
+ */
+function getBuiltInFields(config: Record<string, any>): Record<string, Record<string, any>> {
+  const fields: Record<string, Record<string, any>> = { id: { name: 'id', type: 'id' } };
+
+  if (config.timestamps !== false) {
+    fields.createdAt = { name: 'createdAt', type: 'date' };
+    fields.updatedAt = { name: 'updatedAt', type: 'date' };
+  }
+  if (config.auth) {
+    fields.email = { name: 'email', type: 'email' };
+  }
+  if (isObject(config.versions) && config.versions.drafts) {
+    fields._status = { name: '_status', type: 'select', options: ['draft', 'published'] };
+  }
+
+  return fields;
+}
+
+/**
+ * The fields that hold data at this level, looking through rows, collapsibles, unnamed groups and tabs.
+ * Named tabs behave like groups.
+ *
+ * @param fields - A `fields` array
+ * @returns The data fields, and whether every field could be read statically
+ */
+export function getDataFields(fields: unknown): { fields: Array<Record<string, any>>; isComplete: boolean } {
+  if (!Array.isArray(fields)) {
+    return { fields: [], isComplete: false };
+  }
+
+  const dataFields: Array<Record<string, any>> = [];
+  let isComplete = true;
+  for (const field of fields) {
+    if (!isObject(field)) {
+      isComplete = false;
+      continue;
+    }
+
+    const nested: unknown[] = [];
+    if (LAYOUT_TYPES.includes(field.type) || (field.type === 'group' && !field.name)) {
+      nested.push(field.fields);
+    } else if (field.type === 'tabs') {
+      for (const tab of Array.isArray(field.tabs) ? field.tabs : [undefined]) {
+        if (!isObject(tab)) {
+          isComplete = false;
+        } else if (tab.name) {
+          dataFields.push({ ...tab, type: 'group' });
+        } else {
+          nested.push(tab.fields);
+        }
+      }
+    } else if (field.name) {
+      dataFields.push(field);
+    }
+
+    for (const nestedFields of nested) {
+      const found = getDataFields(nestedFields);
+      dataFields.push(...found.fields);
+      isComplete = isComplete && found.isComplete;
+    }
+  }
+
+  return { fields: dataFields, isComplete };
+}
+
+function findField(fields: unknown, name: string): Record<string, any> | 'opaque' | undefined {
+  const { fields: dataFields, isComplete } = getDataFields(fields);
+  return dataFields.find((field) => field.name === name) ?? (isComplete ? undefined : 'opaque');
+}
+
+/**
+ * Resolve a dotted query path, e.g. `meta.title` or `author.name`, to the field it points at.
+ * Paths continue into groups, arrays, named tabs and blocks, and through relationships into the related collection.
+ *
+ * @param schema - Collections of the project
+ * @param slug - Collection the path starts in
+ * @param path - Dotted field path
+ */
+export function resolveFieldPath(schema: QuerySchema, slug: string, path: string): ResolvedField {
+  const segments = path.split('.');
+  // Where the current segment is looked up, for messages
+  let scope = `collection "${slug}"`;
+  const config = schema.get(slug);
+  if (!config) {
+    return { kind: 'opaque' };
+  }
+
+  let fields: unknown = config.fields;
+  let builtIns = getBuiltInFields(config);
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const found = builtIns.hasOwnProperty(segment) ? builtIns[segment] : findField(fields, segment);
+    if (found === 'opaque') {
+      return { kind: 'opaque' };
+    }
+    if (!found) {
+      return { kind: 'unknown', message: `Field "${segment}" does not exist in ${scope}` };
+    }
+
+    const rest = segments.slice(index + 1);
+    if (rest.length === 0) {
+      return { kind: 'field', type: found.type, field: found };
+    }
+    if (FREE_FORM_TYPES.includes(found.type)) {
+      return { kind: 'opaque' };
+    }
+    // A locale code after a localized field, e.g. `title.es`
+    if (found.localized && rest.length === 1 && /^[a-z]{2}([-_][A-Za-z]{2,4})?$/.test(rest[0]) && !NESTING_TYPES.includes(found.type)) {
+      return { kind: 'field', type: found.type, field: found };
+    }
+
+    scope = `"${segments.slice(0, index + 1).join('.')}"`;
+    if (NESTING_TYPES.includes(found.type)) {
+      fields = found.fields;
+      builtIns = found.type === 'array' ? { id: { name: 'id', type: 'text' } } : {};
+      continue;
+    }
+
+    if (found.type === 'blocks') {
+      const blocks = Array.isArray(found.blocks) ? found.blocks : [];
+      if (blocks.some((block: unknown) => !isObject(block)) || found.blockReferences) {
+        return { kind: 'opaque' };
+      }
+      fields = blocks.flatMap((block: Record<string, any>) => (Array.isArray(block.fields) ? block.fields : []));
+      builtIns = {
+        id: { name: 'id', type: 'text' },
+        blockType: { name: 'blockType', type: 'select', options: blocks.map((block: Record<string, any>) => block.slug) },
+        blockName: { name: 'blockName', type: 'text' },
+      };
+      continue;
+    }
+
+    if (found.type === 'relationship' || found.type === 'upload') {
+      if (Array.isArray(found.relationTo)) {
+        // Polymorphic relationships store `{ relationTo, value }`
+        if (rest.length === 1 && rest[0] === 'relationTo') {
+          return { kind: 'field', type: 'select', field: { name: 'relationTo', type: 'select', options: found.relationTo } };
+        }
+        if (rest.length === 1 && rest[0] === 'value') {
+          return { kind: 'field', type: found.type, field: { ...found, relationTo: undefined } };
+        }
+        return { kind: 'unknown', message: `Polymorphic relationship "${segments.slice(0, index + 1).join('.')}" can only be queried by "relationTo" or "value"` };
+      }
+
+      const related = typeof found.relationTo === 'string' ? schema.get(found.relationTo) : undefined;
+      if (!related) {
+        return { kind: 'opaque' };
+      }
+      scope = `collection "${found.relationTo}" (through "${segments.slice(0, index + 1).join('.')}")`;
+      fields = related.fields;
+      builtIns = getBuiltInFields(related);
+      continue;
+    }
+
+    return {
+      kind: 'unknown',
+      message: `"${segments.slice(0, index + 1).join('.')}" is a ${found.type} field and has no nested fields`,
+    };
+  }
+
+  return { kind: 'opaque' };
+}
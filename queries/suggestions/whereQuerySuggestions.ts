@@ -1,5 +1,92 @@
 import type { Suggestion, FileType, ApiType } from '../types.js';
 
+export interface WhereOperator {
+  name: string;
+  description: string;
+  fieldTypes: string[];
+}
+
+/**
+ * Operators supported in Payload `where` queries and the field types they apply to
+ */
+export const WHERE_OPERATORS: WhereOperator[] = [
+  {
+    name: 'equals',
+    description: 'The value must be exactly equal.',
+    fieldTypes: ['*'],
+  },
+  {
+    name: 'not_equals',
+    description: 'The query will return all documents where the value is not equal.',
+    fieldTypes: ['*'],
+  },
+  {
+    name: 'greater_than',
+    description: 'For numeric or date-based fields.',
+    fieldTypes: ['number', 'date'],
+  },
+  {
+    name: 'greater_than_equal',
+    description: 'For numeric or date-based fields.',
+    fieldTypes: ['number', 'date'],
+  },
+  {
+    name: 'less_than',
+    description: 'For numeric or date-based fields.',
+    fieldTypes: ['number', 'date'],
+  },
+  {
+    name: 'less_than_equal',
+    description: 'For numeric or date-based fields.',
+    fieldTypes: ['number', 'date'],
+  },
+  {
+    name: 'like',
+    description: 'Case-insensitive string must be present. If string of words, all words must be present, in any order.',
+    fieldTypes: ['text', 'textarea', 'email', 'code', 'json', 'richText', 'select', 'radio'],
+  },
+  {
+    name: 'contains',
+    description: 'Must contain the value entered, case-insensitive.',
+    fieldTypes: ['text', 'textarea', 'email', 'code', 'json', 'richText', 'select', 'radio'],
+  },
+  {
+    name: 'in',
+    description: 'The value must be found within the provided comma-delimited list of values.',
+    fieldTypes: ['*'],
+  },
+  {
+    name: 'not_in',
+    description: 'The value must NOT be within the provided comma-delimited list of values.',
+    fieldTypes: ['*'],
+  },
+  {
+    name: 'all',
+    description: 'The value must contain all values provided in the comma-delimited list. Only MongoDB.',
+    fieldTypes: ['select', 'relationship', 'upload', 'text', 'number'],
+  },
+  {
+    name: 'exists',
+    description: 'Only return documents where the value either exists (true) or does not exist (false).',
+    fieldTypes: ['*'],
+  },
+  {
+    name: 'near',
+    description: 'For distance related to a Point field comma separated as <longitude>, <latitude>, <maxDistance in meters (nullable)>, <minDistance in meters (nullable)>.',
+    fieldTypes: ['point'],
+  },
+  {
+    name: 'within',
+    description: 'For Point fields to filter documents based on whether points are inside of the given area defined in GeoJSON.',
+    fieldTypes: ['point'],
+  },
+  {
+    name: 'intersects',
+    description: 'For Point fields to filter documents based on whether points intersect with the given area defined in GeoJSON.',
+    fieldTypes: ['point'],
+  },
+];
+
 /**
  * Get suggestions for 'where' queries
  * 
@@ -18,7 +105,7 @@ export function getWhereQuerySuggestions(apiType?: ApiType, fileType?: FileType)
 
   suggestions.push({
     type: 'info',
-    message: 'Available operators include: equals, not_equals, greater_than, less_than, like, contains, in, not_in, all, exists, near, within, intersects',
+    message: `Available operators include: ${WHERE_OPERATORS.map(operator => operator.name).join(', ')}`,
   });
 
   suggestions.push({
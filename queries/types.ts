@@ -17,6 +17,22 @@ export interface ValidationResult {
   queryType?: QueryType;
   apiType?: ApiType;
   parsedQuery?: any;
+  /** Problems found while parsing, e.g. a non-numeric `limit` in a REST query */
+  issues?: QueryIssue[];
+}
+
+/**
+ * Compact form of a GraphQL document, returned in `parsedQuery` in place of its syntax tree
+ */
+export interface GraphQLQuerySummary {
+  operations: Array<{
+    operation: 'query' | 'mutation' | 'subscription';
+    name?: string;
+    /** Root fields with their arguments; variables are written as `$name` */
+    fields: Array<{ name: string; alias?: string; arguments: Record<string, unknown> }>;
+  }>;
+  /** Names of the fragments the document defines */
+  fragments: string[];
 }
 
 export interface Suggestion {
@@ -26,6 +42,29 @@ export interface Suggestion {
   docReference?: string;
 }
 
+export interface QueryIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Path of the offending part of the query, e.g. `where.or.0.title.near` */
+  path: string;
+  /** Position in a GraphQL document, 1-based */
+  location?: { line: number; column: number };
+}
+
+/**
+ * Collections a query is checked against
+ */
+export interface QuerySchemaOptions {
+  /** Slug of the queried collection; defaults to the `collection` of a Local API query or the slug of `collectionConfig` */
+  collection?: string;
+  /** Project root to load collections from, so paths through relationships can be followed */
+  projectRoot?: string;
+  /** Source of a collection config, used in place of the project's collection with the same slug */
+  collectionConfig?: string;
+  /** GraphQL schema file to check GraphQL queries against; defaults to the project's `generated-schema.graphql` */
+  schemaFile?: string;
+}
+
 export interface QueryResult {
   success: boolean;
   error?: string;
@@ -33,6 +72,8 @@ export interface QueryResult {
   apiType?: ApiType;
   suggestions: Suggestion[];
   parsedQuery?: any;
+  /** Problems found by checking the query against the collection schema */
+  issues?: QueryIssue[];
 }
 
 export interface FormatResponseInput {
@@ -42,4 +83,98 @@ export interface FormatResponseInput {
   apiType?: ApiType;
   suggestions: Suggestion[];
   parsedQuery?: any;
-} 
\ No newline at end of file
+  issues?: QueryIssue[];
+}
+
+/**
+ * The parts of a find query that every API can express
+ */
+export interface PortableQuery {
+  collection: string;
+  where?: Record<string, any>;
+  sort?: string | string[];
+  limit?: number;
+  page?: number;
+  depth?: number;
+  select?: Record<string, any>;
+  populate?: Record<string, any>;
+}
+
+export interface ConvertQueryOptions {
+  /** API the query is written for; detected from the query when omitted */
+  from?: ApiType;
+  /** Values of the variables of a GraphQL query */
+  variables?: Record<string, unknown>;
+  /** Collections used to type values and expand selections; its `collection` overrides the query's own */
+  schemaOptions?: QuerySchemaOptions;
+}
+
+export interface ConversionResult {
+  from: ApiType;
+  query: PortableQuery;
+  /** `payload.find({...})` call */
+  local: string;
+  /** REST URL with its query string */
+  rest: string;
+  /** GraphQL query document */
+  graphql: string;
+  /** Parts of the query that could not be carried over exactly */
+  warnings: string[];
+  /** Problems with the `where` and `sort` of the query */
+  issues: QueryIssue[];
+}
+
+/**
+ * A single condition of a built query, e.g. `{ field: 'views', operator: 'greater_than', value: 10 }`
+ */
+export interface QueryFilter {
+  /** Field path in dot notation, e.g. `author.name` */
+  field: string;
+  operator: string;
+  /** Compared value; `exists` defaults to true */
+  value?: unknown;
+}
+
+/**
+ * Conditions that must all (`and`) or any (`or`) match
+ */
+export type QueryFilterGroup = { and: QueryCondition[] } | { or: QueryCondition[] };
+
+export type QueryCondition = QueryFilter | QueryFilterGroup;
+
+export interface QuerySortKey {
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Structured description of a find query, turned into a query for every API by `buildQuery`
+ */
+export interface QuerySpec {
+  collection: string;
+  /** Conditions that must all match */
+  filters?: QueryCondition[];
+  /** Sort keys in order of precedence; a string key may start with `-` to sort descending */
+  sort?: Array<string | QuerySortKey>;
+  limit?: number;
+  page?: number;
+  depth?: number;
+  /** Field paths to return; prefix every path with `-` to return all other fields instead */
+  select?: string[];
+  /** Field paths to return from related documents, keyed by the related collection slug */
+  populate?: Record<string, string[]>;
+}
+
+export interface BuildResult {
+  query: PortableQuery;
+  /** `payload.find({...})` call */
+  local: string;
+  /** REST URL with its query string */
+  rest: string;
+  /** GraphQL query document */
+  graphql: string;
+  /** Parts of the query that could not be carried over exactly */
+  warnings: string[];
+  /** Problems with the fields, operators and values of the query */
+  issues: QueryIssue[];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { loadGraphQLSchema } from './graphQLSchema.js';
+import { processQuery } from './index.js';
+import { parseGraphQL } from './parseGraphQL.js';
+import { validateGraphQL } from './validateGraphQL.js';
+
+const collectionConfig = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'title', type: 'text' },
+    { name: 'status', type: 'select', options: ['draft', 'in-review'] },
+    { name: 'related', type: 'relationship', relationTo: 'posts' },
+  ],
+};`;
+
+const { schema } = loadGraphQLSchema({ collectionConfig });
+
+const check = (source: string, maxDepth?: number) => validateGraphQL(parseGraphQL(source), { schema, maxDepth });
+
+describe('validateGraphQL', () => {
+  test('accepts a query of the derived schema', () => {
+    expect(check(`query ($id: String!) {
+  Posts(where: { status: { equals: in_review } }, limit: 5) { docs { id title related { title } } totalDocs }
+  Post(id: $id) { title }
+}`)).toEqual([]);
+  });
+
+  test('reports unknown fields with their path and location', () => {
+    expect(check('query { Posts { docs { titel } } }')).toEqual([{
+      severity: 'error',
+      message: 'Cannot query field "titel" on type "Post". Did you mean "title"?',
+      path: 'Posts.docs.titel',
+      location: { line: 1, column: 24 },
+    }]);
+  });
+
+  test('reports argument values of the wrong type', () => {
+    const [issue] = check('query { Posts(limit: "5") { docs { id } } }');
+
+    expect(issue.message).toBe('Int cannot represent non-integer value: "5"');
+    expect(issue.path).toBe('Posts.limit');
+  });
+
+  test('reports quoted enum values', () => {
+    const [issue] = check('query { Posts(where: { status: { equals: "draft" } }) { docs { id } } }');
+
+    expect(issue.message).toStartWith('Enum "Post_Status" cannot represent non-enum value: "draft".');
+    expect(issue.path).toBe('Posts.where.status.equals');
+  });
+
+  test('reports fields nested deeper than maxDepth, also through fragments', () => {
+    const issues = check(`query { Posts { docs { ...Related } } }
+fragment Related on Post { related { related { title } } }`, 2);
+
+    expect(issues).toEqual([expect.objectContaining({
+      message: 'Field "related" is nested 3 levels deep, deeper than the maxDepth of 2',
+      path: 'Related.related.related',
+    })]);
+  });
+
+  test('warns about queries and mutations the derived schema does not have', () => {
+    expect(check('query { customQuery { id } }').map((issue) => issue.severity)).toEqual(['warning']);
+    expect(check('mutation { createPost(data: {}) { id } }').map((issue) => issue.severity)).toEqual(['warning']);
+  });
+
+  test('checks variables and fragments without a schema', () => {
+    const issues = validateGraphQL(parseGraphQL('query ($unused: Int) { Posts(limit: $limit) { docs { ...Missing } } }'));
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Unknown fragment "Missing".',
+      'Variable "$limit" is not defined.',
+      'Variable "$unused" is never used.',
+    ]);
+  });
+
+  test('are returned by processQuery with a summary of the document', async () => {
+    const result = await processQuery(`query Recent($status: Post_Status) {
+  recent: Posts(where: { status: { equals: $status } }, limit: 5) { docs { ...PostFields } }
+}
+fragment PostFields on Post { title }`, undefined, { collectionConfig });
+
+    expect(result.success).toBe(true);
+    expect(result.queryType).toBe('where');
+    expect(result.parsedQuery).toEqual({
+      operations: [{
+        operation: 'query',
+        name: 'Recent',
+        fields: [{ name: 'Posts', alias: 'recent', arguments: { where: { status: { equals: '$status' } }, limit: 5 } }],
+      }],
+      fragments: ['PostFields'],
+    });
+  });
+});
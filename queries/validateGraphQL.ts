@@ -0,0 +1,252 @@
+import {
+  ExecutableDefinitionsRule,
+  FieldsOnCorrectTypeRule,
+  GraphQLError,
+  GraphQLSchema,
+  KnownFragmentNamesRule,
+  Kind,
+  LoneAnonymousOperationRule,
+  NoFragmentCyclesRule,
+  NoUndefinedVariablesRule,
+  NoUnusedFragmentsRule,
+  NoUnusedVariablesRule,
+  specifiedRules,
+  UniqueArgumentNamesRule,
+  UniqueFragmentNamesRule,
+  UniqueInputFieldNamesRule,
+  UniqueOperationNamesRule,
+  UniqueVariableNamesRule,
+  validate,
+  VariablesInAllowedPositionRule,
+  visit,
+  type ASTNode,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from 'graphql';
+import { isDerivedSchema } from './graphQLSchema.js';
+import type { GraphQLDocument } from './parseGraphQL.js';
+import type { QueryIssue } from './types.js';
+
+export interface GraphQLValidationOptions {
+  /** Schema to check fields, arguments and values against; only the document itself is checked without it */
+  schema?: GraphQLSchema;
+  /** Deepest nesting allowed, counted like Payload's depth limit: root fields are at depth 0 */
+  maxDepth?: number;
+}
+
+/** Schema without types, for the rules that only look at the document; it has no query type, so it is not checked */
+const EMPTY_SCHEMA = new GraphQLSchema({ assumeValid: true });
+
+/** Rules that need no schema: variables, fragments and names that must be unique */
+const DOCUMENT_RULES: ValidationRule[] = [
+  ExecutableDefinitionsRule,
+  UniqueOperationNamesRule,
+  LoneAnonymousOperationRule,
+  UniqueFragmentNamesRule,
+  KnownFragmentNamesRule,
+  NoUnusedFragmentsRule,
+  NoFragmentCyclesRule,
+  UniqueVariableNamesRule,
+  NoUndefinedVariablesRule,
+  NoUnusedVariablesRule,
+  UniqueArgumentNamesRule,
+  UniqueInputFieldNamesRule,
+];
+
+/**
+ * Run a rule with each error it reports replaced, or dropped when `map` returns undefined
+ */
+function mapErrors(
+  rule: ValidationRule,
+  map: (error: GraphQLError, context: ValidationContext) => GraphQLError | undefined
+): ValidationRule {
+  return (context) => rule(Object.assign(Object.create(context), {
+    reportError(error: GraphQLError) {
+      const mapped = map(error, context);
+      if (mapped) {
+        context.reportError(mapped);
+      }
+    },
+  }));
+}
+
+/**
+ * Custom queries from the config's `graphQL.queries` are not part of a derived schema,
+ * so unknown root fields are warnings rather than errors
+ */
+const DerivedFieldsOnCorrectTypeRule = mapErrors(FieldsOnCorrectTypeRule, (error, context) => {
+  const [node] = error.nodes ?? [];
+  if (node?.kind !== Kind.FIELD || context.getParentType() !== context.getSchema().getQueryType()) {
+    return error;
+  }
+  return new GraphQLError(
+    `Query "${node.name.value}" is not generated from the collections or globals, so it was not checked`,
+    { nodes: node, extensions: { severity: 'warning' } }
+  );
+});
+
+/**
+ * JSON stands in for types a derived schema cannot know, such as the ID type of the database,
+ * so variables of any type may be passed where it is expected
+ */
+const DerivedVariablesInAllowedPositionRule = mapErrors(
+  VariablesInAllowedPositionRule,
+  (error) => (/ expecting type "JSON!?"\.$/.test(error.message) ? undefined : error)
+);
+
+const OperationRequiredRule: ValidationRule = (context) => ({
+  Document(document) {
+    if (!document.definitions.some((definition) => definition.kind === Kind.OPERATION_DEFINITION)) {
+      context.reportError(new GraphQLError('The document has no query', { nodes: document.definitions[0] }));
+    }
+  },
+});
+
+/**
+ * Report operations the schema has no root type for. A derived schema only has queries,
+ * so other operations are warnings that they were not checked.
+ */
+const RootOperationTypeRule: ValidationRule = (context) => ({
+  OperationDefinition(operation) {
+    const schema = context.getSchema();
+    if (schema.getRootType(operation.operation)) {
+      return;
+    }
+    context.reportError(isDerivedSchema(schema)
+      ? new GraphQLError(
+        `Only queries are derived from the collections, so this ${operation.operation} was not checked`,
+        { nodes: operation, extensions: { severity: 'warning' } }
+      )
+      : new GraphQLError(`The schema has no ${operation.operation} type`, { nodes: operation }));
+  },
+});
+
+/**
+ * Report fields nested deeper than the depth limit, following fragments into the selections they spread
+ */
+function createMaxDepthRule(maxDepth: number): ValidationRule {
+  return (context) => {
+    const checkSelections = (selectionSet: SelectionSetNode, depth: number, fragmentPath: string[]): void => {
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.INLINE_FRAGMENT) {
+          checkSelections(selection.selectionSet, depth, fragmentPath);
+        } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+          // Unknown and cyclic fragments are reported by their own rules
+          const fragment = context.getFragment(selection.name.value);
+          if (fragment && !fragmentPath.includes(fragment.name.value)) {
+            checkSelections(fragment.selectionSet, depth, [...fragmentPath, fragment.name.value]);
+          }
+        } else if (selection.name.value.startsWith('__')) {
+          // Introspection fields are not counted towards the depth limit
+        } else if (depth > maxDepth) {
+          context.reportError(new GraphQLError(
+            `Field "${selection.name.value}" is nested ${depth} levels deep, deeper than the maxDepth of ${maxDepth}`,
+            { nodes: selection }
+          ));
+        } else if (selection.selectionSet) {
+          checkSelections(selection.selectionSet, depth + 1, fragmentPath);
+        }
+      }
+    };
+
+    return {
+      OperationDefinition(operation) {
+        checkSelections(operation.selectionSet, 0, []);
+      },
+    };
+  };
+}
+
+function getRules(schema: GraphQLSchema | undefined): ValidationRule[] {
+  if (!schema) {
+    return [...DOCUMENT_RULES, OperationRequiredRule];
+  }
+  if (!isDerivedSchema(schema)) {
+    return [...specifiedRules, OperationRequiredRule, RootOperationTypeRule];
+  }
+
+  return [
+    ...specifiedRules.map((rule) => {
+      if (rule === FieldsOnCorrectTypeRule) {
+        return DerivedFieldsOnCorrectTypeRule;
+      }
+      return rule === VariablesInAllowedPositionRule ? DerivedVariablesInAllowedPositionRule : rule;
+    }),
+    OperationRequiredRule,
+    RootOperationTypeRule,
+  ];
+}
+
+/**
+ * Path of every node of a document: the operation or fragment name followed by field aliases,
+ * argument and input field names and list indexes, e.g. `Posts.where.OR.0.title`
+ */
+function getNodePaths(document: GraphQLDocument): Map<ASTNode, string> {
+  const paths = new Map<ASTNode, string>();
+  const segments: Array<string | undefined> = [];
+
+  visit(document, {
+    enter(node, key, _parent, _path, ancestors) {
+      const owner = ancestors[ancestors.length - 1];
+      switch (node.kind) {
+        case Kind.OPERATION_DEFINITION:
+        case Kind.FRAGMENT_DEFINITION:
+          segments.push(node.name?.value);
+          break;
+        case Kind.FIELD:
+          segments.push((node.alias ?? node.name).value);
+          break;
+        case Kind.ARGUMENT:
+        case Kind.OBJECT_FIELD:
+          segments.push(node.name.value);
+          break;
+        case Kind.VARIABLE_DEFINITION:
+          segments.push(`$${node.variable.name.value}`);
+          break;
+        default:
+          segments.push(typeof key === 'number' && 'kind' in owner && owner.kind === Kind.LIST ? String(key) : undefined);
+      }
+      paths.set(node, segments.filter(Boolean).join('.'));
+    },
+    leave() {
+      segments.pop();
+    },
+  });
+
+  return paths;
+}
+
+/**
+ * Check a parsed GraphQL document the way Payload's GraphQL endpoint would: fields, arguments and
+ * values against the schema, variables and fragments, and the nesting depth against `maxDepth`
+ *
+ * @param document - Parsed GraphQL document
+ * @param options - Schema and depth limit to check against
+ * @returns Problems with the document, each with its position in the document
+ */
+export function validateGraphQL(document: GraphQLDocument, options: GraphQLValidationOptions = {}): QueryIssue[] {
+  const rules = getRules(options.schema);
+  if (options.maxDepth !== undefined) {
+    rules.push(createMaxDepthRule(options.maxDepth));
+  }
+
+  const paths = getNodePaths(document);
+  const seen = new Set<string>();
+  return validate(options.schema ?? EMPTY_SCHEMA, document, rules)
+    .map((error): QueryIssue => {
+      const [node] = error.nodes ?? [];
+      const [location] = error.locations ?? [];
+      return {
+        severity: error.extensions.severity === 'warning' ? 'warning' : 'error',
+        message: error.message,
+        path: (node && paths.get(node)) ?? '',
+        ...(location && { location: { line: location.line, column: location.column } }),
+      };
+    })
+    .filter((issue) => {
+      // Fields of fragments spread more than once are reported once
+      const key = JSON.stringify(issue);
+      return !seen.has(key) && Boolean(seen.add(key));
+    });
+}
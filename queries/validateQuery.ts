@@ -1,4 +1,7 @@
-import type { ValidationResult, FileType, QueryType, ApiType } from './types.js';
+import { isGraphQLDocument, parseGraphQL, summarizeGraphQL } from './parseGraphQL.js';
+import { isFindCall, parseLocalQuery } from './parseLocalQuery.js';
+import { parseRestQuery } from './parseRestQuery.js';
+import type { ValidationResult, FileType, QueryType, ApiType, QueryIssue, GraphQLQuerySummary } from './types.js';
 
 /**
  * Validates a query string and determines its type
@@ -26,7 +29,7 @@ export function validateQuery(
   }
 
   try {
-    const { queryType, apiType, isValid, error, parsedQuery } = detectQueryTypeAndApi(queryString);
+    const { queryType, apiType, isValid, error, parsedQuery, issues } = detectQueryTypeAndApi(queryString);
 
     if (!isValid) {
       return { isValid, error };
@@ -37,6 +40,7 @@ export function validateQuery(
       queryType,
       apiType,
       parsedQuery,
+      issues,
     };
   } catch (error) {
     return {
@@ -62,6 +66,7 @@ function detectQueryTypeAndApi(queryString: string): {
   isValid: boolean;
   error?: string;
   parsedQuery?: any;
+  issues?: QueryIssue[];
 } {
 
   const cleanQuery = queryString.trim();
@@ -74,15 +79,36 @@ function detectQueryTypeAndApi(queryString: string): {
     }
   }
 
-  if (cleanQuery.includes('=') || cleanQuery.includes('?') || cleanQuery.includes('&')) {
+  if (isGraphQLDocument(cleanQuery)) {
+    return analyzeGraphQLQuery(cleanQuery);
+  }
+
+  // Kept so an object literal that is neither GraphQL nor valid JavaScript reports why it could not be parsed
+  let localError: string | undefined;
+  if (isFindCall(cleanQuery) || cleanQuery.startsWith('{')) {
+    try {
+      return analyzeJSONQuery(parseLocalQuery(cleanQuery));
+    } catch (error) {
+      localError = `Invalid Local API query: ${(error as Error).message}`;
+    }
+    if (isFindCall(cleanQuery)) {
+      return { isValid: false, error: localError, apiType: 'local' };
+    }
+  }
+
+  if (!localError && (cleanQuery.includes('=') || cleanQuery.includes('?') || cleanQuery.includes('&'))) {
     return analyzeURLQuery(cleanQuery);
   }
 
-  if (cleanQuery.includes('{') && cleanQuery.includes('}') &&
-    (cleanQuery.includes('query') || cleanQuery.includes('mutation'))) {
+  if (/^(query|mutation|subscription|fragment)\b/.test(cleanQuery) || (cleanQuery.includes('{') && cleanQuery.includes('}') &&
+    (cleanQuery.includes('query') || cleanQuery.includes('mutation')))) {
     return analyzeGraphQLQuery(cleanQuery);
   }
 
+  if (localError) {
+    return { isValid: false, error: localError, apiType: 'local' };
+  }
+
   return inferQueryTypeFromContent(cleanQuery);
 }
 
@@ -156,122 +182,77 @@ function analyzeJSONQuery(parsedQuery: any): {
   };
 }
 
+/**
+ * REST params that identify a query type, in order of precedence
+ */
+const REST_QUERY_TYPES: Array<[QueryType, string[]]> = [
+  ['where', ['where']],
+  ['sort', ['sort']],
+  ['select', ['select']],
+  ['depth', ['depth']],
+  ['pagination', ['limit', 'page']],
+  ['populate', ['populate']],
+];
+
 function analyzeURLQuery(queryString: string): {
   queryType?: QueryType;
   apiType?: ApiType;
   isValid: boolean;
   error?: string;
   parsedQuery?: any;
+  issues?: QueryIssue[];
 } {
-  const params = new URLSearchParams(
-    queryString.startsWith('?') ? queryString.substring(1) : queryString
-  );
-  const parsedQuery: Record<string, any> = {};
-
-  for (const [key, value] of params.entries()) {
-    parsedQuery[key] = value;
-  }
-
-  if (params.has('where') || queryString.includes('where[')) {
-    return {
-      queryType: 'where',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
-
-  if (params.has('sort')) {
-    return {
-      queryType: 'sort',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
-
-  if (params.has('select') || queryString.includes('select[')) {
-    return {
-      queryType: 'select',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
-
-  if (params.has('depth')) {
-    return {
-      queryType: 'depth',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
-
-  if (params.has('limit') || params.has('page')) {
-    return {
-      queryType: 'pagination',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
-
-  if (params.has('populate') || queryString.includes('populate[')) {
-    return {
-      queryType: 'populate',
-      apiType: 'rest',
-      isValid: true,
-      parsedQuery,
-    };
-  }
+  const { query: parsedQuery, issues } = parseRestQuery(queryString);
+  const queryType = REST_QUERY_TYPES.find(([, params]) =>
+    params.some((param) => parsedQuery[param] !== undefined))?.[0] ?? 'general';
 
   return {
-    queryType: 'general',
+    queryType,
     apiType: 'rest',
     isValid: true,
     parsedQuery,
+    issues,
   };
 }
 
+/**
+ * Arguments of root fields that identify a GraphQL query type, in order of precedence
+ */
+const GRAPHQL_QUERY_TYPES: Array<[QueryType, string[]]> = [
+  ['where', ['where']],
+  ['sort', ['sort']],
+  ['pagination', ['limit', 'page']],
+];
+
 function analyzeGraphQLQuery(queryString: string): {
   queryType?: QueryType;
   apiType?: ApiType;
   isValid: boolean;
   error?: string;
-  parsedQuery?: string;
+  parsedQuery?: GraphQLQuerySummary;
 } {
-  if (!queryString.includes('{') || !queryString.includes('}')) {
+  let parsedQuery: GraphQLQuerySummary;
+  try {
+    parsedQuery = summarizeGraphQL(parseGraphQL(queryString));
+  } catch (error) {
     return {
       isValid: false,
-      error: 'Invalid GraphQL query format',
+      error: `Invalid GraphQL query: ${(error as Error).message}`,
       apiType: 'graphql',
     };
   }
 
-  if (queryString.includes('where:')) {
-    return {
-      queryType: 'where',
-      apiType: 'graphql',
-      isValid: true,
-      parsedQuery: queryString,
-    };
-  }
-
-  if (queryString.includes('sort:')) {
-    return {
-      queryType: 'sort',
-      apiType: 'graphql',
-      isValid: true,
-      parsedQuery: queryString,
-    };
-  }
+  const argumentNames = parsedQuery.operations
+    .flatMap((operation) => operation.fields)
+    .flatMap((field) => Object.keys(field.arguments));
+  const queryType = GRAPHQL_QUERY_TYPES.find(([, names]) =>
+    names.some((name) => argumentNames.includes(name)))?.[0] ?? 'general';
 
   return {
-    queryType: 'general',
+    queryType,
     apiType: 'graphql',
     isValid: true,
-    parsedQuery: queryString,
+    parsedQuery,
   };
 }
 
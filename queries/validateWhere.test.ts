@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { loadQuerySchema } from './querySchema.js';
+import { validateSort, validateWhere } from './validateWhere.js';
+
+const collectionConfig = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'title', type: 'text' },
+    { name: 'views', type: 'number' },
+    { name: 'featured', type: 'checkbox' },
+    { name: 'status', type: 'select', options: ['draft', { label: 'Published', value: 'published' }] },
+    { name: 'meta', type: 'group', fields: [{ name: 'description', type: 'textarea' }] },
+    { type: 'row', fields: [{ name: 'publishedAt', type: 'date' }] },
+  ],
+};`;
+
+const options = loadQuerySchema({ collectionConfig });
+
+describe('validateWhere', () => {
+  test('accepts valid conditions on every kind of field', () => {
+    expect(validateWhere({
+      title: { like: 'Hello' },
+      'meta.description': { exists: true },
+      publishedAt: { greater_than: '2024-01-01' },
+      or: [{ status: { in: ['draft', 'published'] } }, { views: { greater_than_equal: 10 }, id: { not_equals: 'abc' } }],
+    }, options)).toEqual([]);
+  });
+
+  test('reports fields the collection does not have', () => {
+    expect(validateWhere({ titel: { equals: 'Hello' }, and: [{ 'meta.summary': { exists: true } }] }, options)).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'where.titel', message: expect.stringContaining('titel') }),
+      expect.objectContaining({ severity: 'error', path: 'where.and.0.meta.summary', message: expect.stringContaining('summary') }),
+    ]);
+  });
+
+  test('reports operators that do not apply to the field type', () => {
+    expect(validateWhere({ views: { like: '10' }, title: { near: [1, 2] } }, options)).toEqual([
+      {
+        severity: 'error',
+        message: expect.stringMatching(/^Operator "like" cannot be used on number field "views"; it applies to text, .* fields$/),
+        path: 'where.views.like',
+      },
+      {
+        severity: 'error',
+        message: 'Operator "near" cannot be used on text field "title"; it applies to point fields',
+        path: 'where.title.near',
+      },
+    ]);
+  });
+
+  test('reports values that do not match the field type', () => {
+    expect(validateWhere({ views: { greater_than: 'ten' }, featured: { equals: 'yes' } }, options)).toEqual([
+      { severity: 'error', message: '"greater_than" on number field "views" expects a number, got "ten"', path: 'where.views.greater_than' },
+      { severity: 'error', message: '"equals" on checkbox field "featured" expects a boolean, got "yes"', path: 'where.featured.equals' },
+    ]);
+    expect(validateWhere({ views: { greater_than: '10' }, featured: { equals: 'true' } }, { ...options, stringValues: true })).toEqual([]);
+  });
+
+  test('reports select values that are not options of the field', () => {
+    expect(validateWhere({ status: { in: ['draft', 'archived'] }, or: [{ status: { equals: 'Published' } }] }, options)).toEqual([
+      { severity: 'warning', message: '"archived" is not an option of "status"; expected one of draft, published', path: 'where.status.in' },
+      { severity: 'warning', message: '"Published" is not an option of "status"; expected one of draft, published', path: 'where.or.0.status.equals' },
+    ]);
+  });
+
+  test('checks the structure of conditions without a schema', () => {
+    expect(validateWhere({ title: 'Hello', views: { eq: 1 }, or: { title: { equals: 'Hi' } } })).toEqual([
+      { severity: 'error', message: 'Condition on "title" must be an object of operators, e.g. { equals: ... }', path: 'where.title' },
+      { severity: 'error', message: 'Unknown operator "eq" on "views"', path: 'where.views.eq' },
+      { severity: 'error', message: '"or" takes an array of where conditions', path: 'where.or' },
+    ]);
+  });
+});
+
+describe('validateSort', () => {
+  test('reports sort fields the collection does not have', () => {
+    expect(validateSort('-publishedAt,title', options)).toEqual([]);
+    expect(validateSort(['-views', 'rating'], options)).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'sort', message: expect.stringContaining('rating') }),
+    ]);
+  });
+});
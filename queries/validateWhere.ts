@@ -0,0 +1,228 @@
+import { WHERE_OPERATORS } from './suggestions/whereQuerySuggestions.js';
+import { getOptionValues, resolveFieldPath, type QuerySchema } from './querySchema.js';
+import type { QueryIssue } from './types.js';
+
+export interface WhereValidationOptions {
+  /** Collections to check field paths against; only the structure is checked without it */
+  schema?: QuerySchema;
+  /** Slug of the queried collection */
+  collection?: string;
+  /** Values come from a query string, so numbers, booleans and lists arrive as strings */
+  stringValues?: boolean;
+}
+
+const OPERATOR_NAMES = WHERE_OPERATORS.map((operator) => operator.name);
+
+const TEXT_TYPES = ['text', 'textarea', 'email', 'code', 'richText', 'select', 'radio'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumeric(value: unknown, stringValues?: boolean): boolean {
+  return typeof value === 'number'
+    || (Boolean(stringValues) && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)));
+}
+
+function isBooleanValue(value: unknown, stringValues?: boolean): boolean {
+  return typeof value === 'boolean' || (Boolean(stringValues) && (value === 'true' || value === 'false'));
+}
+
+/**
+ * Check a single value against the type of the field it is compared with
+ *
+ * @returns What the value should have been, or undefined when it matches
+ */
+function checkScalar(value: unknown, type: string, field: Record<string, any>, stringValues?: boolean): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+
+  switch (type) {
+    case 'number':
+      return isNumeric(value, stringValues) ? undefined : 'a number';
+    case 'checkbox':
+      return isBooleanValue(value, stringValues) ? undefined : 'a boolean';
+    case 'date':
+      return (typeof value === 'string' && !Number.isNaN(Date.parse(value))) || typeof value === 'number'
+        ? undefined
+        : 'a date string';
+    case 'id':
+    case 'relationship':
+    case 'upload':
+      if (typeof value === 'string' || typeof value === 'number') {
+        return undefined;
+      }
+      return Array.isArray(field.relationTo) && isPlainObject(value) && 'relationTo' in value && 'value' in value
+        ? undefined
+        : 'a document ID';
+    default:
+      if (TEXT_TYPES.includes(type)) {
+        return typeof value === 'string' || (type !== 'select' && type !== 'radio' && typeof value === 'number')
+          ? undefined
+          : 'a string';
+      }
+      return undefined;
+  }
+}
+
+function checkPoint(value: unknown, stringValues?: boolean): boolean {
+  const parts = typeof value === 'string' && stringValues ? value.split(',') : value;
+  return Array.isArray(parts) && parts.length >= 2 && parts.length <= 4
+    && parts.every((part, index) => (index >= 2 && (part === null || part === '')) || isNumeric(part, true));
+}
+
+/**
+ * Check an operator's value against the field type, returning problems as issues
+ */
+function checkValue(
+  operator: string,
+  value: unknown,
+  resolved: { type: string; field: Record<string, any> },
+  path: string,
+  stringValues?: boolean
+): QueryIssue[] {
+  const { type, field } = resolved;
+  const mismatch = (expected: string): QueryIssue[] => [{
+    severity: 'error',
+    message: `"${operator}" on ${type} field "${field.name}" expects ${expected}, got ${JSON.stringify(value)}`,
+    path,
+  }];
+
+  switch (operator) {
+    case 'exists':
+      return isBooleanValue(value, stringValues) ? [] : mismatch('a boolean');
+    case 'near':
+      return checkPoint(value, stringValues) ? [] : mismatch('[longitude, latitude, maxDistance?, minDistance?]');
+    case 'within':
+    case 'intersects':
+      return isPlainObject(value) && typeof value.type === 'string' && Array.isArray(value.coordinates)
+        ? []
+        : mismatch('a GeoJSON geometry');
+    case 'like':
+    case 'contains':
+      return typeof value === 'string' ? [] : mismatch('a string');
+    case 'in':
+    case 'not_in':
+    case 'all': {
+      const values = typeof value === 'string' && stringValues ? value.split(',') : value;
+      if (!Array.isArray(values)) {
+        return mismatch('an array');
+      }
+      const expected = values.map((item) => checkScalar(item, type, field, stringValues)).find(Boolean);
+      return expected ? mismatch(`an array of ${expected.replace(/^an? /, '')}s`) : checkOptions(values, field, path);
+    }
+    default: {
+      const expected = checkScalar(value, type, field, stringValues);
+      return expected ? mismatch(expected) : checkOptions([value], field, path);
+    }
+  }
+}
+
+function checkOptions(values: unknown[], field: Record<string, any>, path: string): QueryIssue[] {
+  const options = getOptionValues(field);
+  const unknown = options ? values.filter((value) => typeof value === 'string' && !options.includes(value)) : [];
+
+  return unknown.map((value) => ({
+    severity: 'warning',
+    message: `"${value}" is not an option of "${field.name}"; expected one of ${options!.join(', ')}`,
+    path,
+  }));
+}
+
+function validateConstraint(
+  fieldPath: string,
+  constraint: unknown,
+  path: string,
+  options: WhereValidationOptions
+): QueryIssue[] {
+  if (!isPlainObject(constraint)) {
+    return [{
+      severity: 'error',
+      message: `Condition on "${fieldPath}" must be an object of operators, e.g. { equals: ... }`,
+      path,
+    }];
+  }
+
+  const { schema, collection, stringValues } = options;
+  const resolved = schema && collection ? resolveFieldPath(schema, collection, fieldPath) : { kind: 'opaque' as const };
+  if (resolved.kind === 'unknown') {
+    return [{ severity: 'error', message: resolved.message, path }];
+  }
+
+  return Object.entries(constraint).flatMap(([operator, value]): QueryIssue[] => {
+    const operatorPath = `${path}.${operator}`;
+
+    if (operator === 'and' || operator === 'or') {
+      return [{
+        severity: 'error',
+        message: `"${operator}" must wrap whole conditions, not sit inside the condition on "${fieldPath}"`,
+        path: operatorPath,
+      }];
+    }
+    if (!OPERATOR_NAMES.includes(operator)) {
+      const hint = isPlainObject(value) ? `; use dot notation for nested fields, e.g. "${fieldPath}.${operator}"` : '';
+      return [{ severity: 'error', message: `Unknown operator "${operator}" on "${fieldPath}"${hint}`, path: operatorPath }];
+    }
+    if (resolved.kind !== 'field') {
+      return [];
+    }
+
+    const { fieldTypes } = WHERE_OPERATORS.find((candidate) => candidate.name === operator)!;
+    if (!fieldTypes.includes('*') && !fieldTypes.includes(resolved.type)) {
+      return [{
+        severity: 'error',
+        message: `Operator "${operator}" cannot be used on ${resolved.type} field "${fieldPath}"; it applies to ${fieldTypes.join(', ')} fields`,
+        path: operatorPath,
+      }];
+    }
+
+    return checkValue(operator, value, resolved, operatorPath, stringValues);
+  });
+}
+
+/**
+ * Check a `where` object: `and`/`or` nesting, operator names, and, with a schema, that every field
+ * exists and supports its operators and values
+ *
+ * @param where - The `where` object
+ * @param options - Schema to check fields against and how values are encoded
+ * @param path - Path of `where` inside the query, used in issue paths
+ * @returns Problems found, empty when the query is valid
+ */
+export function validateWhere(where: unknown, options: WhereValidationOptions = {}, path = 'where'): QueryIssue[] {
+  if (!isPlainObject(where)) {
+    return [{ severity: 'error', message: 'A where query must be an object of conditions', path }];
+  }
+
+  return Object.entries(where).flatMap(([key, value]) => {
+    const keyPath = `${path}.${key}`;
+    if (key !== 'and' && key !== 'or') {
+      return validateConstraint(key, value, keyPath, options);
+    }
+    if (!Array.isArray(value)) {
+      return [{ severity: 'error' as const, message: `"${key}" takes an array of where conditions`, path: keyPath }];
+    }
+
+    return value.flatMap((condition, index) => validateWhere(condition, options, `${keyPath}.${index}`));
+  });
+}
+
+/**
+ * Check that the fields of a `sort` value exist, e.g. `-createdAt` or `['title', '-publishedAt']`
+ */
+export function validateSort(sort: unknown, options: WhereValidationOptions, path = 'sort'): QueryIssue[] {
+  const { schema, collection } = options;
+  const keys = typeof sort === 'string' ? sort.split(',') : sort;
+  if (!Array.isArray(keys) || keys.some((key) => typeof key !== 'string')) {
+    return [{ severity: 'error', message: 'sort must be a field name or an array of field names', path }];
+  }
+  if (!schema || !collection) {
+    return [];
+  }
+
+  return keys.flatMap((key: string) => {
+    const resolved = resolveFieldPath(schema, collection, key.trim().replace(/^-/, ''));
+    return resolved.kind === 'unknown' ? [{ severity: 'error' as const, message: resolved.message, path }] : [];
+  });
+}
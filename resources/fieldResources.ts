@@ -0,0 +1,193 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { FIELD_TYPES, getFieldOptionsSchema, type FieldTypeName } from '../generators/index.js';
+import { WHERE_OPERATORS } from '../queries/suggestions/whereQuerySuggestions.js';
+import { getVariable, jsonContents } from './utils.js';
+
+interface FieldTypeInfo {
+    description: string;
+    docReference: string;
+    keyOptions: string[];
+    /** Field types that only affect the admin layout and store no data */
+    presentational?: boolean;
+}
+
+const FIELD_TYPE_INFO: Record<FieldTypeName, FieldTypeInfo> = {
+    text: {
+        description: 'Simple text input that saves a string.',
+        docReference: 'https://payloadcms.com/docs/fields/text',
+        keyOptions: ['minLength', 'maxLength', 'hasMany'],
+    },
+    textarea: {
+        description: 'Multi-line text input that saves a string.',
+        docReference: 'https://payloadcms.com/docs/fields/textarea',
+        keyOptions: ['minLength', 'maxLength'],
+    },
+    number: {
+        description: 'Numeric input that saves a number, or an array of numbers with hasMany.',
+        docReference: 'https://payloadcms.com/docs/fields/number',
+        keyOptions: ['min', 'max', 'hasMany'],
+    },
+    email: {
+        description: 'Text input validated as an email address.',
+        docReference: 'https://payloadcms.com/docs/fields/email',
+        keyOptions: [],
+    },
+    code: {
+        description: 'Code editor that saves a string.',
+        docReference: 'https://payloadcms.com/docs/fields/code',
+        keyOptions: ['language'],
+    },
+    json: {
+        description: 'JSON editor that saves arbitrary JSON, optionally validated against a JSON Schema.',
+        docReference: 'https://payloadcms.com/docs/fields/json',
+        keyOptions: ['jsonSchema'],
+    },
+    date: {
+        description: 'Date picker that saves an ISO date string.',
+        docReference: 'https://payloadcms.com/docs/fields/date',
+        keyOptions: ['format', 'timeFormat'],
+    },
+    point: {
+        description: 'Geographic coordinate saved as [longitude, latitude] with a 2dsphere index.',
+        docReference: 'https://payloadcms.com/docs/fields/point',
+        keyOptions: [],
+    },
+    select: {
+        description: 'Dropdown of predefined options that saves one value, or many with hasMany.',
+        docReference: 'https://payloadcms.com/docs/fields/select',
+        keyOptions: ['options', 'hasMany'],
+    },
+    radio: {
+        description: 'Radio group of predefined options that saves one value.',
+        docReference: 'https://payloadcms.com/docs/fields/radio',
+        keyOptions: ['options'],
+    },
+    checkbox: {
+        description: 'Boolean toggle.',
+        docReference: 'https://payloadcms.com/docs/fields/checkbox',
+        keyOptions: [],
+    },
+    richText: {
+        description: 'Rich text editor, Lexical by default.',
+        docReference: 'https://payloadcms.com/docs/fields/rich-text',
+        keyOptions: ['editor'],
+    },
+    relationship: {
+        description: 'Reference to one or more documents in other collections.',
+        docReference: 'https://payloadcms.com/docs/fields/relationship',
+        keyOptions: ['relationTo', 'hasMany', 'filterOptions', 'maxDepth'],
+    },
+    array: {
+        description: 'Repeatable set of rows sharing the same sub-fields.',
+        docReference: 'https://payloadcms.com/docs/fields/array',
+        keyOptions: ['fields', 'minRows', 'maxRows', 'labels'],
+    },
+    blocks: {
+        description: 'Repeatable rows where each row can use a different block layout.',
+        docReference: 'https://payloadcms.com/docs/fields/blocks',
+        keyOptions: ['blocks', 'minRows', 'maxRows'],
+    },
+    group: {
+        description: 'Nests sub-fields under a shared property name.',
+        docReference: 'https://payloadcms.com/docs/fields/group',
+        keyOptions: ['fields', 'interfaceName'],
+    },
+    tabs: {
+        description: 'Splits fields into tabs; named tabs nest their data like a group.',
+        docReference: 'https://payloadcms.com/docs/fields/tabs',
+        keyOptions: ['tabs'],
+        presentational: true,
+    },
+    row: {
+        description: 'Lays out sub-fields horizontally without affecting the data shape.',
+        docReference: 'https://payloadcms.com/docs/fields/row',
+        keyOptions: ['fields'],
+        presentational: true,
+    },
+    collapsible: {
+        description: 'Wraps sub-fields in a collapsible panel without affecting the data shape.',
+        docReference: 'https://payloadcms.com/docs/fields/collapsible',
+        keyOptions: ['label', 'fields'],
+        presentational: true,
+    },
+    upload: {
+        description: 'Reference to a document in an upload-enabled collection.',
+        docReference: 'https://payloadcms.com/docs/fields/upload',
+        keyOptions: ['relationTo', 'hasMany', 'filterOptions'],
+    },
+    ui: {
+        description: 'Custom admin component that stores no data.',
+        docReference: 'https://payloadcms.com/docs/fields/ui',
+        keyOptions: ['admin.components.Field'],
+        presentational: true,
+    },
+    join: {
+        description: 'Virtual field listing documents that reference this one through a relationship or upload field.',
+        docReference: 'https://payloadcms.com/docs/fields/join',
+        keyOptions: ['from', 'foreignField', 'defaultLimit', 'defaultSort'],
+    },
+};
+
+function getOperators(type: FieldTypeName): string[] {
+    if (FIELD_TYPE_INFO[type].presentational) {
+        return [];
+    }
+
+    return WHERE_OPERATORS
+        .filter((operator) => operator.fieldTypes.includes('*') || operator.fieldTypes.includes(type))
+        .map((operator) => operator.name);
+}
+
+export function registerFieldResources(server: McpServer) {
+    server.resource(
+        'field-types',
+        'payload://fields',
+        {
+            description: 'Catalog of Payload field types with their key options and documentation links',
+            mimeType: 'application/json',
+        },
+        async (uri) => jsonContents(uri, {
+            docReference: 'https://payloadcms.com/docs/fields/overview',
+            fields: FIELD_TYPES.map((type) => ({
+                type,
+                ...FIELD_TYPE_INFO[type],
+                uri: `payload://fields/${type}`,
+            })),
+        })
+    );
+
+    server.resource(
+        'field-type',
+        new ResourceTemplate('payload://fields/{type}', {
+            list: async () => ({
+                resources: FIELD_TYPES.map((type) => ({
+                    uri: `payload://fields/${type}`,
+                    name: `${type} field`,
+                    description: FIELD_TYPE_INFO[type].description,
+                    mimeType: 'application/json',
+                })),
+            }),
+            complete: {
+                type: (value) => FIELD_TYPES.filter((type) => type.startsWith(value)),
+            },
+        }),
+        {
+            description: 'Description, query operators and option schema of a single Payload field type',
+            mimeType: 'application/json',
+        },
+        async (uri, variables) => {
+            const type = getVariable(variables, 'type') as FieldTypeName;
+            if (!FIELD_TYPES.includes(type)) {
+                throw new Error(`Unknown field type: ${type}`);
+            }
+
+            return jsonContents(uri, {
+                type,
+                ...FIELD_TYPE_INFO[type],
+                operators: getOperators(type),
+                optionsSchema: zodToJsonSchema(getFieldOptionsSchema(type)),
+            });
+        }
+    );
+}
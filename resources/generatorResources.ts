@@ -0,0 +1,54 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { fieldGeneratorOptionsSchema, generatorOptionSchemas, type GeneratorType } from '../generators/index.js';
+import { getVariable, jsonContents } from './utils.js';
+
+const GENERATOR_TYPES = Object.keys(generatorOptionSchemas) as GeneratorType[];
+
+export function registerGeneratorResources(server: McpServer) {
+    server.resource(
+        'generators',
+        'payload://generators',
+        {
+            description: 'Code generators available through the generate_* tools',
+            mimeType: 'application/json',
+        },
+        async (uri) => jsonContents(uri, {
+            generators: GENERATOR_TYPES.map((type) => ({
+                type,
+                uri: `payload://generators/${type}`,
+            })),
+        })
+    );
+
+    server.resource(
+        'generator-options',
+        new ResourceTemplate('payload://generators/{type}', {
+            list: async () => ({
+                resources: GENERATOR_TYPES.map((type) => ({
+                    uri: `payload://generators/${type}`,
+                    name: `${type} generator options`,
+                    mimeType: 'application/json',
+                })),
+            }),
+            complete: {
+                type: (value) => GENERATOR_TYPES.filter((type) => type.startsWith(value)),
+            },
+        }),
+        {
+            description: 'JSON Schema of the options accepted by a generator',
+            mimeType: 'application/json',
+        },
+        async (uri, variables) => {
+            const type = getVariable(variables, 'type') as GeneratorType;
+            if (!GENERATOR_TYPES.includes(type)) {
+                throw new Error(`Unknown generator type: ${type}`);
+            }
+
+            return jsonContents(uri, zodToJsonSchema(generatorOptionSchemas[type], {
+                name: `${type}Options`,
+                definitions: type === 'field' ? {} : { fieldOptions: fieldGeneratorOptionsSchema },
+            }));
+        }
+    );
+}
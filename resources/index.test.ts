@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+    registerFieldResources,
+    registerGeneratorResources,
+    registerQueryResources,
+    registerValidationResources,
+} from './index.js';
+
+async function connect() {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerFieldResources(server);
+    registerGeneratorResources(server);
+    registerQueryResources(server);
+    registerValidationResources(server);
+
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+}
+
+async function readJson(client: Client, uri: string) {
+    const { contents } = await client.readResource({ uri });
+    expect(contents).toEqual([expect.objectContaining({ uri, mimeType: 'application/json' })]);
+    return JSON.parse(contents[0].text as string);
+}
+
+describe('payload:// resources', () => {
+    test('lists the static resources and the templates', async () => {
+        const client = await connect();
+        const { resourceTemplates } = await client.listResourceTemplates();
+
+        expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+            'payload://fields/{type}',
+            'payload://generators/{type}',
+            'payload://queries/{queryType}',
+            'payload://validation/rules/{componentType}',
+        ]);
+        const { resources } = await client.listResources();
+        const uris = resources.map((resource) => resource.uri);
+        expect(uris).toEqual(expect.arrayContaining([
+            'payload://fields',
+            'payload://fields/text',
+            'payload://generators',
+            'payload://generators/collection',
+            'payload://queries/operators',
+            'payload://queries/where',
+            'payload://validation/rules',
+            'payload://validation/rules/collection',
+        ]));
+    });
+
+    test('reads every listed resource as JSON', async () => {
+        const client = await connect();
+        const { resources } = await client.listResources();
+
+        for (const { uri } of resources) {
+            expect(await readJson(client, uri)).toBeInstanceOf(Object);
+        }
+    });
+
+    test('describes a resource per template variable', async () => {
+        const client = await connect();
+
+        expect(await readJson(client, 'payload://fields/number')).toMatchObject({
+            type: 'number',
+            operators: expect.arrayContaining(['greater_than']),
+            optionsSchema: expect.objectContaining({ type: 'object' }),
+        });
+        expect(await readJson(client, 'payload://generators/hook')).toMatchObject({ $ref: '#/definitions/hookOptions' });
+        expect(await readJson(client, 'payload://queries/sort')).toMatchObject({ queryType: 'sort', suggestions: expect.any(Array) });
+        expect(await readJson(client, 'payload://validation/rules/field')).toMatchObject({
+            componentType: 'field',
+            rules: expect.arrayContaining([expect.objectContaining({ category: 'bestPractices' })]),
+        });
+    });
+
+    test('rejects unknown template values', async () => {
+        const client = await connect();
+
+        await expect(client.readResource({ uri: 'payload://fields/nope' })).rejects.toThrow('Unknown field type: nope');
+        await expect(client.readResource({ uri: 'payload://generators/nope' })).rejects.toThrow('Unknown generator type: nope');
+        await expect(client.readResource({ uri: 'payload://queries/nope' })).rejects.toThrow('Unknown query type: nope');
+        await expect(client.readResource({ uri: 'payload://validation/rules/nope' })).rejects.toThrow('Unknown component type: nope');
+    });
+});
@@ -0,0 +1,4 @@
+export { registerFieldResources } from './fieldResources.js';
+export { registerGeneratorResources } from './generatorResources.js';
+export { registerQueryResources } from './queryResources.js';
+export { registerValidationResources } from './validationResources.js';
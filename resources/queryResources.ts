@@ -0,0 +1,53 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getSuggestionsByQueryType } from '../queries/getQuerySuggestions.js';
+import { WHERE_OPERATORS } from '../queries/suggestions/whereQuerySuggestions.js';
+import type { QueryType } from '../queries/types.js';
+import { getVariable, jsonContents } from './utils.js';
+
+const QUERY_TYPES: QueryType[] = ['where', 'sort', 'select', 'depth', 'pagination', 'populate', 'general'];
+
+export function registerQueryResources(server: McpServer) {
+    server.resource(
+        'query-operators',
+        'payload://queries/operators',
+        {
+            description: 'Operators available in Payload where queries and the field types they apply to',
+            mimeType: 'application/json',
+        },
+        async (uri) => jsonContents(uri, {
+            docReference: 'https://payloadcms.com/docs/queries/overview',
+            operators: WHERE_OPERATORS,
+        })
+    );
+
+    server.resource(
+        'query-guide',
+        new ResourceTemplate('payload://queries/{queryType}', {
+            list: async () => ({
+                resources: QUERY_TYPES.map((queryType) => ({
+                    uri: `payload://queries/${queryType}`,
+                    name: `${queryType} queries`,
+                    mimeType: 'application/json',
+                })),
+            }),
+            complete: {
+                queryType: (value) => QUERY_TYPES.filter((queryType) => queryType.startsWith(value)),
+            },
+        }),
+        {
+            description: 'Best practices and examples for a Payload query type',
+            mimeType: 'application/json',
+        },
+        async (uri, variables) => {
+            const queryType = getVariable(variables, 'queryType') as QueryType;
+            if (!QUERY_TYPES.includes(queryType)) {
+                throw new Error(`Unknown query type: ${queryType}`);
+            }
+
+            return jsonContents(uri, {
+                queryType,
+                suggestions: await getSuggestionsByQueryType(queryType),
+            });
+        }
+    );
+}
@@ -0,0 +1,26 @@
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Wrap a value as the JSON contents of a resource read
+ */
+export function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+    return {
+        contents: [{
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(data, null, 2),
+        }],
+    };
+}
+
+/**
+ * Read a single template variable, rejecting missing or repeated values
+ */
+export function getVariable(variables: Record<string, string | string[]>, name: string): string {
+    const value = variables[name];
+    if (typeof value !== 'string' || !value) {
+        throw new Error(`Missing resource variable: ${name}`);
+    }
+
+    return decodeURIComponent(value);
+}
@@ -0,0 +1,72 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { COMPONENT_TYPES, getValidationRules, projectRules, type ComponentType, type ValidationRule } from '../validator/index.js';
+import { getVariable, jsonContents } from './utils.js';
+
+function describeRules(category: string, rules: ValidationRule[]) {
+    return rules.map((rule) => ({
+        id: rule.id,
+        category,
+        ...rule.issue,
+        fixable: Boolean(rule.fix),
+    }));
+}
+
+function getRuleCatalog(componentType: ComponentType) {
+    const rules = getValidationRules(componentType);
+
+    return [
+        ...describeRules('bestPractices', rules.bestPractices),
+        ...describeRules('security', rules.security),
+        ...describeRules('performance', rules.performance),
+    ];
+}
+
+export function registerValidationResources(server: McpServer) {
+    server.resource(
+        'validation-rules',
+        'payload://validation/rules',
+        {
+            description: 'Every best-practice, security and performance rule checked by validate_code, and the cross-file rules of validate_project',
+            mimeType: 'application/json',
+        },
+        async (uri) => jsonContents(uri, {
+            componentTypes: COMPONENT_TYPES.map((componentType) => ({
+                componentType,
+                uri: `payload://validation/rules/${componentType}`,
+                rules: getRuleCatalog(componentType),
+            })),
+            projectRules: projectRules.map((rule) => ({ id: rule.id, ...rule.issue })),
+        })
+    );
+
+    server.resource(
+        'validation-rules-by-component',
+        new ResourceTemplate('payload://validation/rules/{componentType}', {
+            list: async () => ({
+                resources: COMPONENT_TYPES.map((componentType) => ({
+                    uri: `payload://validation/rules/${componentType}`,
+                    name: `${componentType} validation rules`,
+                    mimeType: 'application/json',
+                })),
+            }),
+            complete: {
+                componentType: (value) => COMPONENT_TYPES.filter((componentType) => componentType.startsWith(value)),
+            },
+        }),
+        {
+            description: 'Validation rules checked for a single component type',
+            mimeType: 'application/json',
+        },
+        async (uri, variables) => {
+            const componentType = getVariable(variables, 'componentType') as ComponentType;
+            if (!(COMPONENT_TYPES as readonly string[]).includes(componentType)) {
+                throw new Error(`Unknown component type: ${componentType}`);
+            }
+
+            return jsonContents(uri, {
+                componentType,
+                rules: getRuleCatalog(componentType),
+            });
+        }
+    );
+}
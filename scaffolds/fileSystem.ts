@@ -2,7 +2,7 @@ import fs from "fs";
 import path from "path";
 import { ScaffoldOptions, ScaffoldError } from "./types.js";
 
-const createDirectory = (dirPath: string): ScaffoldError | null => {
+export const createDirectory = (dirPath: string): ScaffoldError | null => {
   try {
     if (fs.existsSync(dirPath) && !fs.statSync(dirPath).isDirectory()) {
       return {
@@ -25,7 +25,7 @@ const createDirectory = (dirPath: string): ScaffoldError | null => {
   }
 };
 
-const writeFile = (
+export const writeFile = (
   filePath: string,
   contents: string,
 ): ScaffoldError | null => {
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CONFIG_FILE_NAME, getDefaultServerConfig, loadServerConfig } from './config.js';
+
+describe('loadServerConfig', () => {
+    let cwd: string;
+
+    beforeEach(() => {
+        cwd = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-')));
+    });
+
+    afterEach(() => {
+        fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    function writeConfig(config: Record<string, unknown>, fileName = CONFIG_FILE_NAME) {
+        fs.writeFileSync(path.join(cwd, fileName), JSON.stringify(config));
+    }
+
+    test('falls back to the defaults', () => {
+        const config = loadServerConfig({ argv: [], env: {}, cwd });
+
+        expect(config).toMatchObject({ transport: 'stdio', port: 3001, host: '127.0.0.1', projectRoot: cwd });
+        expect(config.tools).toEqual(getDefaultServerConfig().tools);
+    });
+
+    test('applies the config file, then environment variables, then flags', () => {
+        writeConfig({ transport: 'sse', port: 4000, host: '0.0.0.0', tools: ['generator'], defaults: { database: 'postgres' } });
+
+        const fromFile = loadServerConfig({ argv: [], env: {}, cwd });
+        expect(fromFile).toMatchObject({ transport: 'sse', port: 4000, host: '0.0.0.0', tools: ['generator'], defaults: { database: 'postgres' } });
+
+        const fromEnv = loadServerConfig({ argv: [], env: { PAYLOAD_MCP_PORT: '5000', PAYLOAD_MCP_TOOLS: 'query, validator' }, cwd });
+        expect(fromEnv).toMatchObject({ transport: 'sse', port: 5000, tools: ['query', 'validator'] });
+
+        const fromFlags = loadServerConfig({
+            argv: ['--transport', 'http', '-p', '6000'],
+            env: { PAYLOAD_MCP_TRANSPORT: 'stdio', PAYLOAD_MCP_PORT: '5000' },
+            cwd,
+        });
+        expect(fromFlags).toMatchObject({ transport: 'http', port: 6000, host: '0.0.0.0' });
+    });
+
+    test('resolves project roots from the config file directory and the working directory', () => {
+        fs.mkdirSync(path.join(cwd, 'config'));
+        writeConfig({ projectRoot: '../app' }, path.join('config', 'mcp.json'));
+
+        expect(loadServerConfig({ argv: ['--config', 'config/mcp.json'], env: {}, cwd }).projectRoot).toBe(path.join(cwd, 'app'));
+        expect(loadServerConfig({ argv: ['--project-root', 'site'], env: {}, cwd }).projectRoot).toBe(path.join(cwd, 'site'));
+    });
+
+    test('reads the config file from the project root given on the command line', () => {
+        fs.mkdirSync(path.join(cwd, 'site'));
+        fs.writeFileSync(path.join(cwd, 'site', CONFIG_FILE_NAME), JSON.stringify({ port: 4000 }));
+
+        expect(loadServerConfig({ argv: ['--project-root', 'site'], env: {}, cwd }).port).toBe(4000);
+    });
+
+    test('reports every invalid setting', () => {
+        writeConfig({ port: 70000, tools: ['generator', 'nope'], unknown: true });
+
+        expect(() => loadServerConfig({ argv: [], env: {}, cwd })).toThrow(/Invalid server configuration:\n- port: .*\n- tools\.1: .*\n- Unrecognized key\(s\) in object: 'unknown'/);
+    });
+
+    test('rejects unreadable config files', () => {
+        fs.writeFileSync(path.join(cwd, CONFIG_FILE_NAME), '{ "port": ');
+
+        expect(() => loadServerConfig({ argv: [], env: {}, cwd })).toThrow(`Invalid JSON in config file ${path.join(cwd, CONFIG_FILE_NAME)}`);
+        expect(() => loadServerConfig({ argv: ['--config', 'missing.json'], env: {}, cwd })).toThrow('Failed to read config file');
+        expect(() => loadServerConfig({ argv: ['--unknown'], env: {}, cwd })).toThrow();
+    });
+});
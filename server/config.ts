@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+
+export const TRANSPORT_TYPES = ['stdio', 'sse', 'http'] as const;
+
+export type TransportType = typeof TRANSPORT_TYPES[number];
+
+export const TOOL_GROUPS = ['generator', 'query', 'scaffold', 'validator'] as const;
+
+export type ToolGroup = typeof TOOL_GROUPS[number];
+
+export const CONFIG_FILE_NAME = 'payload-mcp.config.json';
+
+export const serverConfigSchema = z.object({
+    name: z.string().min(1).default('Payload CMS MCP'),
+    version: z.string().min(1).default('0.1.0'),
+    transport: z.enum(TRANSPORT_TYPES).default('stdio'),
+    port: z.coerce.number().int().min(1).max(65535).default(3001),
+    host: z.string().min(1).default('127.0.0.1'),
+    projectRoot: z.string().min(1).default('.').transform((projectRoot) => path.resolve(projectRoot)),
+    tools: z.array(z.enum(TOOL_GROUPS)).default([...TOOL_GROUPS]),
+    /** Import the rule plugins named in the project root's `.payload-mcp-rules.json`; they run inside the server */
+    rulePlugins: z.boolean().default(false),
+    sessions: z.object({
+        maxSessions: z.number().int().positive().optional(),
+        idleTimeoutMs: z.number().int().nonnegative().optional(),
+    }).strict().default({}),
+    security: z.object({
+        authToken: z.string().min(1).optional(),
+        allowedOrigins: z.array(z.string().min(1)).optional(),
+        allowedHosts: z.array(z.string().min(1)).optional(),
+    }).strict().default({}),
+    defaults: z.object({
+        database: z.enum(['mongodb', 'postgres']).optional(),
+        typescript: z.boolean().optional(),
+    }).strict().default({}),
+}).strict();
+
+export type ServerConfigInput = z.input<typeof serverConfigSchema>;
+
+export type ServerConfig = z.output<typeof serverConfigSchema>;
+
+export interface LoadServerConfigOptions {
+    argv?: string[];
+    env?: NodeJS.ProcessEnv;
+    cwd?: string;
+}
+
+/**
+ * Build a server config from defaults only
+ */
+export function getDefaultServerConfig(): ServerConfig {
+    return serverConfigSchema.parse({});
+}
+
+function parseList(value: string): string[] {
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+function removeUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(value).filter(([, entry]) => entry !== undefined)
+    ) as Partial<T>;
+}
+
+function readConfigFile(configPath: string): Record<string, any> {
+    let contents: string;
+
+    try {
+        contents = fs.readFileSync(configPath, 'utf8');
+    } catch (error) {
+        throw new Error(`Failed to read config file ${configPath}: ${(error as Error).message}`);
+    }
+
+    let fileConfig: unknown;
+    try {
+        fileConfig = JSON.parse(contents);
+    } catch (error) {
+        throw new Error(`Invalid JSON in config file ${configPath}: ${(error as Error).message}`);
+    }
+
+    if (!fileConfig || typeof fileConfig !== 'object' || Array.isArray(fileConfig)) {
+        throw new Error(`Config file ${configPath} must contain a JSON object`);
+    }
+
+    const config = fileConfig as Record<string, any>;
+    if (typeof config.projectRoot === 'string') {
+        config.projectRoot = path.resolve(path.dirname(configPath), config.projectRoot);
+    }
+
+    return config;
+}
+
+/**
+ * Load the server configuration. Sources are applied in increasing order of precedence:
+ * defaults, `payload-mcp.config.json`, `PAYLOAD_MCP_*` environment variables, then CLI flags.
+ *
+ * @param options - Argument, environment and working directory overrides (defaults to the current process)
+ * @returns The validated server configuration
+ */
+export function loadServerConfig(options: LoadServerConfigOptions = {}): ServerConfig {
+    const {
+        argv = process.argv.slice(2),
+        env = process.env,
+        cwd = process.cwd(),
+    } = options;
+
+    const { values: flags } = parseArgs({
+        args: argv,
+        options: {
+            config: { type: 'string', short: 'c' },
+            transport: { type: 'string', short: 't' },
+            port: { type: 'string', short: 'p' },
+            host: { type: 'string' },
+            tools: { type: 'string' },
+            'project-root': { type: 'string' },
+            'rule-plugins': { type: 'boolean' },
+        },
+        strict: true,
+        allowPositionals: false,
+    });
+
+    const projectRootOverride = flags['project-root'] ?? env.PAYLOAD_MCP_PROJECT_ROOT;
+    const configPath = flags.config ?? env.PAYLOAD_MCP_CONFIG;
+    const defaultConfigPath = path.join(path.resolve(cwd, projectRootOverride ?? '.'), CONFIG_FILE_NAME);
+
+    let fileConfig: Record<string, any> = {};
+    if (configPath) {
+        fileConfig = readConfigFile(path.resolve(cwd, configPath));
+    } else if (fs.existsSync(defaultConfigPath)) {
+        fileConfig = readConfigFile(defaultConfigPath);
+    }
+
+    const envConfig = removeUndefined({
+        transport: env.PAYLOAD_MCP_TRANSPORT,
+        port: env.PAYLOAD_MCP_PORT,
+        host: env.PAYLOAD_MCP_HOST,
+        tools: env.PAYLOAD_MCP_TOOLS !== undefined ? parseList(env.PAYLOAD_MCP_TOOLS) : undefined,
+        projectRoot: env.PAYLOAD_MCP_PROJECT_ROOT && path.resolve(cwd, env.PAYLOAD_MCP_PROJECT_ROOT),
+    });
+
+    const flagConfig = removeUndefined({
+        transport: flags.transport,
+        port: flags.port,
+        host: flags.host,
+        tools: flags.tools !== undefined ? parseList(flags.tools) : undefined,
+        projectRoot: flags['project-root'] && path.resolve(cwd, flags['project-root']),
+        rulePlugins: flags['rule-plugins'],
+    });
+
+    const envSecurity = removeUndefined({
+        authToken: env.PAYLOAD_MCP_AUTH_TOKEN,
+        allowedOrigins: env.PAYLOAD_MCP_ALLOWED_ORIGINS !== undefined ? parseList(env.PAYLOAD_MCP_ALLOWED_ORIGINS) : undefined,
+        allowedHosts: env.PAYLOAD_MCP_ALLOWED_HOSTS !== undefined ? parseList(env.PAYLOAD_MCP_ALLOWED_HOSTS) : undefined,
+    });
+
+    const result = serverConfigSchema.safeParse({
+        ...fileConfig,
+        ...envConfig,
+        ...flagConfig,
+        security: { ...fileConfig.security, ...envSecurity },
+        projectRoot: flagConfig.projectRoot ?? envConfig.projectRoot ?? fileConfig.projectRoot ?? cwd,
+    });
+
+    if (!result.success) {
+        const details = result.error.issues
+            .map((issue) => `- ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`)
+            .join('\n');
+        throw new Error(`Invalid server configuration:\n${details}`);
+    }
+
+    return result.data;
+}
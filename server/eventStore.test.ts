@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createInMemoryEventStore } from './eventStore.js';
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+async function replay(store: ReturnType<typeof createInMemoryEventStore>, lastEventId: string) {
+    const sent: Array<[string, JSONRPCMessage]> = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+        send: async (eventId, sentMessage) => {
+            sent.push([eventId, sentMessage]);
+        },
+    });
+    return { streamId, sent };
+}
+
+describe('createInMemoryEventStore', () => {
+    test('replays the later events of the same stream', async () => {
+        const store = createInMemoryEventStore();
+        const first = await store.storeEvent('a', message(1));
+        const second = await store.storeEvent('a', message(2));
+        await store.storeEvent('b', message(3));
+        const fourth = await store.storeEvent('a', message(4));
+
+        expect(await replay(store, first)).toEqual({ streamId: 'a', sent: [[second, message(2)], [fourth, message(4)]] });
+        expect(await replay(store, fourth)).toEqual({ streamId: 'a', sent: [] });
+    });
+
+    test('evicts the oldest events beyond the limit', async () => {
+        const store = createInMemoryEventStore(2);
+        const first = await store.storeEvent('a', message(1));
+        const second = await store.storeEvent('a', message(2));
+        const third = await store.storeEvent('a', message(3));
+
+        expect(await replay(store, first)).toEqual({ streamId: '', sent: [] });
+        expect(await replay(store, second)).toEqual({ streamId: 'a', sent: [[third, message(3)]] });
+    });
+
+    test('ignores unknown event ids', async () => {
+        const store = createInMemoryEventStore();
+        await store.storeEvent('a', message(1));
+
+        expect(await replay(store, 'a_missing')).toEqual({ streamId: '', sent: [] });
+    });
+});
@@ -0,0 +1,54 @@
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from 'crypto';
+
+interface StoredEvent {
+    streamId: StreamId;
+    message: JSONRPCMessage;
+}
+
+/**
+ * Create an in-memory event store so Streamable HTTP clients can resume a
+ * dropped stream with the `Last-Event-ID` header.
+ * Only the most recent `maxEvents` messages are kept.
+ *
+ * @param maxEvents - Maximum number of events retained before the oldest are evicted
+ * @returns An EventStore scoped to a single session
+ */
+export function createInMemoryEventStore(maxEvents = 1000): EventStore {
+    const events = new Map<EventId, StoredEvent>();
+
+    return {
+        async storeEvent(streamId, message) {
+            const eventId = `${streamId}_${randomUUID()}`;
+            events.set(eventId, { streamId, message });
+
+            while (events.size > maxEvents) {
+                const oldestEventId = events.keys().next().value as EventId;
+                events.delete(oldestEventId);
+            }
+
+            return eventId;
+        },
+
+        async replayEventsAfter(lastEventId, { send }) {
+            const lastEvent = events.get(lastEventId);
+            if (!lastEvent) {
+                return '';
+            }
+
+            let found = false;
+            for (const [eventId, event] of events) {
+                if (eventId === lastEventId) {
+                    found = true;
+                    continue;
+                }
+                if (found && event.streamId === lastEvent.streamId) {
+                    await send(eventId, event.message);
+                }
+            }
+
+            return lastEvent.streamId;
+        },
+    };
+}
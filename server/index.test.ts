@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import express, { type Application } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { setupMcpServer, setupStreamableHttp } from './index.js';
+
+const servers: Server[] = [];
+
+function listen(app: Application): Promise<URL> {
+    return new Promise((resolve) => {
+        const server = app.listen(0, '127.0.0.1', () => {
+            resolve(new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+        });
+        servers.push(server);
+    });
+}
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => {
+        server.closeAllConnections();
+        return new Promise((resolve) => server.close(resolve));
+    }));
+});
+
+describe('SSE transport', () => {
+    test('serves the Payload tools to an SSE client', async () => {
+        const app = express();
+        setupMcpServer(app);
+        const url = await listen(app);
+
+        const client = new Client({ name: 'test-client', version: '0.0.0' });
+        await client.connect(new SSEClientTransport(new URL('/sse', url)));
+        const { tools } = await client.listTools();
+
+        expect(tools.map((tool) => tool.name)).toEqual(expect.arrayContaining(['generate_template', 'process_query', 'scaffold_project', 'validate_code']));
+        await client.close();
+    });
+
+    test('rejects messages for unknown sessions', async () => {
+        const app = express();
+        setupMcpServer(app);
+        const url = await listen(app);
+
+        const response = await fetch(new URL('/messages?sessionId=missing', url), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+        });
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: 'Session not found' });
+    });
+});
+
+describe('Streamable HTTP transport', () => {
+    test('keeps a session until the client deletes it', async () => {
+        const app = express();
+        setupStreamableHttp(app);
+        const url = await listen(app);
+
+        const transport = new StreamableHTTPClientTransport(new URL('/mcp', url));
+        const client = new Client({ name: 'test-client', version: '0.0.0' });
+        await client.connect(transport);
+        const sessionId = transport.sessionId;
+
+        expect(sessionId).toEqual(expect.any(String));
+        expect((await client.listTools()).tools.map((tool) => tool.name)).toContain('validate_code');
+
+        await transport.terminateSession();
+        const response = await fetch(new URL('/mcp', url), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId! },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        });
+
+        expect(response.status).toBe(404);
+        await client.close();
+    });
+
+    test('requires a session id except to initialize', async () => {
+        const app = express();
+        setupStreamableHttp(app);
+        const url = await listen(app);
+
+        const post = await fetch(new URL('/mcp', url), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        });
+        expect(post.status).toBe(400);
+        expect(await post.json()).toEqual({ error: 'Missing Mcp-Session-Id header' });
+
+        const get = await fetch(new URL('/mcp', url), { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'missing' } });
+        expect(get.status).toBe(404);
+    });
+});
+
+describe('session limits', () => {
+    test('reject new sessions beyond the limit and report them on /health', async () => {
+        const app = express();
+        const sessions = setupMcpServer(app, { maxSessions: 1 });
+        const url = await listen(app);
+
+        const client = new Client({ name: 'test-client', version: '0.0.0' });
+        await client.connect(new StreamableHTTPClientTransport(new URL('/mcp', url)));
+
+        const rejected = await fetch(new URL('/sse', url));
+        expect(rejected.status).toBe(503);
+        expect(await rejected.json()).toEqual({ error: 'Too many active sessions' });
+
+        const health = await fetch(new URL('/health', url));
+        expect(await health.json()).toMatchObject({ status: 'ok', sessions: { active: 1, byTransport: { sse: 0, http: 1 }, maxSessions: 1 } });
+
+        await client.close();
+        await sessions.closeAll();
+    });
+});
@@ -1,47 +1,247 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { Application } from 'express';
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from 'crypto';
+import express, { Application, ErrorRequestHandler, Request, RequestHandler, Response } from 'express';
+import { getDefaultServerConfig, type ServerConfig } from './config.js';
+import { createInMemoryEventStore } from './eventStore.js';
+import { createSecurityMiddleware } from './security.js';
+import { createSessionManager, type SessionManager, type SessionManagerOptions } from './sessionManager.js';
+import { registerWorkflowPrompts } from "../prompts/index.js";
+import {
+    registerFieldResources,
+    registerGeneratorResources,
+    registerQueryResources,
+    registerValidationResources,
+} from "../resources/index.js";
 import { registerGeneratorTools, registerQueryTools, registerScaffoldTools, registerValidatorTools } from "../tools/index.js";
 
+/**
+ * Create an McpServer with the `payload://` resources, workflow prompts and the tool groups enabled in the config registered
+ */
+export function createMcpServer(config: ServerConfig = getDefaultServerConfig()): McpServer {
+    const server = new McpServer({
+        name: config.name,
+        version: config.version
+    });
+
+    registerFieldResources(server);
+    registerGeneratorResources(server);
+    registerQueryResources(server);
+    registerValidationResources(server);
+
+    const context = { projectRoot: config.projectRoot, rulePlugins: config.rulePlugins, defaults: config.defaults };
 
-const server = new McpServer({
-    name: "Payload CMS MCP",
-    version: "0.1.0"
-});
+    registerWorkflowPrompts(server, context);
+
+    if (config.tools.includes('generator')) {
+        registerGeneratorTools(server, context);
+    }
+    if (config.tools.includes('query')) {
+        registerQueryTools(server, context);
+    }
+    if (config.tools.includes('scaffold')) {
+        registerScaffoldTools(server, context);
+    }
+    if (config.tools.includes('validator')) {
+        registerValidatorTools(server, context);
+    }
+
+    return server;
+}
+
+/**
+ * Guard endpoints with the security settings of a config. Without one, the embedding app decides
+ * where the server is reachable, so the Host header is not checked against the loopback hosts.
+ */
+function createGuard(config?: ServerConfig): RequestHandler {
+    return config ? createSecurityMiddleware(config.security, config.host) : createSecurityMiddleware();
+}
+
+/**
+ * Answer body errors on `/mcp`, such as malformed JSON, with a JSON-RPC error instead of Express's HTML error page
+ */
+const handleBodyError: ErrorRequestHandler = (error, req, res, next) => {
+    if (res.headersSent) {
+        next(error);
+        return;
+    }
+
+    const status: number = error.status ?? 500;
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: error.type === 'entity.parse.failed'
+            ? { code: -32700, message: 'Parse error' }
+            : { code: status < 500 ? -32600 : -32603, message: status < 500 ? error.message : 'Internal error' },
+        id: null,
+    });
+};
 
-registerGeneratorTools(server);
-registerQueryTools(server);
-registerScaffoldTools(server);
-registerValidatorTools(server);
+function rejectSessionLimit(res: Response) {
+    res.status(503).json({ error: 'Too many active sessions' });
+}
 
+/**
+ * Mount the legacy SSE endpoints: `GET /sse` opens a session and `POST /messages?sessionId=`
+ * delivers client messages to it. The session and its McpServer are closed when the stream ends.
+ */
+export function setupSseTransport(
+    app: Application,
+    sessions: SessionManager = createSessionManager(),
+    config?: ServerConfig
+) {
+    const guard = createGuard(config);
 
-const transports: { [sessionId: string]: SSEServerTransport } = {};
+    app.get('/sse', guard, async (req, res) => {
+        if (!sessions.hasCapacity()) {
+            rejectSessionLimit(res);
+            return;
+        }
 
-export function setupMcpServer(app: Application) {
-    app.get('/sse', async (req, res) => {
+        const server = createMcpServer(config);
         const transport = new SSEServerTransport('/messages', res);
-        transports[transport.sessionId] = transport;
+        sessions.add({ id: transport.sessionId, type: 'sse', server, transport });
         req.on('close', () => {
-            delete transports[transport.sessionId];
+            sessions.close(transport.sessionId).catch((error) => {
+                console.error(`Failed to close SSE session ${transport.sessionId}: ${(error as Error).message}`);
+            });
         });
         await server.connect(transport);
     });
 
-    app.post('/messages', async (req, res) => {
+    app.post('/messages', guard, async (req, res) => {
         const sessionId = req.query.sessionId as string;
-        const transport = transports[sessionId];
+        const session = sessions.get(sessionId);
 
-        if (!transport) {
+        if (!session || session.type !== 'sse') {
             res.status(404).json({ error: 'Session not found' });
             return;
         }
 
         try {
-            await transport.handlePostMessage(req, res);
+            await session.transport.handlePostMessage(req, res);
         } catch (error) {
             res.status(500).json({ error: 'Internal server error' });
         }
     });
 }
 
-export { server as mcpServer }; 
\ No newline at end of file
+/**
+ * Mount the Streamable HTTP endpoint on `/mcp`.
+ * Sessions are identified by the `Mcp-Session-Id` header, can be resumed with
+ * `Last-Event-ID` on `GET /mcp` and are torn down with `DELETE /mcp`.
+ */
+export function setupStreamableHttp(
+    app: Application,
+    sessions: SessionManager = createSessionManager(),
+    config?: ServerConfig
+) {
+    const guard = createGuard(config);
+
+    app.post('/mcp', guard, express.json(), async (req, res) => {
+        const sessionId = req.header('mcp-session-id');
+        let transport: StreamableHTTPServerTransport;
+
+        if (sessionId) {
+            const session = sessions.get(sessionId);
+            if (!session || session.type !== 'http') {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            transport = session.transport;
+        } else if (isInitializeRequest(req.body)) {
+            if (!sessions.hasCapacity()) {
+                rejectSessionLimit(res);
+                return;
+            }
+
+            const server = createMcpServer(config);
+            transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                eventStore: createInMemoryEventStore(),
+                onsessioninitialized: (newSessionId) => {
+                    sessions.add({ id: newSessionId, type: 'http', server, transport });
+                },
+            });
+            server.server.onclose = () => {
+                if (transport.sessionId) {
+                    sessions.remove(transport.sessionId);
+                }
+            };
+            await server.connect(transport);
+        } else {
+            res.status(400).json({ error: 'Missing Mcp-Session-Id header' });
+            return;
+        }
+
+        try {
+            await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+            if (!res.headersSent) {
+                res.status(500).json({ error: 'Internal server error' });
+            }
+        }
+    });
+
+    const handleSessionRequest = async (req: Request, res: Response) => {
+        const sessionId = req.header('mcp-session-id');
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+
+        if (!session || session.type !== 'http') {
+            res.status(sessionId ? 404 : 400).json({
+                error: sessionId ? 'Session not found' : 'Missing Mcp-Session-Id header',
+            });
+            return;
+        }
+
+        try {
+            await session.transport.handleRequest(req, res);
+        } catch (error) {
+            if (!res.headersSent) {
+                res.status(500).json({ error: 'Internal server error' });
+            }
+        }
+    };
+
+    app.get('/mcp', guard, handleSessionRequest);
+    app.delete('/mcp', guard, handleSessionRequest);
+    app.use('/mcp', handleBodyError);
+}
+
+/**
+ * Expose session counts on `GET /health` for diagnostics
+ */
+export function setupDiagnostics(
+    app: Application,
+    sessions: SessionManager,
+    config?: ServerConfig
+) {
+    app.get('/health', createGuard(config), (req, res) => {
+        res.json({ status: 'ok', sessions: sessions.getStats() });
+    });
+}
+
+export interface McpServerOptions extends SessionManagerOptions {
+    config?: ServerConfig;
+}
+
+/**
+ * Mount both the legacy SSE endpoints and the Streamable HTTP endpoint on an existing Express app
+ *
+ * @returns The session manager tracking every connected client
+ */
+export function setupMcpServer(app: Application, options: McpServerOptions = {}): SessionManager {
+    const { config, ...sessionOptions } = options;
+    const sessions = createSessionManager({ ...config?.sessions, ...sessionOptions });
+
+    setupSseTransport(app, sessions, config);
+    setupStreamableHttp(app, sessions, config);
+    setupDiagnostics(app, sessions, config);
+
+    return sessions;
+}
+
+export * from './config.js';
+export * from './security.js';
+export * from './sessionManager.js';
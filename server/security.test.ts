@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import express, { type Application } from 'express';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { getDefaultServerConfig } from './config.js';
+import { createSecurityMiddleware, type SecurityOptions } from './security.js';
+import { setupMcpServer } from './index.js';
+
+interface TestResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+const servers: http.Server[] = [];
+
+function listen(app: Application): Promise<number> {
+    return new Promise((resolve) => {
+        const server = app.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+        servers.push(server);
+    });
+}
+
+function request(port: number, options: { method?: string; path?: string; headers?: http.OutgoingHttpHeaders; body?: string } = {}): Promise<TestResponse> {
+    const { method = 'GET', path = '/', headers = {}, body } = options;
+
+    return new Promise((resolve, reject) => {
+        const req = http.request({ host: '127.0.0.1', port, method, path, headers }, (res) => {
+            let text = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk) => { text += chunk; });
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: text ? JSON.parse(text) : undefined }));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+function guardedApp(options: SecurityOptions, bindHost?: string): Promise<number> {
+    const app = express();
+    app.get('/', createSecurityMiddleware(options, bindHost), (req, res) => {
+        res.json({ ok: true });
+    });
+    return listen(app);
+}
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+describe('createSecurityMiddleware', () => {
+    test('requires the configured bearer token', async () => {
+        const port = await guardedApp({ authToken: 'secret' });
+
+        const missing = await request(port);
+        expect(missing.status).toBe(401);
+        expect(missing.headers['www-authenticate']).toBe('Bearer');
+        expect(missing.body).toEqual({ error: 'Missing bearer token' });
+
+        const invalid = await request(port, { headers: { Authorization: 'Bearer wrong' } });
+        expect(invalid.status).toBe(401);
+        expect(invalid.body).toEqual({ error: 'Invalid bearer token' });
+
+        expect((await request(port, { headers: { Authorization: 'Bearer secret' } })).status).toBe(200);
+    });
+
+    test('only accepts loopback Host headers when bound to loopback', async () => {
+        const port = await guardedApp({}, '127.0.0.1');
+
+        const rebound = await request(port, { headers: { Host: 'attacker.example:3001' } });
+        expect(rebound.status).toBe(403);
+        expect(rebound.body).toEqual({ error: 'Host not allowed: attacker.example:3001' });
+
+        expect((await request(port, { headers: { Host: 'localhost:3001' } })).status).toBe(200);
+    });
+
+    test('accepts the configured Host allow-list', async () => {
+        const port = await guardedApp({ allowedHosts: ['mcp.internal'] }, '127.0.0.1');
+
+        expect((await request(port, { headers: { Host: 'mcp.internal' } })).status).toBe(200);
+        expect((await request(port, { headers: { Host: 'localhost' } })).status).toBe(403);
+    });
+
+    test('rejects browser origins outside the allow-list', async () => {
+        const loopbackOnly = await guardedApp({});
+        const rejected = await request(loopbackOnly, { headers: { Origin: 'https://attacker.example' } });
+        expect(rejected.status).toBe(403);
+        expect(rejected.body).toEqual({ error: 'Origin not allowed: https://attacker.example' });
+        expect((await request(loopbackOnly, { headers: { Origin: 'http://localhost:6274' } })).status).toBe(200);
+
+        const configured = await guardedApp({ allowedOrigins: ['https://app.example'] });
+        expect((await request(configured, { headers: { Origin: 'https://app.example' } })).status).toBe(200);
+        expect((await request(configured, { headers: { Origin: 'http://localhost:6274' } })).status).toBe(403);
+    });
+});
+
+describe('setupMcpServer security', () => {
+    test('leaves the Host header to embedders that pass no config', async () => {
+        const app = express();
+        const sessions = setupMcpServer(app);
+        const port = await listen(app);
+
+        expect((await request(port, { path: '/health', headers: { Host: 'mcp.example.com' } })).status).toBe(200);
+        await sessions.closeAll();
+    });
+
+    test('applies the security settings of a passed config', async () => {
+        const app = express();
+        const config = { ...getDefaultServerConfig(), security: { authToken: 'secret' } };
+        const sessions = setupMcpServer(app, { config });
+        const port = await listen(app);
+
+        expect((await request(port, { path: '/health', headers: { Host: 'mcp.example.com', Authorization: 'Bearer secret' } })).status).toBe(403);
+        expect((await request(port, { path: '/health' })).status).toBe(401);
+        expect((await request(port, { path: '/health', headers: { Authorization: 'Bearer secret' } })).status).toBe(200);
+        await sessions.closeAll();
+    });
+
+    test('answers malformed JSON on /mcp with a JSON-RPC parse error', async () => {
+        const app = express();
+        const sessions = setupMcpServer(app);
+        const port = await listen(app);
+
+        const response = await request(port, {
+            method: 'POST',
+            path: '/mcp',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+            body: '{"jsonrpc": "2.0",',
+        });
+
+        expect(response.status).toBe(400);
+        expect(response.body).toEqual({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null });
+        await sessions.closeAll();
+    });
+});
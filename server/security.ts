@@ -0,0 +1,91 @@
+import { timingSafeEqual } from 'crypto';
+import type { RequestHandler } from 'express';
+
+export interface SecurityOptions {
+    /** Require `Authorization: Bearer <authToken>` on every request when set */
+    authToken?: string;
+    /** Origins allowed to call the server. Defaults to loopback origins only */
+    allowedOrigins?: string[];
+    /** Host header values allowed to reach the server. Defaults to loopback hosts when bound to loopback */
+    allowedHosts?: string[];
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1'];
+
+export function isLoopbackHost(host: string): boolean {
+    return LOOPBACK_HOSTS.includes(host.toLowerCase());
+}
+
+function getHostname(hostHeader: string): string {
+    try {
+        return new URL(`http://${hostHeader}`).hostname.toLowerCase();
+    } catch {
+        return hostHeader.toLowerCase();
+    }
+}
+
+function isOriginAllowed(origin: string, allowedOrigins?: string[]): boolean {
+    if (allowedOrigins) {
+        return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+    }
+
+    try {
+        return isLoopbackHost(new URL(origin).hostname);
+    } catch {
+        return false;
+    }
+}
+
+function tokensMatch(expected: string, received: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const receivedBuffer = Buffer.from(received);
+
+    return expectedBuffer.length === receivedBuffer.length && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Create middleware guarding the MCP HTTP endpoints.
+ * Host and Origin checks defeat DNS-rebinding from browsers; the optional bearer
+ * token keeps other users on a shared machine out.
+ *
+ * @param options - Security settings
+ * @param bindHost - Host the server listens on, used to pick the default Host allow-list
+ * @returns Express middleware responding with 401/403 JSON errors
+ */
+export function createSecurityMiddleware(options: SecurityOptions = {}, bindHost?: string): RequestHandler {
+    const allowedHosts = options.allowedHosts?.map((host) => host.toLowerCase())
+        ?? (bindHost && isLoopbackHost(bindHost) ? LOOPBACK_HOSTS : undefined);
+
+    return (req, res, next) => {
+        if (allowedHosts) {
+            const hostname = getHostname(req.headers.host ?? '');
+            if (!allowedHosts.includes(hostname)) {
+                res.status(403).json({ error: `Host not allowed: ${req.headers.host ?? ''}` });
+                return;
+            }
+        }
+
+        const origin = req.headers.origin;
+        if (origin && !isOriginAllowed(origin, options.allowedOrigins)) {
+            res.status(403).json({ error: `Origin not allowed: ${origin}` });
+            return;
+        }
+
+        if (options.authToken) {
+            const authorization = req.headers.authorization ?? '';
+            const [scheme, token] = authorization.split(' ');
+
+            if (scheme?.toLowerCase() !== 'bearer' || !token) {
+                res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Missing bearer token' });
+                return;
+            }
+
+            if (!tokensMatch(options.authToken, token)) {
+                res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({ error: 'Invalid bearer token' });
+                return;
+            }
+        }
+
+        next();
+    };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, mock, test } from 'bun:test';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createSessionManager, type NewSession } from './sessionManager.js';
+
+function newSession(id: string): NewSession & { server: { close: ReturnType<typeof mock> } } {
+    const server = { close: mock(async () => {}) };
+    return {
+        id,
+        type: 'http',
+        server: server as unknown as McpServer,
+        transport: {} as StreamableHTTPServerTransport,
+    } as NewSession & { server: typeof server };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createSessionManager', () => {
+    test('tracks sessions up to the session limit', () => {
+        const sessions = createSessionManager({ maxSessions: 2 });
+
+        sessions.add(newSession('a'));
+        expect(sessions.hasCapacity()).toBe(true);
+        sessions.add(newSession('b'));
+        expect(sessions.hasCapacity()).toBe(false);
+
+        sessions.remove('a');
+        expect(sessions.hasCapacity()).toBe(true);
+        expect(sessions.get('a')).toBeUndefined();
+        expect(sessions.get('b')?.id).toBe('b');
+        expect(sessions.getStats()).toEqual({
+            active: 1,
+            byTransport: { sse: 0, http: 1 },
+            totalCreated: 2,
+            maxSessions: 2,
+            idleTimeoutMs: 30 * 60 * 1000,
+        });
+    });
+
+    test('closes sessions that stay idle', async () => {
+        const sessions = createSessionManager({ idleTimeoutMs: 200 });
+        const idle = newSession('idle');
+        const active = newSession('active');
+        sessions.add(idle);
+        sessions.add(active);
+
+        await sleep(120);
+        sessions.get('active');
+        await sleep(120);
+
+        expect(idle.server.close).toHaveBeenCalledTimes(1);
+        expect(active.server.close).not.toHaveBeenCalled();
+        expect(sessions.getStats().active).toBe(1);
+        await sessions.closeAll();
+    });
+
+    test('never expires sessions when the idle timeout is 0', async () => {
+        const sessions = createSessionManager({ idleTimeoutMs: 0 });
+        const session = newSession('a');
+        sessions.add(session);
+
+        await sleep(10);
+
+        expect(session.server.close).not.toHaveBeenCalled();
+        await sessions.closeAll();
+        expect(session.server.close).toHaveBeenCalledTimes(1);
+        expect(sessions.getStats().active).toBe(0);
+    });
+});
@@ -0,0 +1,146 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+export type SessionTransportType = 'sse' | 'http';
+
+interface SessionBase {
+    id: string;
+    server: McpServer;
+    createdAt: number;
+    lastActivityAt: number;
+}
+
+export type Session = SessionBase & (
+    | { type: 'sse'; transport: SSEServerTransport }
+    | { type: 'http'; transport: StreamableHTTPServerTransport }
+);
+
+export type NewSession = Omit<Session, 'createdAt' | 'lastActivityAt'>;
+
+export interface SessionManagerOptions {
+    /** Maximum number of concurrent sessions across all transports */
+    maxSessions?: number;
+    /** Close a session after this many milliseconds without a request */
+    idleTimeoutMs?: number;
+}
+
+export interface SessionStats {
+    active: number;
+    byTransport: Record<SessionTransportType, number>;
+    totalCreated: number;
+    maxSessions: number;
+    idleTimeoutMs: number;
+}
+
+export interface SessionManager {
+    hasCapacity(): boolean;
+    add(session: NewSession): Session;
+    get(sessionId: string): Session | undefined;
+    remove(sessionId: string): void;
+    close(sessionId: string): Promise<void>;
+    closeAll(): Promise<void>;
+    getStats(): SessionStats;
+}
+
+export const DEFAULT_MAX_SESSIONS = 100;
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Create a registry of live MCP sessions. Each session owns its own McpServer,
+ * so concurrent clients never share protocol state.
+ *
+ * @param options - Session limits
+ * @returns A session manager shared by the SSE and Streamable HTTP endpoints
+ */
+export function createSessionManager(options: SessionManagerOptions = {}): SessionManager {
+    const {
+        maxSessions = DEFAULT_MAX_SESSIONS,
+        idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+    } = options;
+
+    const transports = new Map<string, Session>();
+    const idleTimers = new Map<string, NodeJS.Timeout>();
+    let totalCreated = 0;
+
+    const scheduleIdleTimeout = (sessionId: string) => {
+        clearTimeout(idleTimers.get(sessionId));
+
+        if (idleTimeoutMs <= 0) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            close(sessionId).catch((error) => {
+                console.error(`Failed to close idle session ${sessionId}: ${(error as Error).message}`);
+            });
+        }, idleTimeoutMs);
+        timer.unref();
+        idleTimers.set(sessionId, timer);
+    };
+
+    const remove = (sessionId: string) => {
+        clearTimeout(idleTimers.get(sessionId));
+        idleTimers.delete(sessionId);
+        transports.delete(sessionId);
+    };
+
+    const close = async (sessionId: string) => {
+        const session = transports.get(sessionId);
+        if (!session) {
+            return;
+        }
+
+        remove(sessionId);
+        await session.server.close();
+    };
+
+    return {
+        hasCapacity() {
+            return transports.size < maxSessions;
+        },
+
+        add(newSession) {
+            const now = Date.now();
+            const session = { ...newSession, createdAt: now, lastActivityAt: now } as Session;
+
+            transports.set(session.id, session);
+            totalCreated++;
+            scheduleIdleTimeout(session.id);
+
+            return session;
+        },
+
+        get(sessionId) {
+            const session = transports.get(sessionId);
+            if (session) {
+                session.lastActivityAt = Date.now();
+                scheduleIdleTimeout(sessionId);
+            }
+            return session;
+        },
+
+        remove,
+
+        close,
+
+        async closeAll() {
+            await Promise.all([...transports.keys()].map(close));
+        },
+
+        getStats() {
+            const byTransport: Record<SessionTransportType, number> = { sse: 0, http: 0 };
+            for (const session of transports.values()) {
+                byTransport[session.type]++;
+            }
+
+            return {
+                active: transports.size,
+                byTransport,
+                totalCreated,
+                maxSessions,
+                idleTimeoutMs,
+            };
+        },
+    };
+}
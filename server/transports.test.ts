@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { spawnSync } from 'child_process';
+import path from 'path';
+
+const entryPoint = path.join(import.meta.dir, '..', 'index.ts');
+
+describe('CLI entry point', () => {
+    test('serves MCP over stdio by default', async () => {
+        const transport = new StdioClientTransport({ command: process.execPath, args: [entryPoint], stderr: 'pipe' });
+        const client = new Client({ name: 'test-client', version: '0.0.0' });
+
+        await client.connect(transport);
+        const { tools } = await client.listTools();
+
+        expect(tools.map((tool) => tool.name)).toContain('validate_code');
+        await client.close();
+    });
+
+    test('exits with an error for an unknown transport', () => {
+        const result = spawnSync(process.execPath, [entryPoint, '--transport', 'carrier-pigeon'], { encoding: 'utf8', timeout: 30000 });
+
+        expect(result.status).toBe(1);
+        expect(result.stderr).toContain('Failed to start Payload MCP server');
+        expect(result.stderr).toContain('transport');
+    });
+});
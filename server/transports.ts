@@ -0,0 +1,41 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import express from 'express';
+import type { Server } from 'http';
+import type { ServerConfig } from './config.js';
+import { createMcpServer, setupDiagnostics, setupSseTransport, setupStreamableHttp } from './index.js';
+import { isLoopbackHost } from './security.js';
+import { createSessionManager } from './sessionManager.js';
+
+/**
+ * Serve MCP over stdin/stdout. Logging must go to stderr so it never corrupts the protocol stream.
+ */
+export async function startStdioServer(config: ServerConfig): Promise<void> {
+    const server = createMcpServer(config);
+    const transport = new StdioServerTransport();
+
+    await server.connect(transport);
+    console.error('Payload MCP server running on stdio');
+}
+
+/**
+ * Start an Express app serving either the legacy SSE endpoints or the Streamable HTTP endpoint,
+ * depending on `config.transport`
+ */
+export function startHttpServer(config: ServerConfig): Server {
+    const app = express();
+    const sessions = createSessionManager(config.sessions);
+
+    if (config.transport === 'sse') {
+        setupSseTransport(app, sessions, config);
+    } else {
+        setupStreamableHttp(app, sessions, config);
+    }
+    setupDiagnostics(app, sessions, config);
+
+    return app.listen(config.port, config.host, () => {
+        console.log(`Server running on ${config.host}:${config.port} (${config.transport})`);
+        if (!config.security.authToken && !isLoopbackHost(config.host)) {
+            console.warn('Warning: listening on a non-loopback host without PAYLOAD_MCP_AUTH_TOKEN set');
+        }
+    });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { registerGeneratorTools } from './generatorTools.js';
+
+async function connect(projectRoot = process.cwd()) {
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  registerGeneratorTools(server, { projectRoot, defaults: {} });
+
+  const client = new Client({ name: 'test-client', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+const getText = (result: Awaited<ReturnType<Client['callTool']>>, index = 0) =>
+  (result.content as Array<{ type: string; text: string }>)[index].text;
+
+describe('generator tools', () => {
+  test('publish the option schema with its required properties', async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+    const endpoint = tools.find((tool) => tool.name === 'generate_endpoint');
+
+    expect(endpoint?.inputSchema.required).toEqual(['path', 'method']);
+    expect(endpoint?.inputSchema.properties?.method).toMatchObject({ enum: expect.arrayContaining(['get', 'post']) });
+  });
+
+  test('return structured errors for options that do not match the schema', async () => {
+    const client = await connect();
+    const result = await client.callTool({
+      name: 'generate_collection',
+      arguments: { slug: 'posts', fields: [{ name: 'title', type: 'txt' }], timestamps: 'yes' },
+    });
+
+    expect(result.isError).toBe(true);
+    const { success, errors } = JSON.parse(getText(result));
+    expect(success).toBe(false);
+    expect(errors.map((error: { field?: string }) => error.field)).toEqual(['fields.0.type', 'timestamps']);
+    expect(errors[0].code).toBe('INVALID_OPTION_INVALID_UNION_DISCRIMINATOR');
+  });
+
+  test('report missing required options', async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: 'generate_endpoint', arguments: { method: 'fetch' } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(getText(result)).errors.map((error: { field?: string }) => error.field)).toEqual(['path', 'method']);
+  });
+
+  test('generate code from valid options', async () => {
+    const client = await connect();
+    const result = await client.callTool({
+      name: 'generate_collection',
+      arguments: { slug: 'posts', fields: [{ name: 'title', type: 'text' }], access: { read: '() => true' } },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(getText(result))).toMatchObject({ type: 'collection' });
+    expect(getText(result, 1)).toContain('read: () => true');
+  });
+
+  test('write_generated rejects project roots outside the server project root', async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-'));
+    try {
+      const projectRoot = path.join(tmp, 'project');
+      fs.mkdirSync(projectRoot);
+      const client = await connect(projectRoot);
+
+      for (const outside of ['..', tmp]) {
+        const result = await client.callTool({
+          name: 'write_generated',
+          arguments: { type: 'collection', code: 'export {};\n', path: 'posts.ts', projectRoot: outside },
+        });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(getText(result)).errors).toEqual([expect.objectContaining({ code: 'FS_PATH_OUTSIDE_ROOT', field: 'projectRoot' })]);
+      }
+      expect(fs.readdirSync(tmp)).toEqual(['project']);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,10 +1,219 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { z } from 'zod';
-import { getGenerator, GeneratorType } from '../generators/index.js';
+import { z, type ZodRawShape } from 'zod';
+import {
+  accessControlGeneratorOptionsSchema,
+  blockGeneratorOptionsSchema,
+  collectionGeneratorOptionsSchema,
+  COMPONENT_TYPES,
+  componentOptionSchemas,
+  configGeneratorOptionsSchema,
+  describeGeneratedArtifact,
+  endpointGeneratorOptionsSchema,
+  fieldGeneratorOptionsSchema,
+  generatorOptionSchemas,
+  getGenerator,
+  GeneratorType,
+  hookGeneratorOptionsSchema,
+  migrationGeneratorOptionsSchema,
+  pluginGeneratorOptionsSchema,
+  writeGenerated,
+} from '../generators/index.js';
+import { resolveInsideRoot } from '../utils/index.js';
+import type { ToolContext } from './types.js';
+
+/**
+ * Structured error returned when generator options are rejected
+ */
+export interface GeneratorError {
+  code: string;
+  message: string;
+  field?: string;
+}
+
+interface GeneratorToolDefinition {
+  name: string;
+  type: GeneratorType;
+  description: string;
+  inputShape: ZodRawShape;
+  /** Map tool arguments onto the generator options, for generators whose options are not a plain object */
+  toOptions?: (args: Record<string, any>) => Record<string, any>;
+}
+
+const GENERATOR_TOOLS: GeneratorToolDefinition[] = [
+  {
+    name: 'generate_collection',
+    type: 'collection',
+    description: 'Generate a Payload collection config with fields, access control, hooks and admin options',
+    inputShape: collectionGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_field',
+    type: 'field',
+    description: 'Generate a single Payload field config',
+    inputShape: {
+      field: fieldGeneratorOptionsSchema.describe('Field options, discriminated by `type`'),
+    },
+    toOptions: ({ field }) => field,
+  },
+  {
+    name: 'generate_config',
+    type: 'config',
+    description: 'Generate a payload.config.ts file',
+    inputShape: {
+      ...configGeneratorOptionsSchema.shape,
+      database: configGeneratorOptionsSchema.shape.database.optional()
+        .describe('Database adapter settings; defaults to the configured project database'),
+    },
+  },
+  {
+    name: 'generate_access_control',
+    type: 'accessControl',
+    description: 'Generate an access control function from a template such as role, owner or published',
+    inputShape: accessControlGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_hook',
+    type: 'hook',
+    description: 'Generate a collection or global hook',
+    inputShape: hookGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_endpoint',
+    type: 'endpoint',
+    description: 'Generate a custom REST endpoint',
+    inputShape: endpointGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_plugin',
+    type: 'plugin',
+    description: 'Generate a Payload plugin',
+    inputShape: pluginGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_block',
+    type: 'block',
+    description: 'Generate a block, a blocks field or a global block registration',
+    inputShape: blockGeneratorOptionsSchema.shape,
+  },
+  {
+    name: 'generate_migration',
+    type: 'migration',
+    description: 'Generate a database migration',
+    inputShape: {
+      ...migrationGeneratorOptionsSchema.shape,
+      dbAdapter: migrationGeneratorOptionsSchema.shape.dbAdapter.optional()
+        .describe('Database adapter; defaults to the configured project database'),
+    },
+  },
+  {
+    name: 'generate_component',
+    type: 'component',
+    description: 'Generate a React component for the admin panel',
+    inputShape: {
+      type: z.enum(COMPONENT_TYPES).describe('Kind of component to generate'),
+      options: z.union([
+        componentOptionSchemas.root,
+        componentOptionSchemas.collection,
+        componentOptionSchemas.view,
+        componentOptionSchemas.provider,
+      ]).describe('Component options; the required properties depend on `type`'),
+    },
+  },
+];
+
+/**
+ * Fill in options the caller left out from the configured project defaults
+ */
+function applyDefaults(type: GeneratorType, options: Record<string, any>, context: ToolContext): Record<string, any> {
+  if (type === 'config' && !options.database && context.defaults.database) {
+    return { ...options, database: { adapter: context.defaults.database, adapterOptions: { url: '' } } };
+  }
+
+  if (type === 'migration' && !options.dbAdapter && context.defaults.database) {
+    return { ...options, dbAdapter: context.defaults.database };
+  }
+
+  return options;
+}
+
+function toGeneratorErrors(error: z.ZodError): GeneratorError[] {
+  return error.issues.map((issue) => ({
+    code: `INVALID_OPTION_${issue.code.toUpperCase()}`,
+    message: issue.message,
+    field: issue.path.length > 0 ? issue.path.join('.') : undefined,
+  }));
+}
+
+function errorResult(errors: GeneratorError[]) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ success: false, errors }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Validate options against the generator's schema and run it.
+ * The result holds a JSON block describing the artifact followed by the generated code.
+ */
+async function runGenerator<T extends GeneratorType>(type: T, options: Record<string, any>, context: ToolContext) {
+  const parsed = generatorOptionSchemas[type].safeParse(applyDefaults(type, options, context));
+  if (!parsed.success) {
+    return errorResult(toGeneratorErrors(parsed.error));
+  }
+
+  try {
+    const generator = await getGenerator(type);
+    const result = await generator(parsed.data);
+    const artifact = describeGeneratedArtifact(type, parsed.data, result);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: JSON.stringify(artifact),
+        },
+        {
+          type: 'text' as const,
+          text: result.code,
+        },
+      ],
+    };
+  } catch (error) {
+    return errorResult([{ code: 'GENERATION_ERROR', message: (error as Error).message }]);
+  }
+}
+
+/**
+ * Publish an option shape without having the SDK reject arguments that do not match it.
+ * Values that fail their schema are passed on as they are, so runGenerator reports them as structured errors.
+ */
+function toPermissiveShape(shape: ZodRawShape): ZodRawShape {
+  return Object.fromEntries(Object.entries(shape).map(([key, schema]) => {
+    const permissive = schema.catch(({ input }: { input: unknown }) => input);
+    // A caught schema accepts undefined, which would drop the property from the published `required` list
+    permissive.isOptional = () => schema.isOptional();
+    return [key, permissive];
+  }));
+}
+
+export function registerGeneratorTools(server: McpServer, context: ToolContext) {
+  for (const tool of GENERATOR_TOOLS) {
+    server.tool(
+      tool.name,
+      tool.description,
+      toPermissiveShape(tool.inputShape),
+      async (args) => runGenerator(tool.type, tool.toOptions ? tool.toOptions(args) : args, context)
+    );
+  }
 
-export function registerGeneratorTools(server: McpServer) {
   server.tool(
     'generate_template',
+    'Generate any template from untyped options. Prefer the dedicated generate_* tools, which publish a schema for their options',
     {
       type: z.enum([
         'collection',
@@ -21,54 +230,73 @@ export function registerGeneratorTools(server: McpServer) {
       options: z.record(z.any()).optional().default({}).describe('Configuration options for the generator'),
     },
     async ({ type, options }) => {
-      try {
-        const generatorTypeMap: Record<string, GeneratorType> = {
-          'collection': 'collection',
-          'field': 'field',
-          'config': 'config',
-          'access-control': 'accessControl',
-          'hook': 'hook',
-          'endpoint': 'endpoint',
-          'plugin': 'plugin',
-          'block': 'block',
-          'migration': 'migration',
-          'component': 'component',
-        };
-
-        if (!generatorTypeMap[type]) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Unsupported generator type: ${type}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const generator = await getGenerator(generatorTypeMap[type]);
-        const result = await generator(options as any);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: result.code,
-            },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Generation error: ${(error as Error).message}`,
-            },
-          ],
-          isError: true,
-        };
+      const generatorTypeMap: Record<string, GeneratorType> = {
+        'collection': 'collection',
+        'field': 'field',
+        'config': 'config',
+        'access-control': 'accessControl',
+        'hook': 'hook',
+        'endpoint': 'endpoint',
+        'plugin': 'plugin',
+        'block': 'block',
+        'migration': 'migration',
+        'component': 'component',
+      };
+
+      if (!generatorTypeMap[type]) {
+        return errorResult([{ code: 'UNSUPPORTED_GENERATOR', message: `Unsupported generator type: ${type}` }]);
       }
+
+      return runGenerator(generatorTypeMap[type], options, context);
+    }
+  );
+
+  server.tool(
+    'write_generated',
+    'Write a generator result into a Payload project at its conventional location. Existing files are never replaced unless overwrite is set; a unified diff is returned for them',
+    {
+      type: z.enum(Object.keys(generatorOptionSchemas) as [GeneratorType, ...GeneratorType[]])
+        .describe('Generator that produced the code, as reported in the `type` of a generate_* result'),
+      code: z.string().describe('Generated code'),
+      path: z.string().optional().describe('Target path relative to the project root; defaults to the conventional location for the generator'),
+      fileName: z.string().optional().describe('Generated file name, used to resolve the conventional location when `path` is omitted'),
+      options: z.record(z.any()).optional().default({}).describe('Options the generator was called with, used to resolve the conventional location'),
+      additionalFiles: z.array(z.object({
+        path: z.string().describe('Path relative to the project root'),
+        code: z.string(),
+      })).optional().describe('Extra files returned by the generator'),
+      projectRoot: z.string().optional().describe('Project root inside the server project root, relative to it; defaults to the server project root'),
+      overwrite: z.boolean().optional().default(false).describe('Replace existing files whose contents differ'),
+      dryRun: z.boolean().optional().default(false).describe('Report what would be written without writing anything'),
+    },
+    async ({ type, code, path: targetPath, fileName, options, additionalFiles = [], projectRoot, overwrite, dryRun }) => {
+      if (!targetPath && !fileName && type !== 'config') {
+        return errorResult([{ code: 'MISSING_TARGET_PATH', message: 'Provide either `path` or `fileName` so the file location can be resolved', field: 'path' }]);
+      }
+
+      const root = resolveInsideRoot(context.projectRoot, projectRoot ?? '.');
+      if (!root) {
+        return errorResult([{ code: 'FS_PATH_OUTSIDE_ROOT', message: `Project root resolves outside the server project root: ${projectRoot}`, field: 'projectRoot' }]);
+      }
+
+      const mainPath = targetPath
+        ?? describeGeneratedArtifact(type, options, { code, fileName, language: 'typescript' }).path;
+      const result = writeGenerated({
+        projectRoot: root,
+        files: [{ path: mainPath, code }, ...additionalFiles],
+        overwrite,
+        dryRun,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result),
+          },
+        ],
+        isError: !result.success,
+      };
     }
   );
-} 
\ No newline at end of file
+}
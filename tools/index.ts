@@ -2,3 +2,4 @@ export { registerGeneratorTools } from './generatorTools.js';
 export { registerQueryTools } from './queryTools.js';
 export { registerScaffoldTools } from './scaffoldTools.js';
 export { registerValidatorTools } from './validatorTools.js';
+export type { ToolContext } from './types.js';
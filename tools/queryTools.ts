@@ -1,18 +1,86 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import path from 'path';
 import { z } from 'zod';
-import { processQuery, FileType } from '../queries/index.js';
+import {
+  ApiType,
+  buildQuery,
+  convertQuery,
+  processQuery,
+  FileType,
+  QueryCondition,
+  QuerySchemaOptions,
+  QuerySpec,
+  WHERE_OPERATORS,
+} from '../queries/index.js';
+import type { ToolContext } from './types.js';
 
-export function registerQueryTools(server: McpServer) {
+const schemaShape = {
+  collection: z.string().optional()
+    .describe('Slug of the queried collection; field names, operators and values are checked against it'),
+  projectRoot: z.string().optional()
+    .describe('Project root to load collections from, relative to the server project root; defaults to the server project root when a collection is given'),
+  collectionConfig: z.string().optional()
+    .describe('Source of the queried collection config, checked instead of loading it from the project'),
+};
+
+const operatorSchema = z.enum(WHERE_OPERATORS.map((operator) => operator.name) as [string, ...string[]])
+  .describe(WHERE_OPERATORS.map((operator) => `${operator.name}: ${operator.description}`).join(' '));
+
+const conditionSchema: z.ZodType<QueryCondition> = z.lazy(() =>
+  z.union([
+    z.object({
+      field: z.string().describe('Field path in dot notation, e.g. author.name'),
+      operator: operatorSchema,
+      value: z.unknown().optional().describe('Compared value; a list for in, not_in and all; defaults to true for exists'),
+    }),
+    z.object({ and: z.array(conditionSchema).describe('Conditions that must all match') }),
+    z.object({ or: z.array(conditionSchema).describe('Conditions of which at least one must match') }),
+  ])
+);
+
+interface SchemaArgs {
+  collection?: string;
+  projectRoot?: string;
+  collectionConfig?: string;
+  schemaFile?: string;
+}
+
+/**
+ * Collections to check a query against, when any schema argument is given
+ */
+function toSchemaOptions(context: ToolContext, { collection, projectRoot, collectionConfig, schemaFile }: SchemaArgs): QuerySchemaOptions | undefined {
+  if (!collection && !projectRoot && !collectionConfig && !schemaFile) {
+    return undefined;
+  }
+
+  return {
+    collection,
+    collectionConfig,
+    projectRoot: projectRoot || !collectionConfig ? path.resolve(context.projectRoot, projectRoot ?? '.') : undefined,
+    schemaFile: schemaFile ? path.resolve(context.projectRoot, schemaFile) : undefined,
+  };
+}
+
+export function registerQueryTools(server: McpServer, context: ToolContext) {
   server.tool(
     'process_query',
     {
       queryString: z.string().describe('The query string to validate and provide suggestions for'),
       fileType: z.enum(['collection', 'field', 'global', 'config']).optional()
         .describe('Optional type of file context'),
+      ...schemaShape,
+      schemaFile: z.string().optional()
+        .describe('GraphQL schema file to check GraphQL queries against, relative to the server project root; defaults to the project\'s generated-schema.graphql'),
+      maxDepth: z.number().int().nonnegative().optional()
+        .describe('Deepest nesting allowed in GraphQL queries; defaults to the maxDepth of the project config, or 10'),
     },
-    async ({ queryString, fileType }: { queryString: string; fileType?: FileType }) => {
+    async ({ queryString, fileType, maxDepth, ...schemaArgs }: SchemaArgs & {
+      queryString: string;
+      fileType?: FileType;
+      maxDepth?: number;
+    }) => {
       try {
-        const result = await processQuery(queryString, fileType);
+        const result = await processQuery(queryString, fileType, toSchemaOptions(context, schemaArgs), maxDepth);
         return {
           content: [{ type: 'text', text: JSON.stringify(result) }],
         };
@@ -24,4 +92,72 @@ export function registerQueryTools(server: McpServer) {
       }
     }
   );
-} 
\ No newline at end of file
+
+  server.tool(
+    'convert_query',
+    {
+      queryString: z.string()
+        .describe('Find query to convert: a payload.find({...}) call or its options, a REST URL or query string, or a GraphQL query'),
+      from: z.enum(['local', 'rest', 'graphql']).optional()
+        .describe('API the query is written for; detected when omitted'),
+      variables: z.record(z.unknown()).optional()
+        .describe('Values of the variables of a GraphQL query'),
+      ...schemaShape,
+      collection: z.string().optional()
+        .describe('Slug of the queried collection, when the query does not name it or to type values against it'),
+    },
+    async ({ queryString, from, variables, ...schemaArgs }: SchemaArgs & {
+      queryString: string;
+      from?: ApiType;
+      variables?: Record<string, unknown>;
+    }) => {
+      try {
+        const result = convertQuery(queryString, { from, variables, schemaOptions: toSchemaOptions(context, schemaArgs) });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Query conversion error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    'build_query',
+    {
+      collection: z.string().describe('Slug of the collection to find documents in'),
+      filters: z.array(conditionSchema).optional()
+        .describe('Conditions that must all match, each a field/operator/value filter or an and/or group of conditions'),
+      sort: z.array(z.union([
+        z.string(),
+        z.object({ field: z.string(), direction: z.enum(['asc', 'desc']).optional() }),
+      ])).optional()
+        .describe('Sort keys in order of precedence; a string key may start with - to sort descending'),
+      limit: z.number().int().nonnegative().optional().describe('Documents per page'),
+      page: z.number().int().positive().optional().describe('Page to return'),
+      depth: z.number().int().nonnegative().optional().describe('How deep relationships are populated'),
+      select: z.array(z.string()).optional()
+        .describe('Field paths to return; prefix every path with - to return all other fields instead'),
+      populate: z.record(z.array(z.string())).optional()
+        .describe('Field paths to return from related documents, keyed by the related collection slug'),
+      projectRoot: schemaShape.projectRoot,
+      collectionConfig: schemaShape.collectionConfig,
+    },
+    async ({ projectRoot, collectionConfig, ...spec }: QuerySpec & Omit<SchemaArgs, 'collection'>) => {
+      try {
+        const result = buildQuery(spec, toSchemaOptions(context, { collection: spec.collection, projectRoot, collectionConfig }));
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Query building error: ${(error as Error).message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
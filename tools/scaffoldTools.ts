@@ -1,4 +1,5 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import path from "path";
 import { z } from "zod";
 import {
   scaffold,
@@ -8,6 +9,7 @@ import {
   type GlobalConfig,
   type BlockConfig,
 } from "../scaffolds/index.js";
+import type { ToolContext } from "./types.js";
 
 const baseFieldSchema = z.object({
   name: z.string().describe("The programmatic name of the field (camelCase)."),
@@ -401,7 +403,7 @@ const globalSchema: z.ZodType<GlobalConfig> = z
   })
   .passthrough();
 
-export function registerScaffoldTools(server: McpServer) {
+export function registerScaffoldTools(server: McpServer, context: ToolContext) {
   server.tool(
     "scaffold_project",
     {
@@ -417,12 +419,16 @@ export function registerScaffoldTools(server: McpServer) {
         ),
       database: z
         .enum(["mongodb", "postgres"])
-        .describe("Database type to use."),
+        .optional()
+        .describe(
+          "Database type to use (defaults to the server's configured database).",
+        ),
       typescript: z
         .boolean()
         .optional()
-        .default(true)
-        .describe("Generate TypeScript project."),
+        .describe(
+          "Generate TypeScript project (defaults to the server's configured preference, otherwise true).",
+        ),
       authentication: z
         .boolean()
         .optional()
@@ -453,7 +459,7 @@ export function registerScaffoldTools(server: McpServer) {
         .string()
         .optional()
         .describe(
-          "Custom output path (defaults to current directory/projectName).",
+          "Custom output path, relative to the project root (defaults to projectRoot/projectName).",
         ),
       description: z
         .string()
@@ -487,11 +493,40 @@ export function registerScaffoldTools(server: McpServer) {
           "Payload plugins to include (e.g., @payloadcms/plugin-seo). Provide package name or object with options.",
         ),
     },
-    async (options: ScaffoldOptions & { outputPath?: string }) => {
+    async (
+      options: Omit<ScaffoldOptions, "database"> & {
+        database?: ScaffoldOptions["database"];
+        outputPath?: string;
+      },
+    ) => {
       try {
         const { outputPath, ...scaffoldOptions } = options;
+        const database = scaffoldOptions.database ?? context.defaults.database;
+
+        if (!database) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Scaffold error:\n- (database) Database type is required. Suggestion: Pass 'mongodb' or 'postgres', or set defaults.database in payload-mcp.config.json.",
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        const result = await scaffold(scaffoldOptions, outputPath);
+        const result = await scaffold(
+          {
+            ...scaffoldOptions,
+            database,
+            typescript:
+              scaffoldOptions.typescript ?? context.defaults.typescript ?? true,
+          },
+          path.resolve(
+            context.projectRoot,
+            outputPath ?? scaffoldOptions.projectName,
+          ),
+        );
 
         if (!result.success) {
           return {
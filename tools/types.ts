@@ -0,0 +1,16 @@
+import type { DatabaseType } from '../scaffolds/index.js';
+
+/**
+ * Project settings shared with tool handlers
+ */
+export interface ToolContext {
+  /** Directory new projects and generated files are resolved against */
+  projectRoot: string;
+  /** Whether the rule plugins configured in `projectRoot` may be imported and run */
+  rulePlugins?: boolean;
+  /** Fallbacks used when a tool call omits the corresponding option */
+  defaults: {
+    database?: DatabaseType;
+    typescript?: boolean;
+  };
+}
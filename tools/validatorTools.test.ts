@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ToolContext } from './types.js';
+import { registerValidatorTools } from './validatorTools.js';
+
+const pluginSource = `export default {
+  name: 'house',
+  rules: {
+    collection: {
+      bestPractices: [{
+        id: 'house/always',
+        test: () => true,
+        issue: { message: 'House rule', severity: 'warning' },
+      }],
+    },
+  },
+};
+`;
+
+const collectionCode = `export const Posts = { slug: 'posts', fields: [{ name: 'title', type: 'text' }] };`;
+
+async function connect(context: ToolContext) {
+    const server = new McpServer({ name: 'test', version: '0.0.0' });
+    registerValidatorTools(server, context);
+
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+}
+
+function writeRules(root: string, plugin: string) {
+    fs.mkdirSync(path.join(root, 'rules'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'rules', 'house.mjs'), plugin);
+    fs.writeFileSync(path.join(root, '.payload-mcp-rules.json'), JSON.stringify({ plugins: 'rules' }));
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    const [{ text }] = result.content as Array<{ text: string }>;
+    return JSON.parse(text);
+}
+
+async function getRuleIds(client: Client, code: string): Promise<string[]> {
+    const { issues } = await callTool(client, 'validate_code', { code, componentType: 'collection' });
+    return issues.map((issue: { ruleId?: string }) => issue.ruleId);
+}
+
+describe('validator tools', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+        projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-')));
+        writeRules(projectRoot, pluginSource);
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('do not import rule plugins unless the server config enables them', async () => {
+        const client = await connect({ projectRoot, defaults: {} });
+
+        expect(await getRuleIds(client, collectionCode)).not.toContain('house/always');
+    });
+
+    test('apply the rule plugins of the server project root when enabled', async () => {
+        const client = await connect({ projectRoot, rulePlugins: true, defaults: {} });
+
+        expect(await getRuleIds(client, collectionCode)).toContain('house/always');
+    });
+
+    test('never import plugins from a project root named by validate_project', async () => {
+        const appRoot = path.join(projectRoot, 'app');
+        const marker = path.join(projectRoot, 'imported');
+        writeRules(appRoot, `import fs from 'fs';\nfs.writeFileSync(${JSON.stringify(marker)}, '');\n${pluginSource}`);
+        fs.mkdirSync(path.join(appRoot, 'src', 'collections'), { recursive: true });
+        fs.writeFileSync(path.join(appRoot, 'src', 'collections', 'Posts.ts'), collectionCode);
+        const client = await connect({ projectRoot, rulePlugins: true, defaults: {} });
+
+        const { files } = await callTool(client, 'validate_project', { projectRoot: 'app' });
+
+        expect(files.map((file: { filePath: string }) => file.filePath)).toEqual(['src/collections/Posts.ts']);
+        expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    test('reject validate_project roots outside the server project root', async () => {
+        const client = await connect({ projectRoot: path.join(projectRoot, 'rules'), defaults: {} });
+
+        for (const outside of ['..', projectRoot]) {
+            const result = await client.callTool({ name: 'validate_project', arguments: { projectRoot: outside } });
+            const [{ text }] = result.content as Array<{ text: string }>;
+
+            expect(result.isError).toBe(true);
+            expect(text).toBe(`Validation error: Project root resolves outside the server project root: ${outside}`);
+        }
+    });
+});
@@ -1,36 +1,188 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { validateCode, ComponentType } from '../validator/index.js';
+import {
+    COMPONENT_TYPES,
+    fixCode,
+    formatValidationResult,
+    loadRuleConfig,
+    loadRulePlugins,
+    validateCode,
+    validateProject,
+    ComponentType,
+    FixCodeResult,
+    OUTPUT_FORMATS,
+    OutputFormat,
+    ProjectValidationResult,
+    RulePlugin,
+    ValidationResult,
+    ValidatorOptions,
+} from '../validator/index.js';
+import { resolveInsideRoot } from '../utils/index.js';
+import type { ToolContext } from './types.js';
 
-export function registerValidatorTools(server: McpServer) {
+/**
+ * Rule plugins of each server project root, imported once per process
+ */
+const pluginsByRoot = new Map<string, Promise<RulePlugin[]>>();
+
+/**
+ * Plugins configured in the server project root. Plugins run inside the server, so they are
+ * only imported when the server config enables them, never from a root a tool call names.
+ */
+function getRulePlugins(context: ToolContext): Promise<RulePlugin[]> {
+    if (!context.rulePlugins) {
+        return Promise.resolve([]);
+    }
+
+    let plugins = pluginsByRoot.get(context.projectRoot);
+    if (!plugins) {
+        plugins = loadRulePlugins(context.projectRoot, loadRuleConfig(context.projectRoot));
+        // Retry on the next call after a failure, e.g. once a missing plugin directory has been created
+        plugins.catch(() => pluginsByRoot.delete(context.projectRoot));
+        pluginsByRoot.set(context.projectRoot, plugins);
+    }
+    return plugins;
+}
+
+/**
+ * Rule settings of the project at `projectRoot` and the plugin rules of the server project
+ */
+async function loadProjectRules(context: ToolContext, projectRoot = context.projectRoot): Promise<Pick<ValidatorOptions, 'ruleConfig' | 'plugins'>> {
+    return { ruleConfig: loadRuleConfig(projectRoot), plugins: await getRulePlugins(context) };
+}
+
+const formatSchema = z.enum(OUTPUT_FORMATS).optional().default('json')
+    .describe('Output format: the JSON result, SARIF 2.1.0, JUnit XML, a text report or GitHub Actions annotations');
+
+/**
+ * Render a result in the requested format. Fix results also return the patched code and diff,
+ * which only the JSON format includes in the report itself.
+ */
+function toContent(result: ValidationResult | ProjectValidationResult, format: OutputFormat = 'json') {
+    const content = [{ type: 'text' as const, text: formatValidationResult(result, format) }];
+    if (format !== 'json' && 'diff' in result) {
+        const { code, diff, fixed } = result as FixCodeResult;
+        content.push({ type: 'text', text: JSON.stringify({ code, diff, fixed }) });
+    }
+
+    return { content };
+}
+
+export function registerValidatorTools(server: McpServer, context: ToolContext) {
     server.tool(
         'validate_code',
         {
             code: z.string().describe('The code to validate'),
-            componentType: z.enum(['collection', 'field', 'global', 'config']).describe('Type of component being validated'),
+            componentType: z.enum(COMPONENT_TYPES).describe('Type of component being validated'),
             filePath: z.string().optional().describe('Optional file path for better error reporting'),
+            collectionCode: z.string().optional().describe('Source of the collection an access function or hook belongs to, used to check indexes and slugs'),
             checkSyntax: z.boolean().optional().default(true).describe('Check syntax validity'),
             checkBestPractices: z.boolean().optional().default(true).describe('Check best practices'),
             checkSecurity: z.boolean().optional().default(true).describe('Check security issues'),
             checkPerformance: z.boolean().optional().default(true).describe('Check performance issues'),
+            fix: z.boolean().optional().default(false).describe('Apply safe fixes and return the patched code with a diff'),
+            format: formatSchema,
         },
-        (options: {
+        async (options: {
             code: string;
             componentType: string;
             filePath?: string;
+            collectionCode?: string;
             checkSyntax?: boolean;
             checkBestPractices?: boolean;
             checkSecurity?: boolean;
             checkPerformance?: boolean;
+            fix?: boolean;
+            format?: OutputFormat;
         }) => {
             try {
-                const result = validateCode({
-                    ...options,
-                    componentType: options.componentType as ComponentType
+                const { fix, format, ...validateOptions } = options;
+                const validate = fix ? fixCode : validateCode;
+                const result = validate({
+                    ...validateOptions,
+                    ...await loadProjectRules(context),
+                    componentType: options.componentType as ComponentType,
                 });
+                return toContent(result, format);
+            } catch (error) {
                 return {
-                    content: [{ type: 'text', text: JSON.stringify(result) }],
+                    content: [{ type: 'text', text: `Validation error: ${(error as Error).message}` }],
+                    isError: true,
                 };
+            }
+        }
+    );
+
+    const functionTools = [
+        {
+            name: 'validate_access_control',
+            componentType: 'access' as const,
+            description: 'Validate access control functions: unconditional access and query constraints on fields without an index',
+        },
+        {
+            name: 'validate_hook',
+            componentType: 'hook' as const,
+            description: 'Validate hook functions: unreturned doc mutations, recursive afterChange updates and Local API calls without req',
+        },
+    ];
+
+    for (const tool of functionTools) {
+        server.tool(
+            tool.name,
+            tool.description,
+            {
+                code: z.string().describe('Source of the file declaring the functions'),
+                filePath: z.string().optional().describe('Optional file path for better error reporting'),
+                collectionCode: z.string().optional().describe('Source of the collection the functions belong to, used to check indexes and slugs'),
+                format: formatSchema,
+            },
+            async ({ code, filePath, collectionCode, format }) => {
+                try {
+                    const result = validateCode({
+                        code,
+                        filePath,
+                        collectionCode,
+                        componentType: tool.componentType,
+                        ...await loadProjectRules(context),
+                    });
+                    return toContent(result, format);
+                } catch (error) {
+                    return {
+                        content: [{ type: 'text', text: `Validation error: ${(error as Error).message}` }],
+                        isError: true,
+                    };
+                }
+            }
+        );
+    }
+
+    server.tool(
+        'validate_project',
+        'Validate every collection, global and config file under a project root, including cross-file checks such as relationships to missing collections, admin.user without auth and duplicate dbName values',
+        {
+            projectRoot: z.string().optional().describe('Project root inside the server project root, relative to it; defaults to the server project root'),
+            checkSyntax: z.boolean().optional().default(true).describe('Check syntax validity'),
+            checkBestPractices: z.boolean().optional().default(true).describe('Check best practices'),
+            checkSecurity: z.boolean().optional().default(true).describe('Check security issues'),
+            checkPerformance: z.boolean().optional().default(true).describe('Check performance issues'),
+            format: formatSchema,
+        },
+        async ({ projectRoot, format, ...checks }) => {
+            const root = resolveInsideRoot(context.projectRoot, projectRoot ?? '.');
+            if (!root) {
+                return {
+                    content: [{ type: 'text', text: `Validation error: Project root resolves outside the server project root: ${projectRoot}` }],
+                    isError: true,
+                };
+            }
+
+            try {
+                const result = validateProject({
+                    ...checks,
+                    ...await loadProjectRules(context, root),
+                    projectRoot: root,
+                });
+                return toContent(result, format);
             } catch (error) {
                 return {
                     content: [{ type: 'text', text: `Validation error: ${(error as Error).message}` }],
@@ -39,4 +191,4 @@ export function registerValidatorTools(server: McpServer) {
             }
         }
     );
-} 
\ No newline at end of file
+}
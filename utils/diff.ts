@@ -0,0 +1,108 @@
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+/**
+ * Split text into lines, keeping each line break so a missing newline at the end of a file is a change too
+ */
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Line diff based on the longest common subsequence of the lines that differ
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+            lengths[i][j] = oldMiddle[i] === newMiddle[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = oldLines.slice(0, prefix).map((text) => ({ op: ' ', text }));
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+        if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+            lines.push({ op: ' ', text: oldMiddle[i++] });
+            j++;
+        } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            lines.push({ op: '-', text: oldMiddle[i++] });
+        } else {
+            lines.push({ op: '+', text: newMiddle[j++] });
+        }
+    }
+    lines.push(...oldLines.slice(oldLines.length - suffix).map((text): DiffLine => ({ op: ' ', text })));
+
+    return lines;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param oldText - Current contents
+ * @param newText - Proposed contents
+ * @param fileName - Name shown in the `---`/`+++` headers
+ * @param context - Number of unchanged lines around each change
+ * @returns The diff, or an empty string when the contents are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, fileName: string, context = 3): string {
+    const lines = diffLines(splitLines(oldText), splitLines(newText));
+    const changes = lines
+        .map((line, index) => (line.op === ' ' ? -1 : index))
+        .filter((index) => index >= 0);
+
+    if (changes.length === 0) {
+        return '';
+    }
+
+    const hunks: Array<[number, number]> = [];
+    for (const index of changes) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length, index + context + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            hunks.push([start, end]);
+        }
+    }
+
+    const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+    for (const [start, end] of hunks) {
+        const before = lines.slice(0, start);
+        const hunk = lines.slice(start, end);
+        const oldStart = before.filter((line) => line.op !== '+').length;
+        const newStart = before.filter((line) => line.op !== '-').length;
+        const oldCount = hunk.filter((line) => line.op !== '+').length;
+        const newCount = hunk.filter((line) => line.op !== '-').length;
+
+        output.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`);
+        for (const line of hunk) {
+            output.push(`${line.op}${line.text.replace(/\n$/, '')}`);
+            if (!line.text.endsWith('\n')) {
+                output.push('\\ No newline at end of file');
+            }
+        }
+    }
+
+    return `${output.join('\n')}\n`;
+}
@@ -59,4 +59,7 @@ export function camelToKebabCase(str: string): string {
  */
 export function capitalizeFirstLetter(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1);
-}
\ No newline at end of file
+}
+
+export { createUnifiedDiff } from './diff.js';
+export { resolveInsideRoot } from './paths.js';
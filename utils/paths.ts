@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+
+function isInside(root: string, target: string): boolean {
+    return target === root || target.startsWith(`${root}${path.sep}`);
+}
+
+/**
+ * Resolve symlinks in the part of a path that exists, so a link inside a root cannot lead out of it
+ */
+function getRealPath(target: string): string {
+    let existing = target;
+    while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+        existing = path.dirname(existing);
+    }
+
+    return path.join(fs.realpathSync(existing), path.relative(existing, target));
+}
+
+/**
+ * Resolve a path against a root directory, rejecting `..` segments, absolute paths
+ * and symlinks that lead out of the root
+ *
+ * @param root - Directory the path must stay inside
+ * @param relativePath - Path relative to the root
+ * @returns The absolute path, or undefined when it resolves outside the root
+ */
+export function resolveInsideRoot(root: string, relativePath: string): string | undefined {
+    const resolvedRoot = path.resolve(root);
+    const target = path.resolve(resolvedRoot, relativePath);
+
+    if (!isInside(resolvedRoot, target) || !isInside(getRealPath(resolvedRoot), getRealPath(target))) {
+        return undefined;
+    }
+
+    return target;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { validateCode } from './validate.js';
+
+const issuesOf = (code: string, collectionCode?: string) =>
+    validateCode({ code, componentType: 'access', collectionCode }).issues
+        .map((issue) => ({ message: issue.message, path: issue.location?.path }));
+
+const collectionCode = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'author', type: 'relationship', relationTo: 'users', index: true },
+    { name: 'status', type: 'select', options: ['draft', 'published'] },
+  ],
+};`;
+
+describe('access control rules', () => {
+    test('reports access functions that always return true', () => {
+        expect(issuesOf(`export const canRead = () => true;`)).toEqual([
+            { message: 'Access function always returns true', path: 'canRead' },
+        ]);
+        expect(issuesOf(`export const canRead = ({ req }) => {
+  if (req.user) return true;
+  return true;
+};`)).toEqual([{ message: 'Access function always returns true', path: 'canRead' }]);
+    });
+
+    test('accepts access functions that check the user', () => {
+        expect(issuesOf(`export const canUpdate = ({ req: { user } }) => Boolean(user?.roles?.includes('admin'));`)).toEqual([]);
+        expect(issuesOf(`export const canRead = ({ req }) => {
+  if (req.user) return true;
+  return false;
+};`)).toEqual([]);
+    });
+
+    test('reports query constraints on fields without an index', () => {
+        const code = `export const canRead = ({ req }) => {
+  if (!req.user) return false;
+  return { or: [{ author: { equals: req.user.id } }, { status: { equals: 'published' } }] };
+};`;
+
+        expect(issuesOf(code, collectionCode)).toEqual([
+            { message: 'Access control query on a field without an index', path: 'canRead.returns.1' },
+        ]);
+    });
+
+    test('accepts query constraints on indexed fields', () => {
+        const code = `export const canRead = ({ req }) => ({ and: [{ author: { equals: req.user?.id } }, { updatedAt: { greater_than: '2024-01-01' } }] });`;
+
+        expect(issuesOf(code, collectionCode)).toEqual([]);
+    });
+
+    test('requires an access function', () => {
+        expect(issuesOf(`export const roles = ['admin'];`).map((issue) => issue.message)).toEqual([
+            'Syntax error: No access control function found',
+        ]);
+    });
+});
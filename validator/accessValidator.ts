@@ -0,0 +1,115 @@
+import ts from 'typescript';
+import { z } from 'zod';
+import { FunctionInfo, FunctionSource, getReturnExpressions } from './parseFunctions.js';
+import { unwrapExpression } from './parseSource.js';
+import { ValidationRule, ValidationRules } from './types.js';
+
+interface Field {
+    name?: string;
+    index?: boolean;
+    unique?: boolean;
+    [key: string]: any;
+}
+
+/** Fields that are always indexed by the database adapters */
+const DEFAULT_INDEXED_FIELDS = ['id', '_id', 'createdAt', 'updatedAt'];
+
+export const accessSchema = z.object({
+    functions: z.array(z.any()).min(1, 'No access control function found'),
+});
+
+/**
+ * Top-level field names queried by a Where object, following `and`/`or` branches
+ */
+function getQueriedFields(expression: ts.Expression): string[] {
+    const node = unwrapExpression(expression);
+    if (!ts.isObjectLiteralExpression(node)) {
+        return [];
+    }
+
+    return node.properties.flatMap((property) => {
+        if (!ts.isPropertyAssignment(property) || !property.name || ts.isComputedPropertyName(property.name)) {
+            return [];
+        }
+
+        const key = property.name.text;
+        const value = unwrapExpression(property.initializer);
+        if ((key === 'and' || key === 'or') && ts.isArrayLiteralExpression(value)) {
+            return value.elements.flatMap(getQueriedFields);
+        }
+
+        return [key.split('.')[0]];
+    });
+}
+
+function getIndexedFields(collection: any): string[] {
+    const fields = (Array.isArray(collection?.fields) ? collection.fields : []) as Field[];
+    return [
+        ...DEFAULT_INDEXED_FIELDS,
+        ...fields.filter((field) => field.index === true || field.unique === true).map((field) => String(field.name)),
+    ];
+}
+
+/**
+ * Find the first returned Where query that filters on a field without an index
+ */
+function findUnindexedQuery(code: FunctionSource): { fn: FunctionInfo; index: number; field: string } | undefined {
+    const indexedFields = getIndexedFields(code.collection);
+
+    for (const fn of code.functions) {
+        const returned = getReturnExpressions(fn.node);
+        for (let index = 0; index < returned.length; index++) {
+            const field = getQueriedFields(returned[index]).find((name) => !indexedFields.includes(name));
+            if (field) {
+                return { fn, index, field };
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function grantsEveryone(fn: FunctionInfo): boolean {
+    const returned = getReturnExpressions(fn.node);
+    return returned.length > 0 && returned.every((expression) => expression.kind === ts.SyntaxKind.TrueKeyword);
+}
+
+export const accessBestPractices: ValidationRule[] = [];
+
+export const accessSecurity: ValidationRule[] = [
+    {
+        id: 'access/always-true',
+        test: (code) => (code.functions as FunctionInfo[]).some(grantsEveryone),
+        locate: (code) => (code.functions as FunctionInfo[]).find(grantsEveryone)?.name,
+        issue: {
+            message: 'Access function always returns true',
+            severity: 'warning',
+            suggestion: 'Check req.user or return a query constraint instead of granting access to everyone',
+            docReference: 'https://payloadcms.com/docs/access-control/overview',
+        }
+    },
+];
+
+export const accessPerformance: ValidationRule[] = [
+    {
+        id: 'access/query-without-index',
+        test: (code) => Boolean(findUnindexedQuery(code)),
+        locate: (code) => {
+            const match = findUnindexedQuery(code);
+            return match && `${match.fn.name}.returns.${match.index}`;
+        },
+        issue: {
+            message: 'Access control query on a field without an index',
+            severity: 'warning',
+            suggestion: 'Add index: true to every field the returned query filters on; pass collectionCode so indexes can be checked against the collection',
+            docReference: 'https://payloadcms.com/docs/access-control/overview#query-constraints',
+        }
+    },
+];
+
+export const accessValidationRules: ValidationRules = {
+    syntax: [accessSchema],
+    bestPractices: accessBestPractices,
+    security: accessSecurity,
+    performance: accessPerformance,
+};
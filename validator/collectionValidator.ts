@@ -29,7 +29,14 @@ export const collectionSchema = z.object({
 
 export const collectionBestPractices: ValidationRule[] = [
   {
+    id: 'collection/use-as-title',
     test: (code) => !('useAsTitle' in (code.admin || {})),
+    locate: () => 'admin.useAsTitle',
+    fix: (code) => {
+      const fields = (code.fields || []) as Field[];
+      const title = fields.find((field) => field.name === 'title') ?? fields.find((field) => field.type === 'text');
+      return typeof title?.name === 'string' ? [{ path: 'admin.useAsTitle', value: `'${title.name}'` }] : [];
+    },
     issue: {
       message: 'Missing useAsTitle in admin config',
       severity: 'warning',
@@ -38,7 +45,9 @@ export const collectionBestPractices: ValidationRule[] = [
     }
   },
   {
+    id: 'collection/default-columns',
     test: (code) => !('defaultColumns' in (code.admin || {})),
+    locate: () => 'admin.defaultColumns',
     issue: {
       message: 'Missing defaultColumns in admin config',
       severity: 'info',
@@ -47,7 +56,10 @@ export const collectionBestPractices: ValidationRule[] = [
     }
   },
   {
+    id: 'collection/timestamps',
     test: (code) => !code.timestamps,
+    locate: () => 'timestamps',
+    fix: (code) => (code.timestamps === undefined ? [{ path: 'timestamps', value: 'true' }] : []),
     issue: {
       message: 'No timestamps configuration specified',
       severity: 'info',
@@ -59,7 +71,9 @@ export const collectionBestPractices: ValidationRule[] = [
 
 export const collectionSecurity: ValidationRule[] = [
   {
+    id: 'collection/missing-access',
     test: (code) => !code.access,
+    locate: () => 'access',
     issue: {
       message: 'No access control defined for collection',
       severity: 'warning',
@@ -68,10 +82,15 @@ export const collectionSecurity: ValidationRule[] = [
     }
   },
   {
+    id: 'collection/unrestricted-access',
     test: (code) => {
       const accessProps = code.access || {};
       return accessProps.read === true || accessProps.create === true || accessProps.update === true || accessProps.delete === true;
     },
+    locate: (code) => {
+      const operation = ['read', 'create', 'update', 'delete'].find((op) => code.access?.[op] === true);
+      return `access.${operation}`;
+    },
     issue: {
       message: 'Using unrestricted access control (set to true)',
       severity: 'error',
@@ -83,24 +102,17 @@ export const collectionSecurity: ValidationRule[] = [
 
 export const collectionPerformance: ValidationRule[] = [
   {
-    test: (code) => {
-      const fields = code.fields || [];
-      return fields.some((field: Field) => field.type === 'relationship' && !field.hasOwnProperty('index'));
-    },
-    issue: {
-      message: 'Relationship field without index',
-      severity: 'warning',
-      suggestion: 'Add index: true to relationship fields to improve query performance',
-      docReference: 'https://payloadcms.com/docs/fields/relationship#index',
-    }
-  },
-  {
+    id: 'collection/many-hooks',
     test: (code) => {
       const hooks = code.hooks || {};
       return Object.values(hooks).some(hookArray =>
         Array.isArray(hookArray) && hookArray.length > 3
       );
     },
+    locate: (code) => {
+      const operation = Object.keys(code.hooks || {}).find((key) => Array.isArray(code.hooks[key]) && code.hooks[key].length > 3);
+      return `hooks.${operation}`;
+    },
     issue: {
       message: 'Multiple hooks on the same operation might impact performance',
       severity: 'info',
@@ -50,7 +50,9 @@ export const configSchema = z.object({
 
 export const configBestPractices: ValidationRule[] = [
     {
+        id: 'config/server-url',
         test: (code) => !code.serverURL,
+        locate: () => 'serverURL',
         issue: {
             message: 'Missing serverURL configuration',
             severity: 'warning',
@@ -59,13 +61,23 @@ export const configBestPractices: ValidationRule[] = [
         }
     },
     {
+        id: 'config/duplicate-collection-slugs',
         test: (code) => {
             const collections = (code.collections || []) as Collection[];
             const hasDuplicateSlugs = collections.some((collection: Collection, index: number) =>
+                typeof collection.slug === 'string' &&
                 collections.findIndex((c: Collection) => c.slug === collection.slug) !== index
             );
             return hasDuplicateSlugs;
         },
+        locate: (code) => {
+            const collections = (code.collections || []) as Collection[];
+            const index = collections.findIndex((collection: Collection, i: number) =>
+                typeof collection.slug === 'string' &&
+                collections.findIndex((c: Collection) => c.slug === collection.slug) !== i
+            );
+            return `collections.${index}.slug`;
+        },
         issue: {
             message: 'Duplicate collection slugs detected',
             severity: 'error',
@@ -74,13 +86,23 @@ export const configBestPractices: ValidationRule[] = [
         }
     },
     {
+        id: 'config/duplicate-global-slugs',
         test: (code) => {
             const globals = (code.globals || []) as Global[];
             const hasDuplicateSlugs = globals.some((global: Global, index: number) =>
+                typeof global.slug === 'string' &&
                 globals.findIndex((g: Global) => g.slug === global.slug) !== index
             );
             return hasDuplicateSlugs;
         },
+        locate: (code) => {
+            const globals = (code.globals || []) as Global[];
+            const index = globals.findIndex((global: Global, i: number) =>
+                typeof global.slug === 'string' &&
+                globals.findIndex((g: Global) => g.slug === global.slug) !== i
+            );
+            return `globals.${index}.slug`;
+        },
         issue: {
             message: 'Duplicate global slugs detected',
             severity: 'error',
@@ -89,7 +111,9 @@ export const configBestPractices: ValidationRule[] = [
         }
     },
     {
+        id: 'config/missing-admin',
         test: (code) => !code.admin,
+        locate: () => 'admin',
         issue: {
             message: 'No admin configuration specified',
             severity: 'info',
@@ -101,7 +125,9 @@ export const configBestPractices: ValidationRule[] = [
 
 export const configSecurity: ValidationRule[] = [
     {
+        id: 'config/csrf-disabled',
         test: (code) => code.csrf === false,
+        locate: () => 'csrf',
         issue: {
             message: 'CSRF protection is disabled',
             severity: 'error',
@@ -110,7 +136,9 @@ export const configSecurity: ValidationRule[] = [
         }
     },
     {
+        id: 'config/cors-wildcard',
         test: (code) => code.cors === '*' || (Array.isArray(code.cors) && code.cors.includes('*')),
+        locate: () => 'cors',
         issue: {
             message: 'CORS is set to allow all origins (*)',
             severity: 'warning',
@@ -119,7 +147,9 @@ export const configSecurity: ValidationRule[] = [
         }
     },
     {
+        id: 'config/rate-limit',
         test: (code) => !code.rateLimit,
+        locate: () => 'rateLimit',
         issue: {
             message: 'Rate limiting is not configured',
             severity: 'warning',
@@ -128,11 +158,16 @@ export const configSecurity: ValidationRule[] = [
         }
     },
     {
+        id: 'config/auth-collection-access',
         test: (code) => {
             const collections = (code.collections || []) as Collection[];
             const userCollection = collections.find((collection: Collection) => collection.auth);
             return Boolean(userCollection && !userCollection.access);
         },
+        locate: (code) => {
+            const index = ((code.collections || []) as Collection[]).findIndex((collection: Collection) => collection.auth);
+            return `collections.${index}`;
+        },
         issue: {
             message: 'Auth collection without access control',
             severity: 'error',
@@ -144,10 +179,12 @@ export const configSecurity: ValidationRule[] = [
 
 export const configPerformance: ValidationRule[] = [
     {
+        id: 'config/many-collections',
         test: (code) => {
             const collections = (code.collections || []) as Collection[];
             return collections.length > 50;
         },
+        locate: () => 'collections',
         issue: {
             message: 'Large number of collections may impact performance',
             severity: 'info',
@@ -156,6 +193,7 @@ export const configPerformance: ValidationRule[] = [
         }
     },
     {
+        id: 'config/many-global-hooks',
         test: (code) => {
             const hooks = code.hooks || {};
             const hookCount = Object.values(hooks).reduce((count: number, hookArray: any) => {
@@ -163,6 +201,7 @@ export const configPerformance: ValidationRule[] = [
             }, 0);
             return hookCount > 10;
         },
+        locate: () => 'hooks',
         issue: {
             message: 'Large number of global hooks may impact performance',
             severity: 'info',
@@ -171,7 +210,9 @@ export const configPerformance: ValidationRule[] = [
         }
     },
     {
+        id: 'config/graphql-depth-limit',
         test: (code) => code.graphQL === true && !code.graphQL?.depth,
+        locate: () => 'graphQL',
         issue: {
             message: 'GraphQL enabled without depth limit',
             severity: 'warning',
@@ -1,57 +1,165 @@
 import { z } from 'zod';
+import { getDefaultLabel } from '../utils/index.js';
 import { ValidationRule, ValidationRules } from './types.js';
 
+const labelSchema = z.union([z.string(), z.record(z.string()), z.literal(false)]);
+
+const fieldAdminSchema = z.object({
+  description: z.union([z.string(), z.record(z.string())]).optional(),
+  condition: z.any().optional(),
+  components: z.record(z.any()).optional(),
+  width: z.union([z.string(), z.number()]).optional(),
+  readOnly: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+  position: z.string().optional(),
+}).passthrough();
+
 const commonFieldProps = {
   name: z.string().min(1),
-  label: z.string().optional(),
+  label: labelSchema.optional(),
   required: z.boolean().optional(),
   unique: z.boolean().optional(),
   index: z.boolean().optional(),
   defaultValue: z.any().optional(),
   access: z.record(z.any()).optional(),
   hooks: z.record(z.any()).optional(),
-  admin: z.object({
-    description: z.string().optional(),
-    condition: z.any().optional(),
-    components: z.record(z.any()).optional(),
-    width: z.union([z.string(), z.number()]).optional(),
-    readOnly: z.boolean().optional(),
-    hidden: z.boolean().optional(),
-    position: z.string().optional(),
-  }).optional(),
+  admin: fieldAdminSchema.optional(),
   localized: z.boolean().optional(),
 };
 
-export const fieldSchema = z.object({
-  type: z.string().min(1),
+// Layout fields only arrange other fields in the admin UI and have no name of their own
+const layoutFieldProps = {
   ...commonFieldProps,
-}).and(z.record(z.any()));
+  name: z.string().min(1).optional(),
+};
 
-const textFieldSchema = z.object({
-  type: z.literal('text'),
-  minLength: z.number().optional(),
-  maxLength: z.number().optional(),
-  ...commonFieldProps,
-}).and(z.record(z.any()));
+const optionsSchema = z.array(z.union([
+  z.string(),
+  z.object({ label: labelSchema, value: z.string() }).passthrough(),
+])).min(1);
 
-const numberFieldSchema = z.object({
-  type: z.literal('number'),
-  min: z.number().optional(),
-  max: z.number().optional(),
-  ...commonFieldProps,
-}).and(z.record(z.any()));
+const relationToSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
 
-const relationshipFieldSchema = z.object({
-  type: z.literal('relationship'),
-  relationTo: z.union([z.string(), z.array(z.string())]),
-  hasMany: z.boolean().optional(),
-  filterOptions: z.any().optional(),
-  ...commonFieldProps,
-}).and(z.record(z.any()));
+const fieldsSchema: z.ZodType<any> = z.lazy(() => z.array(fieldSchema));
+
+const dataField = <T extends z.ZodRawShape>(type: string, shape: T) =>
+  z.object({ type: z.literal(type), ...commonFieldProps, ...shape }).passthrough();
+
+const layoutField = <T extends z.ZodRawShape>(type: string, shape: T) =>
+  z.object({ type: z.literal(type), ...layoutFieldProps, ...shape }).passthrough();
+
+const blockSchema = z.object({
+  slug: z.string().min(1),
+  fields: fieldsSchema,
+  labels: z.object({ singular: labelSchema, plural: labelSchema }).optional(),
+  interfaceName: z.string().optional(),
+}).passthrough();
+
+const tabSchema = z.object({
+  name: z.string().min(1).optional(),
+  label: labelSchema.optional(),
+  fields: fieldsSchema,
+}).passthrough().refine((tab) => tab.name !== undefined || tab.label !== undefined, {
+  message: 'A tab needs a name or a label',
+});
+
+/**
+ * Schema for a single field, picked by its `type`. Fields holding other fields are checked recursively.
+ */
+export const fieldSchema: z.ZodType<any> = z.discriminatedUnion('type', [
+  dataField('text', {
+    minLength: z.number().optional(),
+    maxLength: z.number().optional(),
+    hasMany: z.boolean().optional(),
+  }),
+  dataField('textarea', {
+    minLength: z.number().optional(),
+    maxLength: z.number().optional(),
+  }),
+  dataField('email', {}),
+  dataField('number', {
+    min: z.number().optional(),
+    max: z.number().optional(),
+    hasMany: z.boolean().optional(),
+  }),
+  dataField('checkbox', {}),
+  dataField('code', {}),
+  dataField('json', {
+    jsonSchema: z.object({
+      uri: z.string(),
+      fileMatch: z.array(z.string()),
+      schema: z.record(z.any()),
+    }).optional(),
+  }),
+  dataField('date', {}),
+  dataField('point', {}),
+  dataField('richText', {
+    editor: z.any().optional(),
+  }),
+  dataField('select', {
+    options: optionsSchema,
+    hasMany: z.boolean().optional(),
+  }),
+  dataField('radio', {
+    options: optionsSchema,
+  }),
+  dataField('relationship', {
+    relationTo: relationToSchema,
+    hasMany: z.boolean().optional(),
+    filterOptions: z.any().optional(),
+    maxDepth: z.number().optional(),
+  }),
+  dataField('upload', {
+    relationTo: relationToSchema,
+    hasMany: z.boolean().optional(),
+    filterOptions: z.any().optional(),
+    maxDepth: z.number().optional(),
+  }),
+  dataField('join', {
+    collection: relationToSchema,
+    on: z.string().min(1),
+    where: z.record(z.any()).optional(),
+    maxDepth: z.number().optional(),
+    defaultLimit: z.number().optional(),
+    defaultSort: z.string().optional(),
+  }),
+  dataField('array', {
+    fields: fieldsSchema,
+    minRows: z.number().optional(),
+    maxRows: z.number().optional(),
+  }),
+  dataField('blocks', {
+    blocks: z.array(blockSchema),
+    blockReferences: z.array(z.union([z.string(), blockSchema])).optional(),
+    minRows: z.number().optional(),
+    maxRows: z.number().optional(),
+  }),
+  dataField('ui', {
+    admin: fieldAdminSchema.extend({
+      components: z.object({ Field: z.union([z.string(), z.record(z.any()), z.function()]) }).passthrough(),
+    }),
+  }),
+  layoutField('group', {
+    fields: fieldsSchema,
+  }),
+  layoutField('row', {
+    fields: fieldsSchema,
+  }),
+  layoutField('collapsible', {
+    label: labelSchema,
+    fields: fieldsSchema,
+  }),
+  layoutField('tabs', {
+    tabs: z.array(tabSchema).min(1),
+  }),
+]);
 
 export const fieldBestPractices: ValidationRule[] = [
   {
+    id: 'field/label',
     test: (code) => !code.label && code.name,
+    locate: () => 'label',
+    fix: (code) => (typeof code.name === 'string' ? [{ path: 'label', value: `'${getDefaultLabel(code.name)}'` }] : []),
     issue: {
       message: 'Missing field label',
       severity: 'info',
@@ -60,10 +168,12 @@ export const fieldBestPractices: ValidationRule[] = [
     }
   },
   {
+    id: 'field/description',
     test: (code) => {
       if (!code.admin) return false;
       return !code.admin.description;
     },
+    locate: () => 'admin.description',
     issue: {
       message: 'Missing field description',
       severity: 'info',
@@ -72,10 +182,12 @@ export const fieldBestPractices: ValidationRule[] = [
     }
   },
   {
+    id: 'field/text-length',
     test: (code) => {
       if (code.type !== 'text') return false;
       return !code.hasOwnProperty('minLength') && !code.hasOwnProperty('maxLength');
     },
+    locate: () => 'type',
     issue: {
       message: 'Text field without length constraints',
       severity: 'info',
@@ -87,6 +199,7 @@ export const fieldBestPractices: ValidationRule[] = [
 
 export const fieldSecurity: ValidationRule[] = [
   {
+    id: 'field/text-validate-sanitization',
     test: (code) => {
       if (code.type !== 'text' || !code.hasOwnProperty('validate')) return false;
 
@@ -96,6 +209,7 @@ export const fieldSecurity: ValidationRule[] = [
 
       return false;
     },
+    locate: () => 'validate',
     issue: {
       message: 'Text field with custom validation may need sanitization',
       severity: 'warning',
@@ -104,9 +218,11 @@ export const fieldSecurity: ValidationRule[] = [
     }
   },
   {
+    id: 'field/unique-access',
     test: (code) => {
       return code.unique === true && !code.access;
     },
+    locate: () => 'unique',
     issue: {
       message: 'Unique field without access control',
       severity: 'warning',
@@ -118,9 +234,12 @@ export const fieldSecurity: ValidationRule[] = [
 
 export const fieldPerformance: ValidationRule[] = [
   {
+    id: 'field/relationship-index',
     test: (code) => {
       return code.type === 'relationship' && !code.hasOwnProperty('index');
     },
+    locate: () => 'type',
+    fix: () => [{ path: 'index', value: 'true' }],
     issue: {
       message: 'Relationship field not indexed',
       severity: 'warning',
@@ -129,11 +248,13 @@ export const fieldPerformance: ValidationRule[] = [
     }
   },
   {
+    id: 'field/unique-index',
     test: (code) => {
       return (code.type === 'text' || code.type === 'number') &&
         code.hasOwnProperty('unique') && code.unique === true &&
         !code.hasOwnProperty('index');
     },
+    locate: () => 'unique',
     issue: {
       message: 'Unique field not explicitly indexed',
       severity: 'info',
@@ -144,7 +265,7 @@ export const fieldPerformance: ValidationRule[] = [
 ];
 
 export const fieldValidationRules: ValidationRules = {
-  syntax: [fieldSchema, textFieldSchema, numberFieldSchema, relationshipFieldSchema],
+  syntax: [fieldSchema],
   bestPractices: fieldBestPractices,
   security: fieldSecurity,
   performance: fieldPerformance,
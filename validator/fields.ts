@@ -0,0 +1,58 @@
+import { isOpaqueNode } from './parseSource.js';
+
+export type FieldVisitor = (field: Record<string, any>, path: string) => void;
+
+function isFieldObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !isOpaqueNode(value);
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Call `visit` for every field of a `fields` array, descending into the `fields` of groups, arrays,
+ * rows and collapsibles, `tabs[].fields` and `blocks[].fields`. Fields that cannot be read
+ * statically, such as imported ones, are skipped.
+ *
+ * @param fields - A `fields` array
+ * @param path - Dotted path of the array, e.g. `fields`
+ * @param visit - Called with each field and its dotted path, e.g. `fields.2.tabs.0.fields.1`
+ */
+export function forEachField(fields: unknown, path: string, visit: FieldVisitor): void {
+    if (!Array.isArray(fields)) {
+        return;
+    }
+
+    fields.forEach((field, index) => {
+        if (!isFieldObject(field)) {
+            return;
+        }
+
+        const fieldPath = `${path}.${index}`;
+        visit(field, fieldPath);
+        forEachNestedField(field, fieldPath, visit);
+    });
+}
+
+/**
+ * Call `visit` for every field nested in a collection, global, block or field
+ *
+ * @param parent - Object holding `fields`, `tabs` or `blocks`
+ * @param path - Dotted path of the parent, `''` for the root
+ * @param visit - Called with each field and its dotted path
+ */
+export function forEachNestedField(parent: Record<string, any>, path: string, visit: FieldVisitor): void {
+    forEachField(parent.fields, joinPath(path, 'fields'), visit);
+
+    for (const key of ['tabs', 'blocks'] as const) {
+        if (!Array.isArray(parent[key])) {
+            continue;
+        }
+        parent[key].forEach((child: unknown, index: number) => {
+            if (isFieldObject(child)) {
+                forEachField(child.fields, joinPath(path, `${key}.${index}.fields`), visit);
+            }
+        });
+    }
+}
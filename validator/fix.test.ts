@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { fixCode } from './fix.js';
+
+const issueKeys = (issues: Array<{ ruleId?: string; location?: { path?: string } }>) =>
+    issues.map((issue) => `${issue.ruleId}@${issue.location?.path}`);
+
+describe('fixCode', () => {
+    test('inserts missing properties and reports them as fixed', () => {
+        const code = `export const Posts = {
+  slug: 'posts',
+  fields: [{ name: 'title', type: 'text' }],
+};`;
+        const result = fixCode({ code, componentType: 'collection' });
+
+        expect(result.code).toContain(`{ name: 'title', type: 'text', label: 'Title' }`);
+        expect(result.code).toContain(`admin: { useAsTitle: 'title' }`);
+        expect(issueKeys(result.fixed)).toEqual(expect.arrayContaining([
+            'field/label@fields.0.label',
+            'collection/use-as-title@admin.useAsTitle',
+        ]));
+        expect(issueKeys(result.issues)).not.toContain('field/label@fields.0.label');
+        expect(result.diff).toContain(`+  fields: [{ name: 'title', type: 'text', label: 'Title' }],`);
+    });
+
+    test('reports a fix even when another issue with the same message remains', () => {
+        const code = `import { NAME } from './names';
+export const Posts = { slug: 'posts', fields: [{ name: 'title', type: 'text' }, { name: NAME, type: 'text' }] };`;
+        const result = fixCode({ code, componentType: 'collection' });
+
+        expect(result.code).toContain(`{ name: 'title', type: 'text', label: 'Title' }`);
+        expect(result.code).toContain('{ name: NAME, type: \'text\' }');
+        expect(issueKeys(result.fixed)).toContain('field/label@fields.0.label');
+        expect(issueKeys(result.fixed)).not.toContain('field/label@fields.1.label');
+        expect(issueKeys(result.issues)).toContain('field/label@fields.1.label');
+    });
+
+    test('leaves code without fixable issues unchanged', () => {
+        const code = `export const Posts = {
+  slug: 'posts',
+  timestamps: true,
+  admin: { useAsTitle: 'title' },
+  fields: [{ name: 'title', type: 'text', label: 'Title' }],
+};`;
+        const result = fixCode({ code, componentType: 'collection' });
+
+        expect(result.code).toBe(code);
+        expect(result.diff).toBe('');
+        expect(result.fixed).toEqual([]);
+    });
+});
@@ -0,0 +1,159 @@
+import ts from 'typescript';
+import { createUnifiedDiff } from '../utils/index.js';
+import { parseSource, type ParsedSource } from './parseSource.js';
+import { FixCodeResult, RuleFix, ValidateCodeOptions, ValidationIssue } from './types.js';
+import { getRuleTargets, validateCode } from './validate.js';
+
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+function getIndent(code: string, position: number): string {
+    const lineStart = code.lastIndexOf('\n', position - 1) + 1;
+    return code.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Resolve a fix to the closest object literal in the source and the property to add to it
+ */
+function resolveFix(parsed: ParsedSource, fix: RuleFix): { node: ts.ObjectLiteralExpression; key: string; property: string } | undefined {
+    if (parsed.locations.has(fix.path)) {
+        return undefined;
+    }
+
+    const keys = fix.path.split('.');
+    for (let length = keys.length - 1; length >= 0; length--) {
+        const objectPath = keys.slice(0, length).join('.');
+        const node = parsed.objects.get(objectPath);
+        if (!node) {
+            // The parent exists but is not an object literal, e.g. an imported value
+            if (parsed.locations.has(objectPath)) {
+                return undefined;
+            }
+            continue;
+        }
+
+        const [key, ...nested] = keys.slice(length);
+        const value = nested.reduceRight((inner, nestedKey) => `{ ${formatKey(nestedKey)}: ${inner} }`, fix.value);
+
+        return { node, key, property: `${formatKey(key)}: ${value}` };
+    }
+
+    return undefined;
+}
+
+function createInsertion(parsed: ParsedSource, code: string, node: ts.ObjectLiteralExpression, properties: string[]): TextEdit {
+    const { sourceFile, offset } = parsed;
+    const start = node.getStart(sourceFile) - offset;
+    const last = node.properties[node.properties.length - 1];
+
+    if (!last) {
+        return { start, end: node.getEnd() - offset, text: `{ ${properties.join(', ')} }` };
+    }
+
+    const lastStart = last.getStart(sourceFile) - offset;
+    const lastEnd = last.getEnd() - offset;
+    const separator = code.slice(start, lastStart).includes('\n') ? `,\n${getIndent(code, lastStart)}` : ', ';
+
+    return { start: lastEnd, end: lastEnd, text: properties.map((property) => `${separator}${property}`).join('') };
+}
+
+function applyEdits(code: string, edits: TextEdit[]): string {
+    return [...edits]
+        .sort((a, b) => b.start - a.start)
+        .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+}
+
+/**
+ * Identifies an issue by the rule that reported it and where, as several issues can share a message
+ */
+function getIssueKey(issue: ValidationIssue): string {
+    return `${issue.ruleId}@${issue.location?.path ?? ''}`;
+}
+
+/**
+ * Validate code and apply the fixes of every failing rule that has one.
+ * Fixes only insert missing properties into object literals, leaving the rest of the source untouched.
+ *
+ * @param options - Same options as `validateCode`
+ * @returns The patched code, a diff against the original, the fixed issues and the remaining ones
+ */
+export function fixCode(options: ValidateCodeOptions): FixCodeResult {
+    const {
+        code,
+        componentType,
+        filePath,
+        checkBestPractices = true,
+        checkSecurity = true,
+        checkPerformance = true,
+        plugins,
+    } = options;
+    const original = validateCode(options);
+
+    let parsed: ParsedSource;
+    try {
+        parsed = parseSource(code, filePath);
+    } catch {
+        return { ...original, code, diff: '', fixed: [] };
+    }
+
+    const candidates = getRuleTargets(componentType, parsed.value, plugins).flatMap((target) => [
+        ...(checkBestPractices ? target.rules.bestPractices : []),
+        ...(checkSecurity ? target.rules.security : []),
+        ...(checkPerformance ? target.rules.performance : []),
+    ].map((rule) => ({ rule, target })));
+    const insertions = new Map<ts.ObjectLiteralExpression, Map<string, string>>();
+    const appliedKeys = new Set<string>();
+    // Only fix what was reported, so disabled and suppressed rules are left alone
+    const reported = new Set(original.issues.map(getIssueKey));
+
+    for (const { rule, target } of candidates) {
+        try {
+            if (!rule.fix || !rule.test(target.value)) {
+                continue;
+            }
+            const issuePath = [target.path, rule.locate?.(target.value)].filter(Boolean).join('.');
+            const issueKey = `${rule.id}@${issuePath}`;
+            if (!reported.has(issueKey)) {
+                continue;
+            }
+
+            for (const fix of rule.fix(target.value)) {
+                const path = target.path ? `${target.path}.${fix.path}` : fix.path;
+                const resolved = resolveFix(parsed, { ...fix, path });
+                if (!resolved) {
+                    continue;
+                }
+
+                const properties = insertions.get(resolved.node) ?? new Map<string, string>();
+                if (!properties.has(resolved.key)) {
+                    properties.set(resolved.key, resolved.property);
+                    insertions.set(resolved.node, properties);
+                    appliedKeys.add(issueKey);
+                }
+            }
+        } catch (error) {
+            console.error(`Rule fix error: ${(error as Error).message}`);
+        }
+    }
+
+    const edits = [...insertions].map(([node, properties]) => createInsertion(parsed, code, node, [...properties.values()]));
+    const patched = applyEdits(code, edits);
+    const result = validateCode({ ...options, code: patched });
+
+    return {
+        ...result,
+        code: patched,
+        diff: createUnifiedDiff(code, patched, (filePath ?? 'input.ts').replace(/^\/+/, '')),
+        fixed: original.issues.filter((issue) =>
+            appliedKeys.has(getIssueKey(issue)) &&
+            !result.issues.some((remaining) => getIssueKey(remaining) === getIssueKey(issue))
+        ),
+    };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+import { formatValidationResult } from './formatters.js';
+import type { ProjectValidationResult, ValidationIssue } from './types.js';
+
+const missingOptions: ValidationIssue = {
+    message: 'Syntax error: Required',
+    severity: 'error',
+    ruleId: 'field/syntax',
+    location: { path: 'fields.0.options', line: 4, column: 5, endLine: 4, endColumn: 40 },
+};
+
+const missingTimestamps: ValidationIssue = {
+    message: 'Collection has timestamps disabled',
+    severity: 'warning',
+    ruleId: 'collection/timestamps',
+    location: { path: 'timestamps', line: 1, column: 1 },
+    suggestion: 'Enable timestamps, unless the collection never changes',
+    docReference: 'https://payloadcms.com/docs/configuration/collections',
+};
+
+const missingLabel: ValidationIssue = {
+    message: 'Field has no label, 100% of editors see the name',
+    severity: 'best-practice',
+    ruleId: 'field/label',
+};
+
+const parseError: ValidationIssue = {
+    message: 'Code parsing error: Failed to parse code: Expression expected',
+    severity: 'error',
+    location: { line: 2, column: 10 },
+};
+
+const result: ProjectValidationResult = {
+    isValid: false,
+    projectRoot: '/project',
+    registry: { collections: ['posts'], globals: [], blocks: [] },
+    files: [
+        { filePath: 'src/collections/Posts.ts', componentType: 'collection', isValid: false, issues: [missingOptions, missingTimestamps, missingLabel] },
+        { filePath: 'src/globals/Site.ts', componentType: 'global', isValid: true, issues: [] },
+        { filePath: 'src/collections/Broken.ts', componentType: 'collection', isValid: false, issues: [parseError] },
+    ],
+};
+
+describe('formatValidationResult', () => {
+    test('returns JSON as is', () => {
+        expect(JSON.parse(formatValidationResult(result, 'json'))).toEqual(result);
+    });
+
+    test('writes a SARIF 2.1.0 log with a rule per rule ID', () => {
+        const sarif = JSON.parse(formatValidationResult(result, 'sarif'));
+
+        expect(sarif).toMatchObject({ $schema: 'https://json.schemastore.org/sarif-2.1.0.json', version: '2.1.0' });
+        expect(sarif.runs).toHaveLength(1);
+        const [run] = sarif.runs;
+        expect(run.tool.driver).toMatchObject({ name: 'payload-mcp', informationUri: expect.stringMatching(/^https:\/\//) });
+        expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['field/syntax', 'collection/timestamps', 'field/label', 'parse-error']);
+        expect(run.tool.driver.rules[1]).toEqual({
+            id: 'collection/timestamps',
+            shortDescription: { text: missingTimestamps.message },
+            help: { text: missingTimestamps.suggestion },
+            helpUri: missingTimestamps.docReference,
+            defaultConfiguration: { level: 'warning' },
+        });
+
+        expect(run.results.map((found: { ruleId: string; ruleIndex: number; level: string }) => [found.ruleId, found.ruleIndex, found.level])).toEqual([
+            ['field/syntax', 0, 'error'],
+            ['collection/timestamps', 1, 'warning'],
+            ['field/label', 2, 'note'],
+            ['parse-error', 3, 'error'],
+        ]);
+        expect(run.results[0].locations).toEqual([{
+            physicalLocation: {
+                artifactLocation: { uri: 'src/collections/Posts.ts', uriBaseId: '%SRCROOT%' },
+                region: { startLine: 4, startColumn: 5, endLine: 4, endColumn: 40 },
+            },
+            logicalLocations: [{ fullyQualifiedName: 'fields.0.options', kind: 'member' }],
+        }]);
+        expect(run.results[2].locations[0].physicalLocation.region).toBeUndefined();
+        expect(run.originalUriBaseIds['%SRCROOT%']).toBeDefined();
+    });
+
+    test('writes a JUnit suite per file where only errors fail', () => {
+        const junit = formatValidationResult(result, 'junit');
+
+        expect(junit).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="payload-mcp" tests="5" failures="2" errors="0">');
+        expect(junit).toContain('<testsuite name="src/collections/Posts.ts" tests="3" failures="1" errors="0">');
+        expect(junit).toContain('<testsuite name="src/globals/Site.ts" tests="1" failures="0" errors="0">');
+        expect(junit).toContain('<testsuite name="src/collections/Broken.ts" tests="1" failures="1" errors="0">');
+        expect(junit).toContain('<testcase classname="src/collections/Posts.ts" name="field/syntax (4:5)"><failure type="field/syntax" message="Syntax error: Required">');
+        expect(junit).toContain('<testcase classname="src/collections/Posts.ts" name="field/label"><system-out>best-practice: Field has no label, 100% of editors see the name</system-out></testcase>');
+        expect(junit.match(/<failure /g)).toHaveLength(2);
+        expect(junit).toEndWith('</testsuites>');
+    });
+
+    test('escapes XML in JUnit reports', () => {
+        const junit = formatValidationResult({
+            isValid: false,
+            componentType: 'collection',
+            issues: [{ ...parseError, message: `Unexpected "<" & '>'`, location: { file: 'a&b.ts' } }],
+        }, 'junit');
+
+        expect(junit).toContain('<testsuite name="a&amp;b.ts"');
+        expect(junit).toContain('message="Unexpected &quot;&lt;&quot; &amp; &apos;&gt;&apos;"');
+    });
+
+    test('writes a text report with a summary', () => {
+        expect(formatValidationResult(result, 'text')).toBe([
+            'src/collections/Posts.ts',
+            '  4:5     error         Syntax error: Required  field/syntax',
+            '                        Path: fields.0.options',
+            '  1:1     warning       Collection has timestamps disabled  collection/timestamps',
+            '                        Path: timestamps',
+            '                        Suggestion: Enable timestamps, unless the collection never changes',
+            '                        Docs: https://payloadcms.com/docs/configuration/collections',
+            '          best-practice Field has no label, 100% of editors see the name  field/label',
+            '',
+            'src/collections/Broken.ts',
+            '  2:10    error         Code parsing error: Failed to parse code: Expression expected  parse-error',
+            '',
+            '4 problems (2 errors, 1 warning, 1 best-practice)',
+        ].join('\n'));
+        expect(formatValidationResult({ isValid: true, componentType: 'field', issues: [] }, 'text')).toBe('No problems found');
+    });
+
+    test('writes GitHub workflow commands with escaped properties and messages', () => {
+        expect(formatValidationResult(result, 'github').split('\n')).toEqual([
+            '::error file=src/collections/Posts.ts,line=4,col=5,endLine=4,endColumn=40,title=field/syntax::Syntax error: Required',
+            '::warning file=src/collections/Posts.ts,line=1,col=1,title=collection/timestamps::Collection has timestamps disabled'
+                + '%0ASuggestion: Enable timestamps, unless the collection never changes%0ADocs: https://payloadcms.com/docs/configuration/collections',
+            '::notice file=src/collections/Posts.ts,title=field/label::Field has no label, 100%25 of editors see the name',
+            '::error file=src/collections/Broken.ts,line=2,col=10,title=parse-error::Code parsing error: Failed to parse code: Expression expected',
+        ]);
+        expect(formatValidationResult({
+            isValid: false,
+            componentType: 'collection',
+            issues: [{ ...missingLabel, location: { file: 'a,b:c.ts' } }],
+        }, 'github')).toStartWith('::notice file=a%2Cb%3Ac.ts,title=field/label::');
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * Render validation results as SARIF, JUnit XML, plain text or GitHub workflow annotations
+ */
+import { ProjectValidationResult, ValidationIssue, ValidationResult, ValidationSeverity } from './types.js';
+
+export const OUTPUT_FORMATS = ['json', 'sarif', 'junit', 'text', 'github'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const TOOL_NAME = 'payload-mcp';
+const TOOL_URI = 'https://github.com/ngyngcphu/payload-mcp';
+const DEFAULT_FILE = 'input.ts';
+/** Rule ID for issues no rule reported, such as parse errors */
+const PARSE_ERROR_RULE = 'parse-error';
+
+/**
+ * Issues of a single file
+ */
+interface FileReport {
+    filePath: string;
+    issues: ValidationIssue[];
+}
+
+function toFileReports(result: ValidationResult | ProjectValidationResult): FileReport[] {
+    if ('files' in result) {
+        return result.files.map(({ filePath, issues }) => ({ filePath, issues }));
+    }
+
+    const filePath = result.issues.find((issue) => issue.location?.file)?.location?.file ?? DEFAULT_FILE;
+    return [{ filePath, issues: result.issues }];
+}
+
+function getRuleId(issue: ValidationIssue): string {
+    return issue.ruleId ?? PARSE_ERROR_RULE;
+}
+
+function countBySeverity(reports: FileReport[]): Record<ValidationSeverity, number> {
+    const counts: Record<ValidationSeverity, number> = { error: 0, warning: 0, info: 0, 'best-practice': 0 };
+    reports.forEach((report) => report.issues.forEach((issue) => counts[issue.severity]++));
+    return counts;
+}
+
+function formatSarif(reports: FileReport[]): string {
+    const rules = new Map<string, ValidationIssue>();
+    reports.forEach((report) => report.issues.forEach((issue) => {
+        if (!rules.has(getRuleId(issue))) {
+            rules.set(getRuleId(issue), issue);
+        }
+    }));
+    const ruleIds = [...rules.keys()];
+
+    const levels: Record<ValidationSeverity, string> = { error: 'error', warning: 'warning', info: 'note', 'best-practice': 'note' };
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    informationUri: TOOL_URI,
+                    rules: [...rules].map(([id, issue]) => ({
+                        id,
+                        shortDescription: { text: issue.message },
+                        ...(issue.suggestion && { help: { text: issue.suggestion } }),
+                        ...(issue.docReference && { helpUri: issue.docReference }),
+                        defaultConfiguration: { level: levels[issue.severity] },
+                        ...(issue.plugin && { properties: { plugin: issue.plugin } }),
+                    })),
+                },
+            },
+            originalUriBaseIds: { '%SRCROOT%': { description: { text: 'Project root' } } },
+            results: reports.flatMap((report) => report.issues.map((issue) => {
+                const { line, column, endLine, endColumn, path } = issue.location ?? {};
+                return {
+                    ruleId: getRuleId(issue),
+                    ruleIndex: ruleIds.indexOf(getRuleId(issue)),
+                    level: levels[issue.severity],
+                    message: { text: issue.suggestion ? `${issue.message}. ${issue.suggestion}` : issue.message },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: {
+                                uri: report.filePath,
+                                ...(!report.filePath.startsWith('/') && { uriBaseId: '%SRCROOT%' }),
+                            },
+                            ...(line !== undefined && {
+                                region: { startLine: line, startColumn: column, endLine, endColumn },
+                            }),
+                        },
+                        ...(path && { logicalLocations: [{ fullyQualifiedName: path, kind: 'member' }] }),
+                    }],
+                };
+            })),
+        }],
+    }, null, 2);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function describeIssue(issue: ValidationIssue): string[] {
+    return [
+        issue.location?.path && `Path: ${issue.location.path}`,
+        issue.suggestion && `Suggestion: ${issue.suggestion}`,
+        issue.docReference && `Docs: ${issue.docReference}`,
+    ].filter((line): line is string => Boolean(line));
+}
+
+function formatPosition(issue: ValidationIssue): string {
+    const { line, column } = issue.location ?? {};
+    return line === undefined ? '' : `${line}:${column ?? 1}`;
+}
+
+/**
+ * One test suite per file and one test case per issue. Only errors are failures, matching `isValid`;
+ * other issues pass with their details in `system-out`. Files without issues get a single passing case.
+ */
+function formatJUnit(reports: FileReport[]): string {
+    const errorCount = countBySeverity(reports).error;
+    const caseCount = reports.reduce((total, report) => total + Math.max(report.issues.length, 1), 0);
+
+    const suites = reports.map((report) => {
+        const failures = report.issues.filter((issue) => issue.severity === 'error').length;
+        const cases = report.issues.length === 0
+            ? [`    <testcase classname="${escapeXml(report.filePath)}" name="${escapeXml(report.filePath)}"/>`]
+            : report.issues.map((issue) => {
+                const position = formatPosition(issue);
+                const name = `${getRuleId(issue)}${position && ` (${position})`}`;
+                const details = escapeXml([`${issue.severity}: ${issue.message}`, ...describeIssue(issue)].join('\n'));
+                const body = issue.severity === 'error'
+                    ? `<failure type="${escapeXml(getRuleId(issue))}" message="${escapeXml(issue.message)}">${details}</failure>`
+                    : `<system-out>${details}</system-out>`;
+                return `    <testcase classname="${escapeXml(report.filePath)}" name="${escapeXml(name)}">${body}</testcase>`;
+            });
+
+        return [
+            `  <testsuite name="${escapeXml(report.filePath)}" tests="${Math.max(report.issues.length, 1)}" failures="${failures}" errors="0">`,
+            ...cases,
+            '  </testsuite>',
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${TOOL_NAME}" tests="${caseCount}" failures="${errorCount}" errors="0">`,
+        ...suites,
+        '</testsuites>',
+    ].join('\n');
+}
+
+function formatText(reports: FileReport[]): string {
+    const lines = reports
+        .filter((report) => report.issues.length > 0)
+        .flatMap((report) => [
+            report.filePath,
+            ...report.issues.flatMap((issue) => [
+                `  ${formatPosition(issue).padEnd(7)} ${issue.severity.padEnd(13)} ${issue.message}  ${getRuleId(issue)}`,
+                ...describeIssue(issue).map((line) => `${' '.repeat(24)}${line}`),
+            ]),
+            '',
+        ]);
+
+    const counts = countBySeverity(reports);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (total === 0) {
+        return 'No problems found';
+    }
+
+    const breakdown = (Object.entries(counts) as Array<[ValidationSeverity, number]>)
+        .filter(([, count]) => count > 0)
+        .map(([severity, count]) => `${count} ${count > 1 && (severity === 'error' || severity === 'warning') ? `${severity}s` : severity}`)
+        .join(', ');
+
+    return [...lines, `${total} problem${total === 1 ? '' : 's'} (${breakdown})`].join('\n');
+}
+
+function escapeGitHubData(text: string): string {
+    return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeGitHubProperty(text: string): string {
+    return escapeGitHubData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * Workflow commands GitHub Actions turns into annotations on the pull request diff
+ */
+function formatGitHub(reports: FileReport[]): string {
+    const commands: Record<ValidationSeverity, string> = { error: 'error', warning: 'warning', info: 'notice', 'best-practice': 'notice' };
+
+    return reports.flatMap((report) => report.issues.map((issue) => {
+        const { line, column, endLine, endColumn } = issue.location ?? {};
+        const properties = Object.entries({ file: report.filePath, line, col: column, endLine, endColumn, title: getRuleId(issue) })
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${escapeGitHubProperty(String(value))}`)
+            .join(',');
+        const message = [issue.message, ...describeIssue(issue).filter((detail) => !detail.startsWith('Path:'))].join('\n');
+
+        return `::${commands[issue.severity]} ${properties}::${escapeGitHubData(message)}`;
+    })).join('\n');
+}
+
+/**
+ * Render the result of `validateCode`, `fixCode` or `validateProject` in an output format
+ *
+ * @param result - Validation result; file paths come from `location.file` or the project files
+ * @param format - `json` returns the result as is
+ * @returns The rendered report
+ */
+export function formatValidationResult(result: ValidationResult | ProjectValidationResult, format: OutputFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(result);
+        case 'sarif':
+            return formatSarif(toFileReports(result));
+        case 'junit':
+            return formatJUnit(toFileReports(result));
+        case 'text':
+            return formatText(toFileReports(result));
+        case 'github':
+            return formatGitHub(toFileReports(result));
+        default:
+            throw new Error(`Unsupported output format: ${format}`);
+    }
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { toTitleCase } from '../utils/index.js';
+import { forEachField } from './fields.js';
 import { ValidationRule, ValidationRules } from './types.js';
 
 interface Field {
@@ -12,6 +14,28 @@ interface Field {
     [key: string]: any;
 }
 
+/**
+ * Path of the first field at any depth matching the predicate
+ */
+function findNestedField(code: any, predicate: (field: Field) => boolean): string | undefined {
+    let found: string | undefined;
+    forEachField(code.fields, 'fields', (field, path) => {
+        if (!found && predicate(field)) {
+            found = path;
+        }
+    });
+
+    return found;
+}
+
+function isUnprotectedSensitiveField(field: Field): boolean {
+    return /api|key|secret|password|token/.test(field.name?.toLowerCase() ?? '') && !field.access;
+}
+
+function hasManyRichTextElements(field: Field): boolean {
+    return field.type === 'richText' && Boolean(field.admin?.elements) && Object.keys(field.admin!.elements!).length > 10;
+}
+
 export const globalSchema = z.object({
     slug: z.string().min(1),
     access: z.object({}).optional(),
@@ -31,9 +55,11 @@ export const globalSchema = z.object({
 
 export const globalBestPractices: ValidationRule[] = [
     {
+        id: 'global/admin-group',
         test: (code) => {
             return !('admin' in code) || !('group' in (code.admin || {}));
         },
+        locate: () => 'admin.group',
         issue: {
             message: 'Global without admin group configuration',
             severity: 'info',
@@ -42,10 +68,12 @@ export const globalBestPractices: ValidationRule[] = [
         }
     },
     {
+        id: 'global/many-fields',
         test: (code) => {
             const fields = code.fields || [];
             return fields.length > 20;
         },
+        locate: () => 'fields',
         issue: {
             message: 'Global has a large number of fields',
             severity: 'info',
@@ -54,7 +82,10 @@ export const globalBestPractices: ValidationRule[] = [
         }
     },
     {
+        id: 'global/label',
         test: (code) => !code.label && code.slug,
+        locate: () => 'label',
+        fix: (code) => (typeof code.slug === 'string' ? [{ path: 'label', value: `'${toTitleCase(code.slug)}'` }] : []),
         issue: {
             message: 'Missing label for global',
             severity: 'warning',
@@ -66,7 +97,9 @@ export const globalBestPractices: ValidationRule[] = [
 
 export const globalSecurity: ValidationRule[] = [
     {
+        id: 'global/missing-access',
         test: (code) => !code.access,
+        locate: () => 'access',
         issue: {
             message: 'No access control defined for global',
             severity: 'warning',
@@ -75,10 +108,12 @@ export const globalSecurity: ValidationRule[] = [
         }
     },
     {
+        id: 'global/unrestricted-access',
         test: (code) => {
             const accessProps = code.access || {};
             return accessProps.read === true || accessProps.update === true;
         },
+        locate: (code) => `access.${code.access?.read === true ? 'read' : 'update'}`,
         issue: {
             message: 'Using unrestricted access control (set to true)',
             severity: 'error',
@@ -87,17 +122,9 @@ export const globalSecurity: ValidationRule[] = [
         }
     },
     {
-        test: (code) => {
-            const fields = (code.fields || []) as Field[];
-            return fields.some((field: Field) =>
-                (field.name?.toLowerCase().includes('api') ||
-                    field.name?.toLowerCase().includes('key') ||
-                    field.name?.toLowerCase().includes('secret') ||
-                    field.name?.toLowerCase().includes('password') ||
-                    field.name?.toLowerCase().includes('token')) &&
-                !field.access
-            );
-        },
+        id: 'global/sensitive-fields-access',
+        test: (code) => Boolean(findNestedField(code, isUnprotectedSensitiveField)),
+        locate: (code) => findNestedField(code, isUnprotectedSensitiveField),
         issue: {
             message: 'Potentially sensitive fields without specific access control',
             severity: 'warning',
@@ -109,25 +136,11 @@ export const globalSecurity: ValidationRule[] = [
 
 export const globalPerformance: ValidationRule[] = [
     {
-        test: (code) => {
-            const fields = (code.fields || []) as Field[];
-            return fields.some((field: Field) => field.type === 'relationship' && !field.hasOwnProperty('index'));
-        },
-        issue: {
-            message: 'Relationship field without index',
-            severity: 'warning',
-            suggestion: 'Add index: true to relationship fields to improve query performance',
-            docReference: 'https://payloadcms.com/docs/fields/relationship#index',
-        }
-    },
-    {
-        test: (code) => {
-            const fields = (code.fields || []) as Field[];
-            return fields.some((field: Field) =>
-                field.type === 'richText' &&
-                field.admin?.elements &&
-                Object.keys(field.admin.elements).length > 10
-            );
+        id: 'global/rich-text-elements',
+        test: (code) => Boolean(findNestedField(code, hasManyRichTextElements)),
+        locate: (code) => {
+            const path = findNestedField(code, hasManyRichTextElements);
+            return path && `${path}.admin.elements`;
         },
         issue: {
             message: 'Rich text field with many enabled elements may impact performance',
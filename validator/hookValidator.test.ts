@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { validateCode } from './validate.js';
+
+const issuesOf = (code: string, collectionCode?: string) =>
+    validateCode({ code, componentType: 'hook', collectionCode }).issues
+        .map((issue) => ({ message: issue.message, path: issue.location?.path }));
+
+const collectionCode = `export const Posts = { slug: 'posts', fields: [{ name: 'title', type: 'text' }] };`;
+
+describe('hook rules', () => {
+    test('reports after hooks that mutate doc without returning it', () => {
+        const code = `export const afterChange = [({ doc }) => {
+  doc.title = doc.title.trim();
+}];`;
+
+        expect(issuesOf(code)).toEqual([
+            { message: 'After hook mutates doc without returning it', path: 'afterChange.0' },
+        ]);
+    });
+
+    test('accepts after hooks that return the mutated doc and before hooks that mutate data', () => {
+        expect(issuesOf(`export const afterRead = ({ doc }) => {
+  doc.title = doc.title.trim();
+  return doc;
+};`)).toEqual([]);
+        expect(issuesOf(`export const afterRead = ({ doc }) => ({ ...doc, title: doc.title.trim() });`)).toEqual([]);
+        expect(issuesOf(`export const beforeChange = ({ data }) => {
+  data.title = data.title.trim();
+  return data;
+};`)).toEqual([]);
+    });
+
+    test('reports Local API calls without req', () => {
+        const code = `export const afterDelete = async ({ doc, req }) => {
+  await req.payload.delete({ collection: 'comments', where: { post: { equals: doc.id } } });
+};`;
+
+        expect(issuesOf(code)).toEqual([
+            { message: 'Local API call in a hook without req', path: 'afterDelete' },
+        ]);
+    });
+
+    test('accepts Local API calls that pass req', () => {
+        const code = `export const afterDelete = async ({ doc, req }) => {
+  await req.payload.delete({ collection: 'comments', where: { post: { equals: doc.id } }, req });
+};`;
+
+        expect(issuesOf(code)).toEqual([]);
+    });
+
+    test('reports afterChange hooks that update their own collection without a context guard', () => {
+        const code = `export const afterChange = async ({ doc, req }) => {
+  await req.payload.update({ collection: 'posts', id: doc.id, data: { views: 0 }, req });
+  return doc;
+};`;
+
+        expect(issuesOf(code, collectionCode)).toEqual([
+            { message: 'afterChange hook updates its own collection without a context guard', path: 'afterChange' },
+        ]);
+    });
+
+    test('accepts afterChange updates that are guarded or target another collection', () => {
+        expect(issuesOf(`export const afterChange = async ({ doc, req, context }) => {
+  if (context.skipViews) return doc;
+  await req.payload.update({ collection: 'posts', id: doc.id, data: { views: 0 }, req, context: { skipViews: true } });
+  return doc;
+};`, collectionCode)).toEqual([]);
+        expect(issuesOf(`export const afterChange = async ({ doc, req }) => {
+  await req.payload.update({ collection: 'authors', id: doc.author, data: { lastPost: doc.id }, req });
+  return doc;
+};`, collectionCode)).toEqual([]);
+    });
+
+    test('requires a hook function', () => {
+        expect(issuesOf(`export const hooks = {};`).map((issue) => issue.message)).toEqual([
+            'Syntax error: No hook function found',
+        ]);
+    });
+});
@@ -0,0 +1,180 @@
+import ts from 'typescript';
+import { z } from 'zod';
+import {
+    forEachDescendant,
+    FunctionInfo,
+    FunctionSource,
+    getArgumentProperty,
+    getLocalApiCalls,
+    getReturnExpressions,
+} from './parseFunctions.js';
+import { unwrapExpression } from './parseSource.js';
+import { ValidationRule, ValidationRules } from './types.js';
+
+/** Local API operations that accept `req` to join the current transaction */
+const LOCAL_API_OPERATIONS = [
+    'find',
+    'findByID',
+    'count',
+    'create',
+    'update',
+    'delete',
+    'duplicate',
+    'findGlobal',
+    'updateGlobal',
+];
+
+export const hookSchema = z.object({
+    functions: z.array(z.any()).min(1, 'No hook function found'),
+});
+
+function getRootIdentifier(expression: ts.Expression): string | undefined {
+    let current = unwrapExpression(expression);
+    while (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current)) {
+        current = unwrapExpression(current.expression);
+    }
+
+    return ts.isIdentifier(current) ? current.text : undefined;
+}
+
+function mutatesDoc(fn: FunctionInfo): boolean {
+    let mutated = false;
+
+    forEachDescendant(fn.node, (node) => {
+        if (
+            ts.isBinaryExpression(node) &&
+            node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+            node.operatorToken.kind <= ts.SyntaxKind.LastAssignment &&
+            !ts.isIdentifier(node.left) &&
+            getRootIdentifier(node.left) === 'doc'
+        ) {
+            mutated = true;
+        } else if (ts.isDeleteExpression(node) && getRootIdentifier(node.expression) === 'doc') {
+            mutated = true;
+        } else if (
+            ts.isCallExpression(node) &&
+            node.expression.getText() === 'Object.assign' &&
+            node.arguments[0] &&
+            getRootIdentifier(node.arguments[0]) === 'doc'
+        ) {
+            mutated = true;
+        }
+    });
+
+    return mutated;
+}
+
+function returnsDoc(fn: FunctionInfo): boolean {
+    return getReturnExpressions(fn.node).some((expression) =>
+        (ts.isIdentifier(expression) && expression.text === 'doc') ||
+        (ts.isObjectLiteralExpression(expression) && expression.properties.some((property) =>
+            ts.isSpreadAssignment(property) && getRootIdentifier(property.expression) === 'doc'
+        ))
+    );
+}
+
+function isAfterHookMutatingDoc(fn: FunctionInfo): boolean {
+    return Boolean(fn.hookType?.startsWith('after')) && fn.args.includes('doc') && mutatesDoc(fn) && !returnsDoc(fn);
+}
+
+/**
+ * Whether the hook checks `context` before doing work, e.g. `if (context.skipRevalidate) return`
+ */
+function hasContextGuard(fn: FunctionInfo): boolean {
+    let guarded = false;
+
+    forEachDescendant(fn.node, (node) => {
+        if ((ts.isIfStatement(node) || ts.isConditionalExpression(node)) && /\bcontext\b/.test(
+            (ts.isIfStatement(node) ? node.expression : node.condition).getText()
+        )) {
+            guarded = true;
+        }
+    });
+
+    return guarded;
+}
+
+/**
+ * Whether a `payload.update` call may target the collection the hook is registered on
+ */
+function updatesOwnCollection(call: ts.CallExpression, slug: string | undefined): boolean {
+    const collection = getArgumentProperty(call, 'collection');
+    if (!collection) {
+        return false;
+    }
+
+    const target = unwrapExpression(collection);
+    if (ts.isStringLiteralLike(target)) {
+        return slug === undefined || target.text === slug;
+    }
+
+    return target.getText() === 'collection.slug';
+}
+
+function isRecursiveUpdate(fn: FunctionInfo, slug: string | undefined): boolean {
+    if (fn.hookType !== 'afterChange' || hasContextGuard(fn)) {
+        return false;
+    }
+
+    return getLocalApiCalls(fn.node, ['update']).some(({ call }) =>
+        updatesOwnCollection(call, slug) && getArgumentProperty(call, 'context') === undefined
+    );
+}
+
+function isMissingReq(fn: FunctionInfo): boolean {
+    return getLocalApiCalls(fn.node, LOCAL_API_OPERATIONS).some(({ call }) =>
+        getArgumentProperty(call, 'req') === undefined
+    );
+}
+
+function getSlug(code: FunctionSource): string | undefined {
+    return typeof code.collection?.slug === 'string' ? code.collection.slug : undefined;
+}
+
+export const hookBestPractices: ValidationRule[] = [
+    {
+        id: 'hook/unreturned-doc-mutation',
+        test: (code) => (code.functions as FunctionInfo[]).some(isAfterHookMutatingDoc),
+        locate: (code) => (code.functions as FunctionInfo[]).find(isAfterHookMutatingDoc)?.name,
+        issue: {
+            message: 'After hook mutates doc without returning it',
+            severity: 'warning',
+            suggestion: 'Return the modified doc from the hook so the change is applied to the result',
+            docReference: 'https://payloadcms.com/docs/hooks/collections#afterchange',
+        }
+    },
+    {
+        id: 'hook/local-api-without-req',
+        test: (code) => (code.functions as FunctionInfo[]).some(isMissingReq),
+        locate: (code) => (code.functions as FunctionInfo[]).find(isMissingReq)?.name,
+        issue: {
+            message: 'Local API call in a hook without req',
+            severity: 'warning',
+            suggestion: 'Pass req to Local API calls made from hooks so they run in the same transaction',
+            docReference: 'https://payloadcms.com/docs/database/transactions#direct-transaction-access',
+        }
+    },
+];
+
+export const hookSecurity: ValidationRule[] = [];
+
+export const hookPerformance: ValidationRule[] = [
+    {
+        id: 'hook/recursive-after-change',
+        test: (code) => (code.functions as FunctionInfo[]).some((fn) => isRecursiveUpdate(fn, getSlug(code))),
+        locate: (code) => (code.functions as FunctionInfo[]).find((fn) => isRecursiveUpdate(fn, getSlug(code)))?.name,
+        issue: {
+            message: 'afterChange hook updates its own collection without a context guard',
+            severity: 'error',
+            suggestion: 'Pass a flag through context on the update, e.g. context: { skipHook: true }, and return early when it is set to avoid an infinite loop',
+            docReference: 'https://payloadcms.com/docs/hooks/context',
+        }
+    },
+];
+
+export const hookValidationRules: ValidationRules = {
+    syntax: [hookSchema],
+    bestPractices: hookBestPractices,
+    security: hookSecurity,
+    performance: hookPerformance,
+};
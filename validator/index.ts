@@ -1,2 +1,9 @@
 export * from './types.js';
-export { validateCode } from './validate.js'; 
\ No newline at end of file
+export { getValidationRules, validateCode } from './validate.js';
+export { fixCode } from './fix.js';
+export { buildProjectRegistry, loadProjectFiles, validateProject } from './validateProject.js';
+export { isOpaqueNode, parseSource } from './parseSource.js';
+export { projectRules } from './projectValidator.js';
+export { RULE_CONFIG_FILE_NAME, loadRuleConfig } from './ruleConfig.js';
+export { loadRulePlugins } from './rulePlugins.js';
+export { OUTPUT_FORMATS, formatValidationResult, type OutputFormat } from './formatters.js';
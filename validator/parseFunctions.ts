@@ -0,0 +1,275 @@
+import ts from 'typescript';
+import { parseSource, parseTypeScript, unwrapExpression } from './parseSource.js';
+import type { SourceRange } from './types.js';
+
+export const HOOK_TYPES = [
+    'beforeOperation',
+    'beforeValidate',
+    'beforeChange',
+    'afterChange',
+    'beforeRead',
+    'afterRead',
+    'beforeDelete',
+    'afterDelete',
+    'afterOperation',
+    'afterError',
+    'beforeLogin',
+    'afterLogin',
+    'afterLogout',
+    'afterMe',
+    'afterRefresh',
+    'afterForgotPassword',
+    'me',
+    'refresh',
+] as const;
+
+export type HookType = typeof HOOK_TYPES[number];
+
+export type FunctionNode = ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration;
+
+export interface FunctionInfo {
+    /** Dotted name, e.g. `isOwner`, `default` or `hooks.afterChange.0` */
+    name: string;
+    node: FunctionNode;
+    /** Hook operation, from the type annotation, the property it is assigned to or the function name */
+    hookType?: HookType;
+    /** Properties destructured from the first argument, e.g. `doc` and `req` */
+    args: string[];
+}
+
+export interface FunctionSource {
+    functions: FunctionInfo[];
+    /** Config of the collection the functions belong to, when its source was provided */
+    collection?: any;
+}
+
+export interface ParsedFunctions {
+    value: FunctionSource;
+    sourceFile: ts.SourceFile;
+    /** Source range of every function keyed by its name, and of each `return` under `<name>.returns.<index>` */
+    locations: Map<string, SourceRange>;
+}
+
+function isFunctionNode(node: ts.Node): node is FunctionNode {
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node);
+}
+
+/**
+ * Find a hook operation appearing as a whole camel-case word sequence, so `revalidateAfterChange`
+ * matches `afterChange` but `isMember` does not match `me`
+ */
+function toHookType(value: string): HookType | undefined {
+    return [...HOOK_TYPES]
+        .sort((a, b) => b.length - a.length)
+        .find((hookType) => new RegExp(`(^${hookType}|${hookType.charAt(0).toUpperCase()}${hookType.slice(1)})(?![a-z])`).test(value));
+}
+
+/**
+ * Read the hook operation from a type such as `CollectionAfterChangeHook`
+ */
+function getHookTypeFromAnnotation(type: ts.TypeNode | undefined, sourceFile: ts.SourceFile): HookType | undefined {
+    const match = type?.getText(sourceFile).match(/(Before|After)(\w+?)Hook\b/);
+    return match ? toHookType(`${match[1]}${match[2]}`) : undefined;
+}
+
+function getArgs(node: FunctionNode): string[] {
+    const [first] = node.parameters;
+    if (!first || !ts.isObjectBindingPattern(first.name)) {
+        return [];
+    }
+
+    return first.name.elements.map((element) =>
+        (element.propertyName ?? element.name).getText()
+    );
+}
+
+/**
+ * Visit every node inside a function body
+ */
+export function forEachDescendant(node: ts.Node, visit: (node: ts.Node) => void): void {
+    ts.forEachChild(node, (child) => {
+        visit(child);
+        forEachDescendant(child, visit);
+    });
+}
+
+/**
+ * Expressions a function can return, including the body of concise arrow functions
+ * and both branches of conditional returns. Returns of nested functions are skipped.
+ */
+export function getReturnExpressions(node: FunctionNode): ts.Expression[] {
+    const expressions: ts.Expression[] = [];
+    const addBranches = (expression: ts.Expression) => {
+        const unwrapped = unwrapExpression(expression);
+        if (ts.isConditionalExpression(unwrapped)) {
+            addBranches(unwrapped.whenTrue);
+            addBranches(unwrapped.whenFalse);
+        } else {
+            expressions.push(unwrapped);
+        }
+    };
+
+    if (node.body && !ts.isBlock(node.body)) {
+        addBranches(node.body);
+        return expressions;
+    }
+
+    const visit = (child: ts.Node) => {
+        if (isFunctionNode(child)) {
+            return;
+        }
+        if (ts.isReturnStatement(child) && child.expression) {
+            addBranches(child.expression);
+        }
+        ts.forEachChild(child, visit);
+    };
+    if (node.body) {
+        ts.forEachChild(node.body, visit);
+    }
+
+    return expressions;
+}
+
+/**
+ * Calls to the Local API such as `payload.update(...)` or `req.payload.find(...)`
+ */
+export function getLocalApiCalls(node: FunctionNode, operations?: string[]): Array<{ operation: string; call: ts.CallExpression }> {
+    const calls: Array<{ operation: string; call: ts.CallExpression }> = [];
+
+    forEachDescendant(node, (child) => {
+        if (!ts.isCallExpression(child) || !ts.isPropertyAccessExpression(child.expression)) {
+            return;
+        }
+
+        const target = child.expression.expression;
+        const isPayload = (ts.isIdentifier(target) && target.text === 'payload') ||
+            (ts.isPropertyAccessExpression(target) && target.name.text === 'payload');
+        const operation = child.expression.name.text;
+        if (isPayload && (!operations || operations.includes(operation))) {
+            calls.push({ operation, call: child });
+        }
+    });
+
+    return calls;
+}
+
+/**
+ * Get a property of the object literal passed as the first argument of a call
+ *
+ * @returns The property initializer, `null` when the argument is not an object literal or spreads
+ * other values, or `undefined` when the property is missing
+ */
+export function getArgumentProperty(call: ts.CallExpression, name: string): ts.Expression | null | undefined {
+    const [argument] = call.arguments;
+    const object = argument && unwrapExpression(argument);
+    if (!object || !ts.isObjectLiteralExpression(object)) {
+        return null;
+    }
+
+    for (const property of object.properties) {
+        if (ts.isSpreadAssignment(property)) {
+            return null;
+        }
+        if (property.name && ts.isIdentifier(property.name) && property.name.text === name) {
+            if (ts.isPropertyAssignment(property)) {
+                return property.initializer;
+            }
+            if (ts.isShorthandPropertyAssignment(property)) {
+                return property.name;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Parse access control or hook source and collect the functions it declares, without executing it.
+ * Functions are read from function declarations, `const` initializers, `export default` and
+ * object literals such as `{ read: ..., update: ... }` or `{ afterChange: [...] }`.
+ *
+ * @param code - Source of an access control or hook file
+ * @param fileName - Used to pick TSX parsing for `.tsx`/`.jsx` files
+ * @param collectionCode - Source of the collection the functions belong to
+ * @throws {SourceParseError} When the code has syntax errors
+ */
+export function parseFunctions(code: string, fileName = 'input.ts', collectionCode?: string): ParsedFunctions {
+    const { sourceFile, toLocation, parseError } = parseTypeScript(code, fileName);
+    if (parseError) {
+        throw parseError;
+    }
+
+    const functions: FunctionInfo[] = [];
+    const locations = new Map<string, SourceRange>();
+    const toRange = (node: ts.Node) => toLocation(node.getStart(sourceFile), node.getEnd());
+
+    const collect = (expression: ts.Expression | ts.FunctionDeclaration | ts.MethodDeclaration, name: string, hookType?: HookType) => {
+        const node = ts.isFunctionDeclaration(expression) || ts.isMethodDeclaration(expression)
+            ? expression
+            : unwrapExpression(expression);
+
+        if (isFunctionNode(node)) {
+            functions.push({ name, node, hookType: hookType ?? toHookType(name), args: getArgs(node) });
+            locations.set(name, toRange(node));
+            getReturnExpressions(node).forEach((returned, index) => {
+                locations.set(`${name}.returns.${index}`, toRange(returned));
+            });
+        } else if (ts.isObjectLiteralExpression(node)) {
+            for (const property of node.properties) {
+                const key = property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+                    ? property.name.text
+                    : undefined;
+                if (!key) {
+                    continue;
+                }
+
+                const propertyHookType = HOOK_TYPES.find((type) => type === key) ?? hookType;
+                if (ts.isPropertyAssignment(property)) {
+                    collect(property.initializer, `${name}.${key}`, propertyHookType);
+                } else if (ts.isMethodDeclaration(property)) {
+                    collect(property, `${name}.${key}`, propertyHookType);
+                }
+            }
+        } else if (ts.isArrayLiteralExpression(node)) {
+            node.elements.forEach((element, index) => collect(element, `${name}.${index}`, hookType));
+        }
+    };
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement)) {
+            const isDefault = statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+            collect(statement, isDefault || !statement.name ? 'default' : statement.name.text);
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+                    collect(
+                        declaration.initializer,
+                        declaration.name.text,
+                        getHookTypeFromAnnotation(declaration.type, sourceFile)
+                    );
+                }
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            const expression = unwrapExpression(statement.expression);
+            // `export default isOwner` refers to a function collected above
+            if (!ts.isIdentifier(expression)) {
+                collect(expression, 'default');
+            }
+        }
+    }
+
+    if (functions.length > 0) {
+        locations.set('', locations.get(functions[0].name)!);
+    }
+
+    let collection: any;
+    if (collectionCode) {
+        try {
+            collection = parseSource(collectionCode).value;
+        } catch {
+            collection = undefined;
+        }
+    }
+
+    return { value: { functions, collection }, sourceFile, locations };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import { isOpaqueNode, parseSource } from './parseSource.js';
+
+describe('parseSource', () => {
+    test('records the source range of every property', () => {
+        const code = `import type { CollectionConfig } from 'payload';
+
+export const Posts: CollectionConfig = {
+  slug: 'posts',
+  fields: [
+    { name: 'title', type: 'text' },
+  ],
+};`;
+        const { value, locations } = parseSource(code);
+
+        expect(value.slug).toBe('posts');
+        expect(locations.get('slug')).toEqual({ line: 4, column: 3, endLine: 4, endColumn: 16 });
+        expect(locations.get('fields.0')).toEqual({ line: 6, column: 5, endLine: 6, endColumn: 36 });
+        expect(locations.get('fields.0.type')).toEqual({ line: 6, column: 22, endLine: 6, endColumn: 34 });
+    });
+
+    test('keeps ranges of bare object literals relative to the input', () => {
+        const { locations } = parseSource(`{\n  slug: 'posts',\n}`);
+
+        expect(locations.get('slug')).toEqual({ line: 2, column: 3, endLine: 2, endColumn: 16 });
+    });
+
+    test('leaves values that need the code to run as opaque nodes', () => {
+        const { value } = parseSource(`import { NAME } from './names';
+export default { slug: 'posts', fields: [{ name: NAME, type: 'text' }], hooks: { beforeChange: [() => {}] } };`);
+
+        expect(isOpaqueNode(value.fields[0].name)).toBe(true);
+        expect(value.fields[0].type).toBe('text');
+        expect(isOpaqueNode(value.hooks.beforeChange[0])).toBe(true);
+    });
+
+    test('reports where a syntax error is', () => {
+        expect(() => parseSource(`export default {\n  slug: 'posts'\n  fields: [],\n};`)).toThrow(/\(3:3\)$/);
+    });
+});
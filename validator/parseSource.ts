@@ -0,0 +1,401 @@
+import ts from 'typescript';
+import type { SourceRange } from './types.js';
+
+const OPAQUE = Symbol('payload-mcp.opaque');
+
+/**
+ * A value that cannot be known without running the code, such as a function,
+ * an imported identifier or a call expression
+ */
+export interface OpaqueNode {
+    [OPAQUE]: 'function' | 'expression';
+    /** Source text of the expression */
+    text: string;
+}
+
+export type OpaqueFunction = ((...args: unknown[]) => never) & OpaqueNode;
+
+export interface ParsedSource {
+    /** The config object with literals resolved and everything else replaced by opaque nodes */
+    value: any;
+    sourceFile: ts.SourceFile;
+    /** Source range of every extracted property, keyed by dotted path; the config object itself is under `''` */
+    locations: Map<string, SourceRange>;
+    /** Object literals the extracted objects were read from, keyed like `locations` */
+    objects: Map<string, ts.ObjectLiteralExpression>;
+    /** Characters prepended to the code before parsing; subtract it from node positions */
+    offset: number;
+}
+
+export function isOpaqueNode(value: unknown): value is OpaqueNode {
+    return (typeof value === 'object' || typeof value === 'function') && value !== null && OPAQUE in value;
+}
+
+function createOpaqueExpression(node: ts.Node, sourceFile: ts.SourceFile): OpaqueNode {
+    return Object.freeze({ [OPAQUE]: 'expression' as const, text: node.getText(sourceFile) });
+}
+
+/**
+ * Functions stay callable-looking so `typeof value === 'function'` checks and `z.function()`
+ * schemas keep working, but they are never executed
+ */
+function createOpaqueFunction(node: ts.Node, sourceFile: ts.SourceFile): OpaqueFunction {
+    const opaque = () => {
+        throw new Error('Functions extracted by static analysis cannot be called');
+    };
+
+    return Object.assign(opaque, { [OPAQUE]: 'function' as const, text: node.getText(sourceFile) });
+}
+
+export function unwrapExpression(node: ts.Expression): ts.Expression {
+    let current = node;
+    while (
+        ts.isParenthesizedExpression(current) ||
+        ts.isAsExpression(current) ||
+        ts.isSatisfiesExpression(current) ||
+        ts.isNonNullExpression(current) ||
+        ts.isTypeAssertionExpression(current)
+    ) {
+        current = current.expression;
+    }
+
+    return current;
+}
+
+function getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+        return name.text;
+    }
+    if (ts.isComputedPropertyName(name)) {
+        const expression = unwrapExpression(name.expression);
+        if (ts.isStringLiteralLike(expression) || ts.isNumericLiteral(expression)) {
+            return expression.text;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Collect the initializers of top-level `const`/`let`/`var` declarations so identifiers can be followed
+ */
+function collectDeclarations(sourceFile: ts.SourceFile): Map<string, ts.Expression> {
+    const declarations = new Map<string, ts.Expression>();
+
+    for (const statement of sourceFile.statements) {
+        if (!ts.isVariableStatement(statement)) {
+            continue;
+        }
+        for (const declaration of statement.declarationList.declarations) {
+            if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+                declarations.set(declaration.name.text, declaration.initializer);
+            }
+        }
+    }
+
+    return declarations;
+}
+
+function createEvaluator(sourceFile: ts.SourceFile, toRange: (node: ts.Node) => SourceRange) {
+    const declarations = collectDeclarations(sourceFile);
+    const resolving = new Set<string>();
+    const spreading = new Set<ts.ArrayLiteralExpression>();
+    const locations = new Map<string, SourceRange>();
+    const objects = new Map<string, ts.ObjectLiteralExpression>();
+
+    const evaluateIdentifier = (node: ts.Identifier, path: string[]): unknown => {
+        if (node.text === 'undefined') {
+            return undefined;
+        }
+
+        const initializer = declarations.get(node.text);
+        if (!initializer || resolving.has(node.text)) {
+            return createOpaqueExpression(node, sourceFile);
+        }
+
+        resolving.add(node.text);
+        try {
+            return evaluate(initializer, path, false);
+        } finally {
+            resolving.delete(node.text);
+        }
+    };
+
+    const evaluateObject = (node: ts.ObjectLiteralExpression, path: string[]): Record<string, unknown> => {
+        const result: Record<string, unknown> = {};
+        if (!objects.has(path.join('.'))) {
+            objects.set(path.join('.'), node);
+        }
+
+        for (const property of node.properties) {
+            if (ts.isSpreadAssignment(property)) {
+                const spread = evaluate(property.expression, path, false);
+                if (spread && typeof spread === 'object' && !isOpaqueNode(spread)) {
+                    Object.assign(result, spread);
+                }
+                continue;
+            }
+
+            const name = property.name && getPropertyName(property.name, sourceFile);
+            if (name === undefined) {
+                continue;
+            }
+
+            const propertyPath = [...path, name];
+            locations.set(propertyPath.join('.'), toRange(property));
+
+            if (ts.isPropertyAssignment(property)) {
+                result[name] = evaluate(property.initializer, propertyPath, false);
+            } else if (ts.isShorthandPropertyAssignment(property)) {
+                result[name] = evaluateIdentifier(property.name, propertyPath);
+            } else {
+                result[name] = createOpaqueFunction(property, sourceFile);
+            }
+        }
+
+        return result;
+    };
+
+    /**
+     * Follow an identifier to the array literal it was declared with
+     */
+    const resolveArrayLiteral = (expression: ts.Expression, seen = new Set<string>()): ts.ArrayLiteralExpression | undefined => {
+        const node = unwrapExpression(expression);
+        if (ts.isArrayLiteralExpression(node)) {
+            return node;
+        }
+        if (ts.isIdentifier(node) && declarations.has(node.text) && !seen.has(node.text)) {
+            seen.add(node.text);
+            return resolveArrayLiteral(declarations.get(node.text)!, seen);
+        }
+
+        return undefined;
+    };
+
+    const appendElements = (elements: ts.NodeArray<ts.Expression>, path: string[], result: unknown[]) => {
+        for (const element of elements) {
+            if (ts.isOmittedExpression(element)) {
+                continue;
+            }
+            if (!ts.isSpreadElement(element)) {
+                result.push(evaluate(element, [...path, String(result.length)], true));
+                continue;
+            }
+
+            const spread = resolveArrayLiteral(element.expression);
+            if (spread && !spreading.has(spread)) {
+                spreading.add(spread);
+                appendElements(spread.elements, path, result);
+                spreading.delete(spread);
+            } else {
+                locations.set([...path, String(result.length)].join('.'), toRange(element));
+                result.push(createOpaqueExpression(element, sourceFile));
+            }
+        }
+    };
+
+    const evaluateArray = (node: ts.ArrayLiteralExpression, path: string[]): unknown[] => {
+        const result: unknown[] = [];
+        appendElements(node.elements, path, result);
+
+        return result;
+    };
+
+    /**
+     * @param record - Record the range of `expression` under `path`; property ranges are recorded by the parent object instead
+     */
+    const evaluate = (expression: ts.Expression, path: string[], record: boolean): unknown => {
+        const node = unwrapExpression(expression);
+        if (record) {
+            locations.set(path.join('.'), toRange(expression));
+        }
+
+        if (ts.isStringLiteralLike(node)) {
+            return node.text;
+        }
+        if (ts.isNumericLiteral(node)) {
+            return Number(node.text);
+        }
+        if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+            return -Number(node.operand.text);
+        }
+        if (node.kind === ts.SyntaxKind.TrueKeyword) {
+            return true;
+        }
+        if (node.kind === ts.SyntaxKind.FalseKeyword) {
+            return false;
+        }
+        if (node.kind === ts.SyntaxKind.NullKeyword) {
+            return null;
+        }
+        if (ts.isIdentifier(node)) {
+            return evaluateIdentifier(node, path);
+        }
+        if (ts.isObjectLiteralExpression(node)) {
+            return evaluateObject(node, path);
+        }
+        if (ts.isArrayLiteralExpression(node)) {
+            return evaluateArray(node, path);
+        }
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+            return createOpaqueFunction(node, sourceFile);
+        }
+
+        return createOpaqueExpression(node, sourceFile);
+    };
+
+    return {
+        evaluate: (expression: ts.Expression) => evaluate(expression, [], true),
+        locations,
+        objects,
+    };
+}
+
+/**
+ * Pick the expression holding the config: `export default`, `module.exports =`, the argument of a
+ * `buildConfig(...)`-style call, or the first top-level object literal declaration
+ */
+function findConfigExpression(sourceFile: ts.SourceFile): ts.Expression | undefined {
+    const declarations = collectDeclarations(sourceFile);
+    let exported: ts.Expression | undefined;
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportAssignment(statement)) {
+            exported = statement.expression;
+        } else if (
+            ts.isExpressionStatement(statement) &&
+            ts.isBinaryExpression(statement.expression) &&
+            statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+            statement.expression.left.getText(sourceFile) === 'module.exports'
+        ) {
+            exported = statement.expression.right;
+        }
+    }
+
+    if (!exported) {
+        exported = [...declarations.values()].find((initializer) => {
+            const node = unwrapExpression(initializer);
+            return ts.isObjectLiteralExpression(node) || ts.isCallExpression(node);
+        });
+    }
+
+    const seen = new Set<string>();
+    let current = exported && unwrapExpression(exported);
+    while (current) {
+        if (ts.isIdentifier(current) && declarations.has(current.text) && !seen.has(current.text)) {
+            seen.add(current.text);
+            current = unwrapExpression(declarations.get(current.text)!);
+        } else if (ts.isCallExpression(current) && current.arguments.length > 0) {
+            current = unwrapExpression(current.arguments[0]);
+        } else {
+            break;
+        }
+    }
+
+    return current;
+}
+
+/**
+ * Error thrown for code that cannot be parsed, with the range of the first syntax error
+ */
+export interface SourceParseError extends Error {
+    location?: SourceRange;
+}
+
+export function createParseError(message: string, location?: SourceRange): SourceParseError {
+    return Object.assign(new Error(message), { location });
+}
+
+export interface ParsedTypeScript {
+    sourceFile: ts.SourceFile;
+    /** Convert positions in the code to a 1-based source range */
+    toLocation: (start: number, end: number) => SourceRange;
+    /** The first syntax error, if any */
+    parseError?: SourceParseError;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+    return /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+}
+
+function getParseError(sourceFile: ts.SourceFile): ts.Diagnostic | undefined {
+    const diagnostics = (sourceFile as ts.SourceFile & { parseDiagnostics?: ts.Diagnostic[] }).parseDiagnostics ?? [];
+    return diagnostics[0];
+}
+
+/**
+ * Parse code into a syntax tree without type checking
+ *
+ * @param code - TypeScript or JavaScript source
+ * @param fileName - Used to pick TSX parsing for `.tsx`/`.jsx` files
+ */
+export function parseTypeScript(code: string, fileName = 'input.ts'): ParsedTypeScript {
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const toLocation = (start: number, end: number): SourceRange => {
+        const from = sourceFile.getLineAndCharacterOfPosition(Math.max(0, Math.min(start, code.length)));
+        const to = sourceFile.getLineAndCharacterOfPosition(Math.max(0, Math.min(end, code.length)));
+        return { line: from.line + 1, column: from.character + 1, endLine: to.line + 1, endColumn: to.character + 1 };
+    };
+
+    const diagnostic = getParseError(sourceFile);
+    if (!diagnostic) {
+        return { sourceFile, toLocation };
+    }
+
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (diagnostic.start === undefined) {
+        return { sourceFile, toLocation, parseError: createParseError(message) };
+    }
+
+    const location = toLocation(diagnostic.start, diagnostic.start + (diagnostic.length ?? 0));
+    return { sourceFile, toLocation, parseError: createParseError(`${message} (${location.line}:${location.column})`, location) };
+}
+
+/**
+ * Statically extract the config object from Payload source code without executing it.
+ * Handles `import`s, type annotations, `export default x` and wrapper calls such as `buildConfig({...})`;
+ * bare object literals are accepted too.
+ *
+ * @param code - Source of a collection, global, field or config file
+ * @param fileName - Used to pick TSX parsing for `.tsx`/`.jsx` files
+ * @returns The extracted value, the parsed source file and the range of every property
+ * @throws {SourceParseError} When the code has syntax errors or holds no config object
+ */
+export function parseSource(code: string, fileName = 'input.ts'): ParsedSource {
+    const { sourceFile: original, toLocation, parseError } = parseTypeScript(code, fileName);
+
+    let sourceFile = original;
+    let offset = 0;
+    let expression = parseError ? undefined : findConfigExpression(original);
+
+    if (!expression) {
+        // Bare object literals would parse as a block statement, so retry them as an expression
+        const wrapped = ts.createSourceFile(fileName, `(${code}\n)`, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+        const [statement] = wrapped.statements;
+        if (!getParseError(wrapped) && wrapped.statements.length === 1 && ts.isExpressionStatement(statement)) {
+            sourceFile = wrapped;
+            offset = 1;
+            expression = unwrapExpression(statement.expression);
+        }
+    }
+
+    if (!expression && parseError) {
+        throw parseError;
+    }
+    if (!expression) {
+        throw createParseError('Could not find a config object; export it with `export default` or pass an object literal');
+    }
+
+    const evaluator = createEvaluator(
+        sourceFile,
+        (node) => toLocation(node.getStart(sourceFile) - offset, node.getEnd() - offset)
+    );
+
+    return {
+        value: evaluator.evaluate(expression),
+        sourceFile,
+        locations: evaluator.locations,
+        objects: evaluator.objects,
+        offset,
+    };
+}
@@ -0,0 +1,140 @@
+import { forEachField } from './fields.js';
+import { ProjectEntry, ProjectFile, ProjectRegistry, ProjectRule } from './types.js';
+
+type Violation = { file: ProjectFile; path: string };
+
+/** Collections Payload adds to every project */
+const BUILT_IN_COLLECTIONS = ['payload-preferences', 'payload-migrations', 'payload-locked-documents', 'payload-jobs'];
+
+function joinPath(...segments: string[]): string {
+    return segments.filter(Boolean).join('.');
+}
+
+function toStrings(value: unknown): string[] {
+    if (typeof value === 'string') {
+        return [value];
+    }
+
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Visit the fields of every collection, global and block in the project. Blocks declared inline
+ * in a blocks field are visited through the field that declares them.
+ */
+function forEachProjectField(
+    registry: ProjectRegistry,
+    visit: (entry: ProjectEntry, field: Record<string, any>, path: string) => void
+): void {
+    const blocks = registry.blocks.filter((block) => !block.path.includes('.blocks.'));
+    for (const entry of [...registry.collections, ...registry.globals, ...blocks]) {
+        forEachField(entry.value.fields, joinPath(entry.path, 'fields'), (field, path) => visit(entry, field, path));
+    }
+}
+
+function findDuplicates(entries: ProjectEntry[], key: string): Violation[] {
+    const seen = new Set<string>();
+
+    return entries.flatMap((entry) => {
+        const value = entry.value[key];
+        if (typeof value !== 'string') {
+            return [];
+        }
+        if (seen.has(value)) {
+            return [{ file: entry.file, path: joinPath(entry.path, key) }];
+        }
+
+        seen.add(value);
+        return [];
+    });
+}
+
+export const projectRules: ProjectRule[] = [
+    {
+        id: 'project/unknown-relation',
+        check: (registry) => {
+            const slugs = [...BUILT_IN_COLLECTIONS, ...registry.collections.map((collection) => collection.slug)];
+            const violations: Violation[] = [];
+
+            forEachProjectField(registry, (entry, field, path) => {
+                const property = field.type === 'join' ? 'collection' : 'relationTo';
+                if (!['relationship', 'upload', 'join'].includes(field.type)) {
+                    return;
+                }
+                if (toStrings(field[property]).some((slug) => !slugs.includes(slug))) {
+                    violations.push({ file: entry.file, path: `${path}.${property}` });
+                }
+            });
+
+            return violations;
+        },
+        issue: {
+            message: 'Relationship points at a collection that does not exist',
+            severity: 'error',
+            suggestion: 'Use the slug of a collection registered in the project, or add the missing collection',
+            docReference: 'https://payloadcms.com/docs/fields/relationship',
+        }
+    },
+    {
+        id: 'project/unknown-block-reference',
+        check: (registry) => {
+            const slugs = registry.blocks.map((block) => block.slug);
+            const violations: Violation[] = [];
+
+            forEachProjectField(registry, (entry, field, path) => {
+                if (field.type === 'blocks' && toStrings(field.blockReferences).some((slug) => !slugs.includes(slug))) {
+                    violations.push({ file: entry.file, path: `${path}.blockReferences` });
+                }
+            });
+
+            return violations;
+        },
+        issue: {
+            message: 'Blocks field references a block that does not exist',
+            severity: 'error',
+            suggestion: 'Add the block to the `blocks` array of buildConfig or fix the slug in blockReferences',
+            docReference: 'https://payloadcms.com/docs/fields/blocks#block-references',
+        }
+    },
+    {
+        id: 'project/admin-user-auth',
+        check: (registry) => {
+            const user = registry.config?.value.admin?.user;
+            if (!registry.config || typeof user !== 'string') {
+                return [];
+            }
+
+            const collection = registry.collections.find((entry) => entry.slug === user);
+            return collection?.value.auth ? [] : [{ file: registry.config, path: 'admin.user' }];
+        },
+        issue: {
+            message: 'admin.user does not name an auth-enabled collection',
+            severity: 'error',
+            suggestion: 'Point admin.user at a collection with auth enabled',
+            docReference: 'https://payloadcms.com/docs/admin/overview#the-admin-user-collection',
+        }
+    },
+    {
+        id: 'project/duplicate-db-name',
+        check: (registry) => findDuplicates([...registry.collections, ...registry.globals], 'dbName'),
+        issue: {
+            message: 'dbName is shared by more than one collection or global',
+            severity: 'error',
+            suggestion: 'Give every collection and global a unique dbName',
+            docReference: 'https://payloadcms.com/docs/configuration/collections#config-options',
+        }
+    },
+    {
+        id: 'project/duplicate-slug',
+        check: (registry) => [
+            ...findDuplicates(registry.collections, 'slug'),
+            ...findDuplicates(registry.globals, 'slug'),
+        ],
+        issue: {
+            message: 'Slug is declared more than once in the project',
+            severity: 'error',
+            suggestion: 'Rename one of the collections or globals so every slug is unique',
+            docReference: 'https://payloadcms.com/docs/configuration/collections',
+        }
+    },
+];
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyRuleConfig, loadRuleConfig, RULE_CONFIG_FILE_NAME } from './ruleConfig.js';
+import type { ValidationIssue } from './types.js';
+import { validateCode } from './validate.js';
+
+const issue = (ruleId: string | undefined, line: number): ValidationIssue => ({
+    message: `${ruleId ?? 'parse'} issue`,
+    severity: 'warning',
+    ruleId,
+    location: { line, column: 1 },
+});
+
+describe('applyRuleConfig', () => {
+    test('drops rules that are off and overrides the severity of the others', () => {
+        const issues = [issue('collection/a', 1), issue('collection/b', 1), issue('collection/c', 1)];
+
+        expect(applyRuleConfig(issues, '', { rules: { 'collection/a': 'off', 'collection/b': 'error' } })).toEqual([
+            { ...issues[1], severity: 'error' },
+            issues[2],
+        ]);
+    });
+
+    test('suppresses the named rules on the line after a disable-next-line comment', () => {
+        const code = [
+            '// payload-mcp-disable-next-line collection/a, collection/b -- legacy data',
+            'const a = 1;',
+            '/* payload-mcp-disable-next-line */',
+            'const b = 2;',
+            'const c = 3;',
+        ].join('\n');
+        const issues = [
+            issue('collection/a', 2),
+            issue('collection/c', 2),
+            issue('legacy', 2),
+            issue('collection/c', 4),
+            issue('collection/a', 5),
+        ];
+
+        expect(applyRuleConfig(issues, code)).toEqual([issues[1], issues[2], issues[4]]);
+    });
+
+    test('keeps issues without a rule ID', () => {
+        const parseError = issue(undefined, 2);
+
+        expect(applyRuleConfig([parseError], '// payload-mcp-disable-next-line\nconst a = ;', { rules: {} })).toEqual([parseError]);
+    });
+
+    test('applies to validateCode results', () => {
+        const code = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    // payload-mcp-disable-next-line field/label
+    { name: 'tags', type: 'relationship', relationTo: 'tags', hasMany: true },
+  ],
+};`;
+        const { issues } = validateCode({
+            code,
+            componentType: 'collection',
+            ruleConfig: { rules: { 'collection/timestamps': 'off', 'collection/missing-access': 'error' } },
+        });
+        const severities = Object.fromEntries(issues.map((found) => [found.ruleId, found.severity]));
+
+        expect(severities['collection/missing-access']).toBe('error');
+        expect(severities['field/relationship-index']).toBeDefined();
+        expect(Object.keys(severities)).not.toContain('collection/timestamps');
+        expect(Object.keys(severities)).not.toContain('field/label');
+    });
+});
+
+describe('loadRuleConfig', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    const writeConfig = (contents: string) => fs.writeFileSync(path.join(projectRoot, RULE_CONFIG_FILE_NAME), contents);
+
+    test('returns undefined without a config file', () => {
+        expect(loadRuleConfig(projectRoot)).toBeUndefined();
+    });
+
+    test('reads rule settings', () => {
+        writeConfig(JSON.stringify({ rules: { 'collection/missing-timestamps': 'off' } }));
+
+        expect(loadRuleConfig(projectRoot)).toEqual({ rules: { 'collection/missing-timestamps': 'off' } });
+    });
+
+    test('rejects invalid settings', () => {
+        writeConfig(JSON.stringify({ rules: { 'collection/missing-timestamps': 'loud' } }));
+        expect(() => loadRuleConfig(projectRoot)).toThrow(/Invalid rule config .*: rules\.collection\/missing-timestamps: Invalid enum value/);
+
+        writeConfig('{ "rules": ');
+        expect(() => loadRuleConfig(projectRoot)).toThrow('Invalid JSON in rule config');
+    });
+});
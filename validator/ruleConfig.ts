@@ -0,0 +1,95 @@
+/**
+ * Per-project rule settings and inline suppression comments
+ */
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { RuleConfig, ValidationIssue } from './types.js';
+
+export const RULE_CONFIG_FILE_NAME = '.payload-mcp-rules.json';
+
+const DISABLE_NEXT_LINE = /\/[/*]\s*payload-mcp-disable-next-line\b(.*)$/;
+
+const ruleConfigSchema = z.object({
+    rules: z.record(z.enum(['off', 'error', 'warning', 'info', 'best-practice'])).default({}),
+    plugins: z.string().min(1).optional(),
+}).strict();
+
+/**
+ * Read `.payload-mcp-rules.json` from a project root
+ *
+ * @param projectRoot - Directory holding the file
+ * @returns The rule config, or undefined when the project has none
+ */
+export function loadRuleConfig(projectRoot: string): RuleConfig | undefined {
+    const configPath = path.join(projectRoot, RULE_CONFIG_FILE_NAME);
+    if (!fs.existsSync(configPath)) {
+        return undefined;
+    }
+
+    let contents: unknown;
+    try {
+        contents = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Invalid JSON in rule config ${configPath}: ${(error as Error).message}`);
+    }
+
+    const result = ruleConfigSchema.safeParse(contents);
+    if (!result.success) {
+        const details = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        throw new Error(`Invalid rule config ${configPath}: ${details}`);
+    }
+
+    return result.data;
+}
+
+/**
+ * Rule IDs named by `// payload-mcp-disable-next-line` comments, keyed by the 1-based line they apply to.
+ * An empty set suppresses every rule on that line.
+ */
+function findSuppressions(code: string): Map<number, Set<string>> {
+    const suppressions = new Map<number, Set<string>>();
+
+    code.split('\n').forEach((line, index) => {
+        const match = line.match(DISABLE_NEXT_LINE);
+        if (!match) {
+            return;
+        }
+
+        // Anything after `--` or the end of a block comment is a description, not a rule ID
+        const ruleIds = match[1].split(/\s--\s|\*\//)[0].split(/[\s,]+/).filter(Boolean);
+        suppressions.set(index + 2, new Set(ruleIds));
+    });
+
+    return suppressions;
+}
+
+/**
+ * Drop issues from disabled or suppressed rules and apply severity overrides.
+ * Issues without a rule ID, such as parse errors, are always kept.
+ *
+ * @param issues - Issues found in `code`
+ * @param code - Source the issues were found in, scanned for suppression comments
+ * @param ruleConfig - Project rule settings
+ */
+export function applyRuleConfig(issues: ValidationIssue[], code: string, ruleConfig?: RuleConfig): ValidationIssue[] {
+    const suppressions = findSuppressions(code);
+
+    return issues.flatMap((issue) => {
+        if (!issue.ruleId) {
+            return [issue];
+        }
+
+        const suppressed = issue.location?.line !== undefined && suppressions.get(issue.location.line);
+        if (suppressed && (suppressed.size === 0 || suppressed.has(issue.ruleId))) {
+            return [];
+        }
+
+        const setting = ruleConfig?.rules[issue.ruleId];
+        if (setting === 'off') {
+            return [];
+        }
+
+        return [setting ? { ...issue, severity: setting } : issue];
+    });
+}
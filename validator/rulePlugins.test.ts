@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadRulePlugins } from './rulePlugins.js';
+
+const pluginSource = `export default {
+  name: 'house',
+  rules: {
+    collection: {
+      bestPractices: [{
+        id: 'house/slug',
+        test: () => true,
+        issue: { message: 'Set a description', severity: 'warning' },
+      }],
+    },
+  },
+};
+`;
+
+describe('loadRulePlugins', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'payload-mcp-'));
+        fs.mkdirSync(path.join(projectRoot, 'rules'));
+        fs.writeFileSync(path.join(projectRoot, 'rules', 'house.mjs'), pluginSource);
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('imports each plugin module once', async () => {
+        const [first] = await loadRulePlugins(projectRoot, { plugins: 'rules' });
+        const [second] = await loadRulePlugins(projectRoot, { plugins: 'rules' });
+
+        expect(first.name).toBe('house');
+        expect(second.rules).toBe(first.rules);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Load a project's own rules from the plugin directory named in `.payload-mcp-rules.json`
+ */
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { projectRules } from './projectValidator.js';
+import { COMPONENT_TYPES, ComponentType, RuleConfig, RulePlugin, ValidationRule } from './types.js';
+import { getValidationRules } from './validate.js';
+
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+const RULE_CATEGORIES = ['bestPractices', 'security', 'performance'] as const;
+const SEVERITIES = ['error', 'warning', 'info', 'best-practice'];
+
+function getBuiltInRuleIds(): Map<string, ValidationRule | undefined> {
+    const ids = [
+        ...COMPONENT_TYPES.flatMap((componentType) => {
+            const rules = getValidationRules(componentType);
+            return [
+                `${componentType}/syntax`,
+                ...RULE_CATEGORIES.flatMap((category) => rules[category].map((rule) => rule.id)),
+            ];
+        }),
+        ...projectRules.map((rule) => rule.id),
+    ];
+
+    return new Map(ids.map((id) => [id, undefined]));
+}
+
+function assertRule(rule: any, description: string): asserts rule is ValidationRule {
+    const isValid = typeof rule === 'object' && rule !== null &&
+        typeof rule.id === 'string' && rule.id.length > 0 &&
+        typeof rule.test === 'function' &&
+        typeof rule.issue?.message === 'string' &&
+        SEVERITIES.includes(rule.issue.severity) &&
+        (rule.locate === undefined || typeof rule.locate === 'function') &&
+        (rule.fix === undefined || typeof rule.fix === 'function');
+
+    if (!isValid) {
+        throw new Error(`${description} must have an id, a test function and an issue with a message and severity`);
+    }
+}
+
+function toRulePlugin(exported: any, filePath: string): RulePlugin {
+    const plugin = exported.default ?? exported;
+    if (typeof plugin !== 'object' || plugin === null || typeof plugin.rules !== 'object' || plugin.rules === null) {
+        throw new Error(`Rule plugin ${filePath} must export an object with rules`);
+    }
+
+    for (const [componentType, categories] of Object.entries<any>(plugin.rules)) {
+        if (!COMPONENT_TYPES.includes(componentType as ComponentType)) {
+            throw new Error(`Rule plugin ${filePath} registers rules for unknown component type: ${componentType}`);
+        }
+
+        for (const [category, rules] of Object.entries<any>(categories ?? {})) {
+            if (!(RULE_CATEGORIES as readonly string[]).includes(category) || !Array.isArray(rules)) {
+                throw new Error(`Rule plugin ${filePath} has invalid category ${componentType}.${category}; expected an array of rules in one of ${RULE_CATEGORIES.join(', ')}`);
+            }
+            rules.forEach((rule, index) => assertRule(rule, `Rule ${componentType}.${category}.${index} of plugin ${filePath}`));
+        }
+    }
+
+    return {
+        name: typeof plugin.name === 'string' ? plugin.name : path.basename(filePath, path.extname(filePath)),
+        rules: plugin.rules,
+    };
+}
+
+/**
+ * Import every module in the plugin directory of a rule config. Modules default-export a
+ * `RulePlugin`; rule IDs must not clash with built-in rules or other plugins. Node caches the
+ * modules, so edits to a plugin take effect after a restart.
+ *
+ * @param projectRoot - Directory the plugin directory is resolved against
+ * @param ruleConfig - Project rule config, usually from `loadRuleConfig`
+ * @returns The loaded plugins, in file name order; empty when no plugin directory is configured
+ */
+export async function loadRulePlugins(projectRoot: string, ruleConfig?: RuleConfig): Promise<RulePlugin[]> {
+    if (!ruleConfig?.plugins) {
+        return [];
+    }
+
+    const directory = path.resolve(projectRoot, ruleConfig.plugins);
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+        throw new Error(`Rule plugin directory does not exist or is not a directory: ${directory}`);
+    }
+
+    const files = fs.readdirSync(directory)
+        .filter((name) => PLUGIN_EXTENSIONS.includes(path.extname(name)))
+        .sort()
+        .map((name) => path.join(directory, name));
+    const ruleIds = getBuiltInRuleIds();
+    const plugins: RulePlugin[] = [];
+
+    for (const filePath of files) {
+        let exported: unknown;
+        try {
+            exported = await import(pathToFileURL(filePath).href);
+        } catch (error) {
+            throw new Error(`Failed to load rule plugin ${filePath}: ${(error as Error).message}`);
+        }
+
+        const plugin = toRulePlugin(exported, filePath);
+        for (const categories of Object.values(plugin.rules)) {
+            for (const rule of RULE_CATEGORIES.flatMap((category) => categories?.[category] ?? [])) {
+                // The same rule may be registered for several component types
+                if (ruleIds.has(rule.id) && ruleIds.get(rule.id) !== rule) {
+                    throw new Error(`Rule plugin ${filePath} registers rule ID ${rule.id}, which is already in use`);
+                }
+                ruleIds.set(rule.id, rule);
+            }
+        }
+        plugins.push(plugin);
+    }
+
+    return plugins;
+}
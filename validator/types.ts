@@ -1,18 +1,39 @@
 import { z } from 'zod';
 
-export type ComponentType = 'collection' | 'field' | 'global' | 'config';
+export const COMPONENT_TYPES = ['collection', 'field', 'global', 'config', 'access', 'hook'] as const;
+
+export type ComponentType = typeof COMPONENT_TYPES[number];
 
 export type ValidationSeverity = 'error' | 'warning' | 'info' | 'best-practice';
 
+/**
+ * 1-based source range
+ */
+export interface SourceRange {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
 export interface ValidationIssue {
     message: string;
     severity: ValidationSeverity;
     location?: {
+        /** File the issue was found in, when known */
+        file?: string;
+        /** Dotted path of the property, e.g. `fields.2.tabs.0.fields.1` */
         path?: string;
         line?: number;
         column?: number;
+        endLine?: number;
+        endColumn?: number;
     };
     code?: string;
+    /** ID of the rule that reported the issue, e.g. `field/text-length` */
+    ruleId?: string;
+    /** Name of the plugin that registered the rule, absent for built-in rules */
+    plugin?: string;
     suggestion?: string;
     docReference?: string;
 }
@@ -31,9 +52,51 @@ export interface ValidationRules {
 }
 
 export interface ValidationRule {
+    /** Stable ID used to disable the rule or change its severity, e.g. `field/text-length` */
+    id: string;
     test: (code: any) => boolean;
     issue: Omit<ValidationIssue, 'location'>;
-    fix?: (code: any) => any;
+    /**
+     * Dotted path of the property the issue is about, e.g. `fields.2.relationTo`.
+     * A missing property is reported at its closest parent that exists in the source.
+     */
+    locate?: (code: any) => string | undefined;
+    /**
+     * Properties to add to resolve the issue. Fixes only ever add missing properties,
+     * so an empty list means the issue cannot be fixed safely.
+     */
+    fix?: (code: any) => RuleFix[];
+}
+
+export interface RuleFix {
+    /** Dotted path of the property to add, e.g. `fields.2.index` */
+    path: string;
+    /** Source text of the value, e.g. `true` or `'title'` */
+    value: string;
+}
+
+/**
+ * `off` disables a rule, a severity replaces the one it reports with
+ */
+export type RuleSetting = 'off' | ValidationSeverity;
+
+/**
+ * Contents of `.payload-mcp-rules.json`
+ */
+export interface RuleConfig {
+    /** Settings keyed by rule ID */
+    rules: Record<string, RuleSetting>;
+    /** Directory of rule plugin modules, relative to the project root */
+    plugins?: string;
+}
+
+/**
+ * Module adding a project's own rules, e.g. that every collection sets `admin.group`.
+ * Rules receive the same parsed value as the built-in rules of their component type.
+ */
+export interface RulePlugin {
+    name: string;
+    rules: Partial<Record<ComponentType, Partial<Omit<ValidationRules, 'syntax'>>>>;
 }
 
 export interface ValidatorOptions {
@@ -41,10 +104,91 @@ export interface ValidatorOptions {
     checkBestPractices?: boolean;
     checkSecurity?: boolean;
     checkPerformance?: boolean;
+    /** Rules to disable or report at another severity */
+    ruleConfig?: RuleConfig;
+    /** Rules to run in addition to the built-in ones */
+    plugins?: RulePlugin[];
 }
 
 export interface ValidateCodeOptions extends ValidatorOptions {
     code: string;
     filePath?: string;
     componentType: ComponentType;
-} 
\ No newline at end of file
+    /** Source of the collection an access function or hook belongs to, used to check indexes and slugs */
+    collectionCode?: string;
+}
+
+export interface FixCodeResult extends ValidationResult {
+    /** Source with every applicable fix applied */
+    code: string;
+    /** Unified diff from the original source, empty when nothing was fixed */
+    diff: string;
+    /** Issues resolved by the applied fixes; `issues` lists the ones that remain */
+    fixed: ValidationIssue[];
+}
+
+export type ProjectComponentType = 'collection' | 'global' | 'block' | 'config';
+
+/**
+ * Config file loaded from a project
+ */
+export interface ProjectFile {
+    /** Path relative to the project root */
+    filePath: string;
+    componentType: ProjectComponentType;
+    code: string;
+    value: any;
+    locations: Map<string, SourceRange>;
+}
+
+/**
+ * Collection, global or block found in a project, either exported by a file or declared inline
+ */
+export interface ProjectEntry {
+    slug: string;
+    file: ProjectFile;
+    /** Path of the config object inside the file, `''` when it is the file's export */
+    path: string;
+    value: any;
+}
+
+export interface ProjectRegistry {
+    files: ProjectFile[];
+    config?: ProjectFile;
+    collections: ProjectEntry[];
+    globals: ProjectEntry[];
+    blocks: ProjectEntry[];
+}
+
+/**
+ * Rule checked across every file of a project, e.g. that relationships point at existing collections
+ */
+export interface ProjectRule {
+    id: string;
+    issue: Omit<ValidationIssue, 'location'>;
+    /** Every place the rule is violated, as a file and a dotted path inside it */
+    check: (registry: ProjectRegistry) => Array<{ file: ProjectFile; path: string }>;
+}
+
+export interface ProjectFileResult {
+    filePath: string;
+    componentType: ProjectComponentType;
+    isValid: boolean;
+    issues: ValidationIssue[];
+}
+
+export interface ProjectValidationResult {
+    isValid: boolean;
+    projectRoot: string;
+    /** Slugs found in the project */
+    registry: {
+        collections: string[];
+        globals: string[];
+        blocks: string[];
+    };
+    files: ProjectFileResult[];
+}
+
+export interface ValidateProjectOptions extends ValidatorOptions {
+    projectRoot: string;
+}
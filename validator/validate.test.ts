@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { validateCode } from './validate.js';
+
+const syntaxIssues = (code: string, componentType: 'collection' | 'global' | 'field') =>
+    validateCode({ code, componentType }).issues
+        .filter((issue) => issue.ruleId?.endsWith('/syntax'))
+        .map((issue) => ({ ruleId: issue.ruleId, path: issue.location?.path, message: issue.message }));
+
+describe('validateCode field schemas', () => {
+    test('checks fields of a collection against the schema of their type', () => {
+        const code = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'status', type: 'select' },
+    { name: 'title', type: 'text' },
+  ],
+};`;
+
+        expect(syntaxIssues(code, 'collection')).toEqual([
+            { ruleId: 'field/syntax', path: 'fields.0.options', message: 'Syntax error: Required' },
+        ]);
+    });
+
+    test('checks fields nested in tabs and groups of a global', () => {
+        const code = `export const Site = {
+  slug: 'site',
+  fields: [{
+    type: 'tabs',
+    tabs: [{ name: 'meta', fields: [{ name: 'owner', type: 'group', fields: [{ name: 'kind', type: 'radio', options: [] }] }] }],
+  }],
+};`;
+
+        expect(syntaxIssues(code, 'global')).toEqual([{
+            ruleId: 'field/syntax',
+            path: 'fields.0.tabs.0.fields.0.fields.0.options',
+            message: 'Syntax error: Array must contain at least 1 element(s)',
+        }]);
+    });
+
+    test('reports a nested field of a field once', () => {
+        const code = `export const owner = { name: 'owner', type: 'group', fields: [{ name: 'kind', type: 'select' }] };`;
+
+        expect(syntaxIssues(code, 'field')).toEqual([
+            { ruleId: 'field/syntax', path: 'fields.0.options', message: 'Syntax error: Required' },
+        ]);
+    });
+
+    test('accepts valid fields of every kind', () => {
+        const code = `export const Posts = {
+  slug: 'posts',
+  fields: [
+    { name: 'status', type: 'select', options: ['draft', { label: 'Live', value: 'live' }] },
+    { name: 'author', type: 'relationship', relationTo: 'users' },
+    { name: 'location', type: 'point' },
+    { type: 'row', fields: [{ name: 'views', type: 'number' }] },
+    { name: 'layout', type: 'blocks', blocks: [{ slug: 'hero', fields: [{ name: 'heading', type: 'text' }] }] },
+  ],
+};`;
+
+        expect(syntaxIssues(code, 'collection')).toEqual([]);
+    });
+});
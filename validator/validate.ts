@@ -5,14 +5,33 @@ import {
     ValidateCodeOptions,
     ComponentType,
     ValidationRules,
-    ValidationRule
+    ValidationRule,
+    SourceRange,
+    RulePlugin
 } from './types.js';
 import { collectionValidationRules } from './collectionValidator.js';
 import { fieldValidationRules } from './fieldValidator.js';
 import { globalValidationRules } from './globalValidator.js';
 import { configValidationRules } from './configValidator.js';
+import { accessValidationRules } from './accessValidator.js';
+import { hookValidationRules } from './hookValidator.js';
+import { parseFunctions } from './parseFunctions.js';
+import { isOpaqueNode, parseSource, type ParsedSource, type SourceParseError } from './parseSource.js';
+import { forEachNestedField } from './fields.js';
+import { applyRuleConfig } from './ruleConfig.js';
 
-function getValidationRules(componentType: ComponentType): ValidationRules {
+/**
+ * Rules to run against a value found at `path` in the parsed code
+ */
+export interface RuleTarget {
+    rules: ValidationRules;
+    value: any;
+    path: string;
+    /** Fields nested in the root value, each checked against the field schema on its own */
+    nested: boolean;
+}
+
+function getBuiltInRules(componentType: ComponentType): ValidationRules {
     switch (componentType) {
         case 'collection':
             return collectionValidationRules;
@@ -22,29 +41,93 @@ function getValidationRules(componentType: ComponentType): ValidationRules {
             return globalValidationRules;
         case 'config':
             return configValidationRules;
+        case 'access':
+            return accessValidationRules;
+        case 'hook':
+            return hookValidationRules;
         default:
             throw new Error(`Unsupported component type: ${componentType}`);
     }
 }
 
-function parseCode(code: string): any {
-    try {
-        if (code.includes('export default') || code.includes('module.exports')) {
-            const strippedCode = code
-                .replace(/export\s+default\s+/g, 'return ')
-                .replace(/module\.exports\s+=\s+/g, 'return ');
+/**
+ * Rules checked for a component type: the built-in ones followed by those registered by plugins
+ */
+export function getValidationRules(componentType: ComponentType, plugins: RulePlugin[] = []): ValidationRules {
+    const rules = getBuiltInRules(componentType);
+    const fromPlugins = (category: 'bestPractices' | 'security' | 'performance') => plugins.flatMap((plugin) =>
+        (plugin.rules[componentType]?.[category] ?? []).map((rule) => ({
+            ...rule,
+            issue: { ...rule.issue, plugin: plugin.name },
+        }))
+    );
+
+    return {
+        syntax: rules.syntax,
+        bestPractices: [...rules.bestPractices, ...fromPlugins('bestPractices')],
+        security: [...rules.security, ...fromPlugins('security')],
+        performance: [...rules.performance, ...fromPlugins('performance')],
+    };
+}
+
+/**
+ * Pair the parsed code with the rules that apply to it: the component rules at the root, and the
+ * field rules for every field nested in a collection, global or field, including inside tabs and blocks
+ */
+export function getRuleTargets(componentType: ComponentType, value: any, plugins: RulePlugin[] = []): RuleTarget[] {
+    const targets: RuleTarget[] = [{ rules: getValidationRules(componentType, plugins), value, path: '', nested: false }];
+
+    if (['collection', 'global', 'field'].includes(componentType) && value && typeof value === 'object' && !isOpaqueNode(value)) {
+        const fieldRules = getValidationRules('field', plugins);
+        forEachNestedField(value, '', (field, path) => {
+            targets.push({ rules: fieldRules, value: field, path, nested: true });
+        });
+    }
+
+    return targets;
+}
 
-            return new Function(`${strippedCode}`)();
+/**
+ * Find the source range for a property path, falling back to the closest parent that exists in the source
+ */
+export function resolveLocation(locations: Map<string, SourceRange>, path: Array<string | number>): ValidationIssue['location'] {
+    for (let length = path.length; length >= 0; length--) {
+        const range = locations.get(path.slice(0, length).join('.'));
+        if (range) {
+            return { path: path.join('.'), ...range };
         }
+    }
 
-        return new Function(`return ${code}`)();
-    } catch (error) {
-        throw new Error(`Failed to parse code: ${(error as Error).message}`);
+    return { path: path.join('.') };
+}
+
+/**
+ * Whether the value at a schema issue path depends on code that was not evaluated
+ */
+function isOpaqueAt(code: any, path: Array<string | number>): boolean {
+    let current = code;
+    for (const key of path) {
+        if (isOpaqueNode(current)) {
+            return true;
+        }
+        if (current === null || typeof current !== 'object') {
+            return false;
+        }
+        current = current[key];
     }
+
+    return isOpaqueNode(current);
 }
 
-function validateSyntax(code: any, schemas: z.ZodType<any>[]): ValidationIssue[] {
+function validateSyntax(
+    code: any,
+    schemas: z.ZodType<any>[],
+    locations: Map<string, SourceRange>,
+    ruleId: string,
+    basePath = ''
+): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
+    const base = basePath ? basePath.split('.') : [];
 
     for (const schema of schemas) {
         try {
@@ -52,13 +135,17 @@ function validateSyntax(code: any, schemas: z.ZodType<any>[]): ValidationIssue[]
         } catch (error) {
             if (error instanceof z.ZodError) {
                 for (const issue of error.issues) {
+                    if (isOpaqueAt(code, issue.path)) {
+                        continue;
+                    }
+
+                    const path = [...base, ...issue.path];
                     issues.push({
                         message: `Syntax error: ${issue.message}`,
                         severity: 'error',
-                        location: {
-                            path: issue.path.join('.'),
-                        },
-                        suggestion: `Fix the syntax error at ${issue.path.join('.')}`,
+                        ruleId,
+                        location: resolveLocation(locations, path),
+                        suggestion: `Fix the syntax error at ${path.join('.')}`,
                     });
                 }
             }
@@ -68,13 +155,23 @@ function validateSyntax(code: any, schemas: z.ZodType<any>[]): ValidationIssue[]
     return issues;
 }
 
-function validateRules(code: any, rules: ValidationRule[]): ValidationIssue[] {
+function validateRules(
+    code: any,
+    rules: ValidationRule[],
+    locations: Map<string, SourceRange>,
+    basePath = ''
+): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
 
     for (const rule of rules) {
         try {
             if (rule.test(code)) {
-                issues.push(rule.issue);
+                const path = [basePath, rule.locate?.(code)].filter(Boolean).join('.');
+                issues.push({
+                    ...rule.issue,
+                    ruleId: rule.id,
+                    location: resolveLocation(locations, path ? path.split('.') : []),
+                });
             }
         } catch (error) {
             console.error(`Rule validation error: ${(error as Error).message}`);
@@ -89,65 +186,81 @@ export function validateCode(options: ValidateCodeOptions): ValidationResult {
         code,
         componentType,
         filePath,
+        collectionCode,
         checkSyntax = true,
         checkBestPractices = true,
         checkSecurity = true,
         checkPerformance = true,
+        ruleConfig,
+        plugins,
     } = options;
 
     const issues: ValidationIssue[] = [];
-    let parsedCode: any;
+    let parsed: Pick<ParsedSource, 'value' | 'locations'>;
 
     try {
-        parsedCode = parseCode(code);
+        parsed = componentType === 'access' || componentType === 'hook'
+            ? parseFunctions(code, filePath, collectionCode)
+            : parseSource(code, filePath);
     } catch (error) {
         return {
             isValid: false,
             componentType,
             issues: [{
-                message: `Code parsing error: ${(error as Error).message}`,
+                message: `Code parsing error: Failed to parse code: ${(error as SourceParseError).message}`,
                 severity: 'error',
-                location: { path: filePath },
+                location: { file: filePath, ...(error as SourceParseError).location },
             }],
         };
     }
 
-    const rules = getValidationRules(componentType);
+    const { value: parsedCode, locations } = parsed;
+
+    const targets = getRuleTargets(componentType, parsedCode, plugins);
+    const runRules = (category: 'bestPractices' | 'security' | 'performance') => targets.flatMap((target) =>
+        validateRules(target.value, target.rules[category], locations, target.path)
+    );
 
     if (checkSyntax) {
-        const syntaxIssues = validateSyntax(parsedCode, rules.syntax);
-        issues.push(...syntaxIssues);
+        const syntaxIssues = [
+            ...validateSyntax(parsedCode, targets[0].rules.syntax, locations, `${componentType}/syntax`),
+            ...targets.filter((target) => target.nested).flatMap((target) =>
+                validateSyntax(target.value, target.rules.syntax, locations, 'field/syntax', target.path)
+            ),
+        ];
+        // The field schema checks the fields inside a field too, so a nested field can be reported twice
+        const seen = new Set<string>();
+        issues.push(...syntaxIssues.filter((issue) => {
+            const key = `${issue.message}@${issue.location?.path}`;
+            return !seen.has(key) && Boolean(seen.add(key));
+        }));
     }
 
     if (checkBestPractices) {
-        const bestPracticeIssues = validateRules(parsedCode, rules.bestPractices);
-        issues.push(...bestPracticeIssues);
+        issues.push(...runRules('bestPractices'));
     }
 
     if (checkSecurity) {
-        const securityIssues = validateRules(parsedCode, rules.security);
-        issues.push(...securityIssues);
+        issues.push(...runRules('security'));
     }
 
     if (checkPerformance) {
-        const performanceIssues = validateRules(parsedCode, rules.performance);
-        issues.push(...performanceIssues);
+        issues.push(...runRules('performance'));
     }
 
+    const reported = applyRuleConfig(issues, code, ruleConfig);
+
     if (filePath) {
-        issues.forEach(issue => {
-            if (!issue.location) {
-                issue.location = {};
-            }
-            issue.location.path = filePath;
+        reported.forEach(issue => {
+            issue.location = { file: filePath, ...issue.location };
         });
     }
 
-    const hasErrors = issues.some(issue => issue.severity === 'error');
+    const hasErrors = reported.some(issue => issue.severity === 'error');
 
     return {
         isValid: !hasErrors,
         componentType,
-        issues,
+        issues: reported,
     };
 } 
\ No newline at end of file
@@ -0,0 +1,208 @@
+/**
+ * Validate every collection, global, block and config file of a project together
+ */
+import fs from 'fs';
+import path from 'path';
+import { forEachField } from './fields.js';
+import { isOpaqueNode, parseSource } from './parseSource.js';
+import { projectRules } from './projectValidator.js';
+import { applyRuleConfig, loadRuleConfig } from './ruleConfig.js';
+import {
+    ProjectComponentType,
+    ProjectEntry,
+    ProjectFile,
+    ProjectFileResult,
+    ProjectRegistry,
+    ProjectValidationResult,
+    ValidateProjectOptions,
+    ValidationIssue,
+} from './types.js';
+import { resolveLocation, validateCode } from './validate.js';
+
+const SKIPPED_DIRECTORIES = ['node_modules', 'dist', 'build', 'coverage', 'migrations'];
+const MAX_FILE_SIZE = 1024 * 1024;
+
+function findSourceFiles(directory: string): string[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            return entry.name.startsWith('.') || SKIPPED_DIRECTORIES.includes(entry.name) ? [] : findSourceFiles(fullPath);
+        }
+
+        return entry.isFile() && /\.[cm]?[jt]s$/.test(entry.name) && !entry.name.endsWith('.d.ts') ? [fullPath] : [];
+    });
+}
+
+/**
+ * Tell config files apart by their `buildConfig` call or type import
+ */
+function getDeclaredComponentType(code: string): ProjectComponentType | undefined {
+    if (/\bbuildConfig\s*\(/.test(code)) {
+        return 'config';
+    }
+    if (/\bCollectionConfig\b/.test(code)) {
+        return 'collection';
+    }
+    if (/\bGlobalConfig\b/.test(code)) {
+        return 'global';
+    }
+    if (/import[^;]*\bBlock\b[^;]*from\s+['"]payload/.test(code)) {
+        return 'block';
+    }
+
+    return undefined;
+}
+
+function getDirectoryComponentType(filePath: string): ProjectComponentType | undefined {
+    const directories = filePath.split('/');
+    if (directories.includes('collections')) {
+        return 'collection';
+    }
+    if (directories.includes('globals')) {
+        return 'global';
+    }
+    if (directories.includes('blocks')) {
+        return 'block';
+    }
+
+    return undefined;
+}
+
+function loadProjectFile(projectRoot: string, fullPath: string): ProjectFile | undefined {
+    if (fs.statSync(fullPath).size > MAX_FILE_SIZE) {
+        return undefined;
+    }
+
+    const filePath = path.relative(projectRoot, fullPath).split(path.sep).join('/');
+    const code = fs.readFileSync(fullPath, 'utf8');
+    const declaredType = getDeclaredComponentType(code);
+    const componentType = declaredType ?? getDirectoryComponentType(filePath);
+    if (!componentType) {
+        return undefined;
+    }
+
+    try {
+        const { value, locations } = parseSource(code, filePath);
+        // Helpers that merely live in a `collections/` or `blocks/` directory are not config files
+        if (!declaredType && !hasSlug(value)) {
+            return undefined;
+        }
+
+        return { filePath, componentType, code, value, locations };
+    } catch {
+        // Declared config files that cannot be parsed are still validated so the parse error is reported
+        return declaredType ? { filePath, componentType, code, value: undefined, locations: new Map() } : undefined;
+    }
+}
+
+function hasSlug(value: unknown): value is { slug: string } {
+    return typeof value === 'object' && value !== null && !isOpaqueNode(value) && typeof (value as any).slug === 'string';
+}
+
+/**
+ * Find and parse the collection, global, block and config files under a project root.
+ * Declared config files that fail to parse are included with an undefined `value`.
+ */
+export function loadProjectFiles(projectRoot: string): ProjectFile[] {
+    if (!fs.existsSync(projectRoot) || !fs.statSync(projectRoot).isDirectory()) {
+        throw new Error(`Project root does not exist or is not a directory: ${projectRoot}`);
+    }
+
+    return findSourceFiles(projectRoot)
+        .map((fullPath) => loadProjectFile(projectRoot, fullPath))
+        .filter((file): file is ProjectFile => Boolean(file));
+}
+
+/**
+ * Collect the collections, globals and blocks of a project, including those declared inline
+ * in buildConfig and in blocks fields
+ */
+export function buildProjectRegistry(files: ProjectFile[]): ProjectRegistry {
+    const registry: ProjectRegistry = { files, collections: [], globals: [], blocks: [] };
+    const add = (kind: 'collections' | 'globals' | 'blocks', file: ProjectFile, entryPath: string, value: unknown) => {
+        if (hasSlug(value)) {
+            registry[kind].push({ slug: value.slug, file, path: entryPath, value });
+        }
+    };
+
+    for (const file of files) {
+        if (file.componentType === 'config') {
+            registry.config = registry.config ?? file;
+            for (const kind of ['collections', 'globals', 'blocks'] as const) {
+                const items = Array.isArray(file.value?.[kind]) ? file.value[kind] : [];
+                items.forEach((item: unknown, index: number) => add(kind, file, `${kind}.${index}`, item));
+            }
+        } else {
+            add(`${file.componentType}s` as 'collections' | 'globals' | 'blocks', file, '', file.value);
+        }
+    }
+
+    const owners: ProjectEntry[] = [...registry.collections, ...registry.globals, ...registry.blocks];
+    for (const owner of owners) {
+        forEachField(owner.value.fields, [owner.path, 'fields'].filter(Boolean).join('.'), (field, fieldPath) => {
+            if (field.type === 'blocks' && Array.isArray(field.blocks)) {
+                field.blocks.forEach((block: unknown, index: number) => add('blocks', owner.file, `${fieldPath}.blocks.${index}`, block));
+            }
+        });
+    }
+
+    return registry;
+}
+
+/**
+ * Validate a whole project: every collection, global and config file is checked with its
+ * component rules, then cross-reference rules run over the registry of all of them
+ *
+ * @param options - Project root and the rule categories to check. Rule settings default to the
+ * project's `.payload-mcp-rules.json`; plugin rules must be loaded with `loadRulePlugins` and passed in.
+ * @returns Issues grouped by file, with paths relative to the project root
+ */
+export function validateProject(options: ValidateProjectOptions): ProjectValidationResult {
+    const { projectRoot, ...checks } = options;
+    const files = loadProjectFiles(projectRoot);
+    const ruleConfig = checks.ruleConfig ?? loadRuleConfig(projectRoot);
+    const registry = buildProjectRegistry(files.filter((file) => file.value !== undefined));
+
+    const results = new Map<ProjectFile, ProjectFileResult>(files.map((file) => {
+        const issues = file.componentType === 'block'
+            ? []
+            : validateCode({ ...checks, ruleConfig, code: file.code, componentType: file.componentType, filePath: file.filePath }).issues;
+        return [file, { filePath: file.filePath, componentType: file.componentType, isValid: true, issues }];
+    }));
+
+    const projectIssues = new Map<ProjectFile, ValidationIssue[]>();
+    for (const rule of projectRules) {
+        for (const violation of rule.check(registry)) {
+            const issues = projectIssues.get(violation.file) ?? [];
+            issues.push({
+                ...rule.issue,
+                ruleId: rule.id,
+                location: {
+                    file: violation.file.filePath,
+                    ...resolveLocation(violation.file.locations, violation.path.split('.')),
+                },
+            });
+            projectIssues.set(violation.file, issues);
+        }
+    }
+
+    for (const [file, issues] of projectIssues) {
+        results.get(file)?.issues.push(...applyRuleConfig(issues, file.code, ruleConfig));
+    }
+
+    const fileResults = [...results.values()].map((result) => ({
+        ...result,
+        isValid: !result.issues.some((issue) => issue.severity === 'error'),
+    }));
+
+    return {
+        isValid: fileResults.every((result) => result.isValid),
+        projectRoot,
+        registry: {
+            collections: registry.collections.map((entry) => entry.slug),
+            globals: registry.globals.map((entry) => entry.slug),
+            blocks: registry.blocks.map((entry) => entry.slug),
+        },
+        files: fileResults,
+    };
+}